@@ -0,0 +1,928 @@
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import { apiKeyAuth, type ApiKey } from "./auth";
+import { OUTBOX_STATUSES } from "./db/schema";
+import { describeFailure, recordAuditEntry, type NewAuditEntry } from "./audit";
+import { ServiceError } from "./errors";
+import { describeRoute, envelope, errorResponse } from "./openapi";
+import * as schemas from "./schemas";
+import * as services from "./services";
+import type { Bindings } from "./types";
+
+/**
+ * REST API mirroring the MCP tools. Every route validates with the tool's input schema and
+ * calls the same service function, so the two surfaces behave the same way.
+ * Errors are turned into JSON responses by the app's onError handler.
+ */
+
+// What the audit log records about a request, filled in by parseInput and the service layer
+type RequestTrace = {
+  tool?: string;
+  workspaceId?: string;
+  arguments?: unknown;
+};
+
+type ApiEnv = { Bindings: Bindings; Variables: { apiKey: ApiKey; trace: RequestTrace } };
+
+export const api = new Hono<ApiEnv>();
+
+api.use("*", apiKeyAuth);
+
+// Records every authenticated request in the audit log once the response is ready
+api.use("*", async (c, next) => {
+  const startedAt = new Date();
+  const trace: RequestTrace = {};
+  c.set("trace", trace);
+
+  await next();
+
+  let failure: Pick<NewAuditEntry, "status" | "error" | "slackError"> = { status: c.res.status };
+  if (c.error) {
+    failure = describeFailure(c.error);
+  } else if (c.res.status >= 400) {
+    // Failures reported without throwing, such as dead-lettered posts
+    const body = await c.res.clone().json<{ error?: string; slack_error?: string | null }>().catch(() => null);
+    failure = { status: c.res.status, error: body?.error ?? null, slackError: body?.slack_error ?? null };
+  }
+
+  c.executionCtx.waitUntil(recordAuditEntry(c.env, {
+    apiKeyId: c.var.apiKey.id,
+    source: "rest",
+    tool: trace.tool ?? `${c.req.method} ${c.req.path}`,
+    workspaceId: trace.workspaceId ?? null,
+    arguments: trace.arguments ?? null,
+    outcome: c.res.status >= 400 ? "error" : "success",
+    ...failure,
+    latencyMs: Date.now() - startedAt.getTime(),
+    createdAt: startedAt
+  }));
+});
+
+function serviceContext(c: Context<ApiEnv>): services.ServiceContext {
+  return {
+    env: c.env,
+    apiKey: c.var.apiKey,
+    executionCtx: c.executionCtx,
+    trace: c.var.trace
+  };
+}
+
+function parseInput<T extends z.ZodTypeAny>(c: Context<ApiEnv>, schema: T, data: unknown): z.infer<T> {
+  c.var.trace.arguments = data;
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ServiceError("Invalid request", 400, result.error.issues);
+  }
+  return result.data;
+}
+
+async function readBody(c: Context<ApiEnv>) {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new ServiceError("Request body must be JSON");
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ServiceError("Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+// Query strings arrive as text; convert the values the schema expects as numbers or booleans
+function readQuery(c: Context<ApiEnv>, schema: z.AnyZodObject) {
+  return Object.fromEntries(Object.entries(c.req.query()).map(([key, value]) => {
+    let field: z.ZodTypeAny | undefined = schema.shape[key];
+    while (field instanceof z.ZodOptional || field instanceof z.ZodDefault || field instanceof z.ZodNullable) {
+      field = field._def.innerType;
+    }
+
+    if (field instanceof z.ZodNumber && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return [key, Number(value)];
+    }
+    if (field instanceof z.ZodBoolean && (value === "true" || value === "false")) {
+      return [key, value === "true"];
+    }
+    return [key, value];
+  }));
+}
+
+// Workspaces
+
+api.get("/workspaces",
+  describeRoute({
+    summary: "List workspaces",
+    tags: ["Workspaces"],
+    responses: { 200: { description: "Workspaces the API key can access", schema: envelope(z.array(schemas.workspaceView)) } }
+  }),
+  async (c) => {
+    const workspaces = await services.listWorkspaces(serviceContext(c));
+    return c.json({ success: true, data: workspaces });
+  }
+);
+
+api.post("/workspaces",
+  describeRoute({
+    summary: "Configure a workspace from a bot token",
+    description: "Adds the workspace, or updates it when the token belongs to a Slack team that is already configured.",
+    tags: ["Workspaces"],
+    body: schemas.configureWorkspaceInput,
+    responses: {
+      200: { description: "Existing workspace updated", schema: envelope(schemas.configureWorkspaceResult) },
+      201: { description: "Workspace added", schema: envelope(schemas.configureWorkspaceResult) }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.configureWorkspaceInput, await readBody(c));
+    const result = await services.configureWorkspace(serviceContext(c), input);
+    return c.json({ success: true, data: result }, result.created ? 201 : 200);
+  }
+);
+
+api.post("/workspaces/:workspace_id/deactivate",
+  describeRoute({
+    summary: "Deactivate a workspace",
+    description: "Deactivated workspaces are kept in the database but can no longer be used until reactivated.",
+    tags: ["Workspaces"],
+    query: schemas.deactivateWorkspaceInput,
+    responses: { 200: { description: "Deactivated workspace", schema: envelope(schemas.workspaceView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.deactivateWorkspaceInput, { workspace_id: c.req.param("workspace_id") });
+    const workspace = await services.deactivateWorkspace(serviceContext(c), input);
+    return c.json({ success: true, data: workspace });
+  }
+);
+
+api.post("/workspaces/:workspace_id/reactivate",
+  describeRoute({
+    summary: "Reactivate a workspace",
+    description: "Checks the stored bot token with auth.test first. Returns 400 when the token is no longer valid.",
+    tags: ["Workspaces"],
+    query: schemas.reactivateWorkspaceInput,
+    responses: {
+      200: { description: "Reactivated workspace", schema: envelope(schemas.workspaceView) },
+      409: { description: "Workspace is already active", schema: errorResponse }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.reactivateWorkspaceInput, { workspace_id: c.req.param("workspace_id") });
+    const workspace = await services.reactivateWorkspace(serviceContext(c), input);
+    return c.json({ success: true, data: workspace });
+  }
+);
+
+api.put("/workspaces/:workspace_id/mode",
+  describeRoute({
+    summary: "Switch a workspace between live and sandbox",
+    description: "A sandbox workspace still reads from Slack, but its posts, edits, deletions and reactions are simulated and recorded.",
+    tags: ["Workspaces"],
+    body: schemas.setWorkspaceModeInput,
+    responses: { 200: { description: "The updated workspace", schema: envelope(schemas.workspaceView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.setWorkspaceModeInput, {
+      ...await readBody(c),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const workspace = await services.setWorkspaceMode(serviceContext(c), input);
+    return c.json({ success: true, data: workspace });
+  }
+);
+
+api.get("/workspaces/:workspace_id/simulated-calls",
+  describeRoute({
+    summary: "List simulated Slack calls",
+    description: "Calls a sandbox workspace or a dry run recorded instead of sending, newest first.",
+    tags: ["Workspaces"],
+    query: schemas.listSimulatedCallsInput,
+    responses: { 200: { description: "Simulated calls with a continuation cursor", schema: envelope(schemas.listSimulatedCallsResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.listSimulatedCallsInput, {
+      ...readQuery(c, schemas.listSimulatedCallsInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.listSimulatedCalls(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.delete("/workspaces/:workspace_id",
+  describeRoute({
+    summary: "Remove a workspace",
+    description: "Revokes the bot token with auth.revoke, then deletes the workspace and everything stored for it.",
+    tags: ["Workspaces"],
+    query: schemas.removeWorkspaceInput,
+    responses: {
+      200: { description: "Removed workspace", schema: envelope(schemas.removeWorkspaceResult) },
+      502: { description: "Slack could not revoke the token; the workspace was kept", schema: errorResponse }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.removeWorkspaceInput, { workspace_id: c.req.param("workspace_id") });
+    const result = await services.removeWorkspace(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+// Posting policy
+
+api.get("/workspaces/:workspace_id/policy",
+  describeRoute({
+    summary: "Get the posting policy",
+    tags: ["Posting policy"],
+    query: schemas.getPostingPolicyInput,
+    responses: { 200: { description: "The workspace's posting policy", schema: envelope(schemas.postingPolicyView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getPostingPolicyInput, { workspace_id: c.req.param("workspace_id") });
+    const postingPolicy = await services.getPostingPolicy(serviceContext(c), input);
+    return c.json({ success: true, data: postingPolicy });
+  }
+);
+
+api.put("/workspaces/:workspace_id/policy",
+  describeRoute({
+    summary: "Update the posting policy",
+    description: "Changes the fields given and keeps the rest. Channel names are resolved to IDs.",
+    tags: ["Posting policy"],
+    body: schemas.setPostingPolicyInput,
+    responses: { 200: { description: "The updated posting policy", schema: envelope(schemas.postingPolicyView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.setPostingPolicyInput, {
+      ...await readBody(c),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const postingPolicy = await services.setPostingPolicy(serviceContext(c), input);
+    return c.json({ success: true, data: postingPolicy });
+  }
+);
+
+// Mention digest
+
+api.put("/workspaces/:workspace_id/digest",
+  describeRoute({
+    summary: "Configure the daily mention digest",
+    description: "Changes the fields given and keeps the rest. Channel names are resolved to IDs.",
+    tags: ["Mentions"],
+    body: schemas.configureDigestInput,
+    responses: { 200: { description: "The digest settings and the last digest", schema: envelope(schemas.digestSettingsView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.configureDigestInput, {
+      ...await readBody(c),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const settings = await services.configureDigest(serviceContext(c), input);
+    return c.json({ success: true, data: settings });
+  }
+);
+
+api.get("/workspaces/:workspace_id/digest/preview",
+  describeRoute({
+    summary: "Preview the mention digest",
+    description: "Builds the digest that would be sent now from the mentions since the last one, without sending or recording it.",
+    tags: ["Mentions"],
+    query: schemas.previewDigestInput,
+    responses: { 200: { description: "The digest settings and the digest text", schema: envelope(schemas.previewDigestResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.previewDigestInput, { workspace_id: c.req.param("workspace_id") });
+    const preview = await services.previewDigest(serviceContext(c), input);
+    return c.json({ success: true, data: preview });
+  }
+);
+
+// Mentions
+
+api.get("/workspaces/:workspace_id/mentions",
+  describeRoute({
+    summary: "Get mentions of the workspace user",
+    tags: ["Mentions"],
+    query: schemas.getMentionsInput,
+    responses: { 200: { description: "Mentions, newest first, with a continuation cursor", schema: envelope(schemas.getMentionsResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getMentionsInput, {
+      ...readQuery(c, schemas.getMentionsInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.getMentions(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+// Channels
+
+api.get("/workspaces/:workspace_id/channels",
+  describeRoute({
+    summary: "List channels from the directory cache",
+    tags: ["Channels"],
+    query: schemas.listUserChannelsInput,
+    responses: { 200: { description: "Channels ordered by name", schema: envelope(schemas.listUserChannelsResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.listUserChannelsInput, {
+      ...readQuery(c, schemas.listUserChannelsInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.listUserChannels(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.get("/workspaces/:workspace_id/channels/:channel_id/history",
+  describeRoute({
+    summary: "Read a channel's messages",
+    description: "Top-level messages, newest first. With `include_bots=false` a page can hold fewer than `limit` messages.",
+    tags: ["Channels"],
+    query: schemas.readChannelHistoryInput,
+    responses: { 200: { description: "Messages with a continuation cursor", schema: envelope(schemas.channelHistoryResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.readChannelHistoryInput, {
+      ...readQuery(c, schemas.readChannelHistoryInput),
+      workspace_id: c.req.param("workspace_id"),
+      channel_id: c.req.param("channel_id")
+    });
+    const result = await services.readChannelHistory(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.get("/workspaces/:workspace_id/channels/:channel_id/threads/:ts",
+  describeRoute({
+    summary: "Read a whole thread",
+    description: "The parent message and every reply, oldest first. `ts` may be the parent or any reply.",
+    tags: ["Channels"],
+    query: schemas.getThreadInput,
+    responses: { 200: { description: "The thread", schema: envelope(schemas.threadResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getThreadInput, {
+      workspace_id: c.req.param("workspace_id"),
+      channel_id: c.req.param("channel_id"),
+      ts: c.req.param("ts")
+    });
+    const result = await services.getThread(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.get("/workspaces/:workspace_id/channels/:channel_id/stats",
+  describeRoute({
+    summary: "Channel activity stats",
+    description: "Message volume per day, top posters, thread depth and the median time the workspace user takes to answer mentions. Results are cached per window; pass `refresh` to recompute.",
+    tags: ["Channels"],
+    query: schemas.channelStatsInput,
+    responses: { 200: { description: "Stats for the window", schema: envelope(schemas.channelStatsResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.channelStatsInput, {
+      ...readQuery(c, schemas.channelStatsInput),
+      workspace_id: c.req.param("workspace_id"),
+      channel_id: c.req.param("channel_id")
+    });
+    const result = await services.channelStats(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.put("/workspaces/:workspace_id/channels/:channel_id/messages/:ts/reactions/:emoji",
+  describeRoute({
+    summary: "React to a message",
+    description: "Adds the bot's reaction. Reacting again with the same emoji succeeds with `changed: false`.",
+    tags: ["Channels"],
+    query: schemas.addReactionInput,
+    responses: { 200: { description: "The reaction", schema: envelope(schemas.reactionResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.addReactionInput, {
+      workspace_id: c.req.param("workspace_id"),
+      channel_id: c.req.param("channel_id"),
+      ts: c.req.param("ts"),
+      emoji: c.req.param("emoji")
+    });
+    const result = await services.addReaction(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.delete("/workspaces/:workspace_id/channels/:channel_id/messages/:ts/reactions/:emoji",
+  describeRoute({
+    summary: "Remove a reaction from a message",
+    description: "Removes the bot's reaction. Removing one that is not there succeeds with `changed: false`.",
+    tags: ["Channels"],
+    query: schemas.removeReactionInput,
+    responses: { 200: { description: "The reaction", schema: envelope(schemas.reactionResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.removeReactionInput, {
+      workspace_id: c.req.param("workspace_id"),
+      channel_id: c.req.param("channel_id"),
+      ts: c.req.param("ts"),
+      emoji: c.req.param("emoji")
+    });
+    const result = await services.removeReaction(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.post("/workspaces/:workspace_id/directory/sync",
+  describeRoute({
+    summary: "Refresh the channel and user directory cache",
+    tags: ["Channels"],
+    query: schemas.syncDirectoryInput,
+    responses: { 200: { description: "Number of channels and users cached", schema: envelope(schemas.syncDirectoryResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.syncDirectoryInput, { workspace_id: c.req.param("workspace_id") });
+    const result = await services.syncDirectory(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+// Posting
+
+// The key may come from the Idempotency-Key header or the body, but they must agree
+function readIdempotencyKey(c: Context<ApiEnv>, body: Record<string, unknown>) {
+  const headerKey = c.req.header("Idempotency-Key");
+  if (headerKey !== undefined && body.idempotency_key !== undefined && headerKey !== body.idempotency_key) {
+    throw new ServiceError("Idempotency-Key header and idempotency_key field differ");
+  }
+
+  return { ...body, idempotency_key: headerKey ?? body.idempotency_key };
+}
+
+const postedResponse = z.object({
+  message_id: z.string(),
+  outbox_id: z.string(),
+  channel_name: z.string(),
+  channel_id: z.string(),
+  message_text: z.string(),
+  slack_timestamp: z.string(),
+  thread_ts: z.string().nullable(),
+  permalink: z.string(),
+  posted_at: z.string().datetime(),
+  // True for a dry run or a sandbox workspace: nothing reached Slack
+  simulated: z.boolean()
+});
+
+const queuedResponse = z.object({
+  outbox_id: z.string(),
+  status: z.enum(OUTBOX_STATUSES),
+  attempts: z.number().int(),
+  next_attempt_at: z.string().datetime().nullable(),
+  last_error: z.string().nullable()
+});
+
+const pendingApprovalResponse = z.object({
+  draft_id: z.string(),
+  status: z.literal("pending_approval"),
+  channel_id: z.string()
+});
+
+// Response for post_message and send_direct_message: 200 once posted, 202 while queued or awaiting approval
+function postResponse(c: Context<ApiEnv>, { replayed, outbox, draft }: z.infer<typeof schemas.postMessageResult>) {
+  if (replayed) {
+    c.header("Idempotent-Replayed", "true");
+  }
+
+  if (draft) {
+    return c.json({
+      success: true,
+      data: {
+        draft_id: draft.id,
+        status: "pending_approval",
+        channel_id: draft.channel_id
+      }
+    }, 202);
+  }
+
+  if (!outbox) {
+    throw new Error("Post was neither queued nor held for approval");
+  }
+
+  if (outbox.status === "dead_letter") {
+    return c.json({
+      error: "Failed to post message to Slack",
+      slack_error: outbox.last_error,
+      outbox_id: outbox.id
+    }, 500);
+  }
+
+  if (!outbox.message) {
+    return c.json({
+      success: true,
+      data: {
+        outbox_id: outbox.id,
+        status: outbox.status,
+        attempts: outbox.attempts,
+        next_attempt_at: outbox.next_attempt_at,
+        last_error: outbox.last_error
+      }
+    }, 202);
+  }
+
+  return c.json({
+    success: true,
+    data: {
+      message_id: outbox.message.id,
+      outbox_id: outbox.id,
+      channel_name: outbox.message.channel_name,
+      channel_id: outbox.message.channel_id,
+      message_text: outbox.message.message_text,
+      slack_timestamp: outbox.message.slack_timestamp,
+      thread_ts: outbox.message.thread_ts,
+      permalink: outbox.message.permalink,
+      posted_at: outbox.message.posted_at,
+      simulated: outbox.message.simulated
+    }
+  });
+}
+
+api.post("/post-message",
+  describeRoute({
+    summary: "Post a message",
+    description: "Posts through the outbox. The key may also be sent as an `Idempotency-Key` header; a replayed post is marked with an `Idempotent-Replayed: true` response header.",
+    tags: ["Messages"],
+    body: schemas.postMessageInput,
+    responses: {
+      200: { description: "Message posted", schema: envelope(postedResponse) },
+      202: {
+        description: "Message queued for delivery, or held for approval when the channel requires it",
+        schema: envelope(z.union([queuedResponse, pendingApprovalResponse]))
+      },
+      403: { description: "Blocked by the posting policy", schema: errorResponse },
+      409: { description: "Idempotency key already used for a different message", schema: errorResponse },
+      500: {
+        description: "Delivery failed and the post was moved to the dead-letter state",
+        schema: errorResponse.extend({ slack_error: z.string().nullable(), outbox_id: z.string() })
+      }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.postMessageInput, readIdempotencyKey(c, await readBody(c)));
+    return postResponse(c, await services.postMessage(serviceContext(c), input));
+  }
+);
+
+api.post("/direct-message",
+  describeRoute({
+    summary: "Send a direct message",
+    description: "Opens a DM with one user, or a group DM with several, and posts to it through the outbox. Users may be IDs, @handles or email addresses. Deactivated users and bots are refused unless `allow_inactive` is true. Accepts an `Idempotency-Key` header like /post-message.",
+    tags: ["Messages"],
+    body: schemas.sendDirectMessageInput,
+    responses: {
+      200: { description: "Message sent; channel_name lists the recipients", schema: envelope(postedResponse) },
+      202: {
+        description: "Message queued for delivery, or held for approval",
+        schema: envelope(z.union([queuedResponse, pendingApprovalResponse]))
+      },
+      403: { description: "Blocked by the posting policy", schema: errorResponse },
+      404: { description: "Workspace or recipient not found", schema: errorResponse },
+      409: { description: "Idempotency key already used for a different message", schema: errorResponse },
+      422: { description: "A recipient is deactivated or a bot", schema: errorResponse },
+      500: {
+        description: "Delivery failed and the post was moved to the dead-letter state",
+        schema: errorResponse.extend({ slack_error: z.string().nullable(), outbox_id: z.string() })
+      }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.sendDirectMessageInput, readIdempotencyKey(c, await readBody(c)));
+    return postResponse(c, await services.sendDirectMessage(serviceContext(c), input));
+  }
+);
+
+api.get("/workspaces/:workspace_id/outbox/:outbox_id",
+  describeRoute({
+    summary: "Get where a post is in the outbox",
+    tags: ["Messages"],
+    query: schemas.getOutboxStatusInput,
+    responses: { 200: { description: "Outbox status, with the posted message once sent", schema: envelope(schemas.outboxView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getOutboxStatusInput, {
+      workspace_id: c.req.param("workspace_id"),
+      outbox_id: c.req.param("outbox_id")
+    });
+    const status = await services.getOutboxStatus(serviceContext(c), input);
+    return c.json({ success: true, data: status });
+  }
+);
+
+api.get("/workspaces/:workspace_id/drafts/:draft_id",
+  describeRoute({
+    summary: "Get a post held for approval",
+    tags: ["Messages"],
+    query: schemas.getDraftInput,
+    responses: { 200: { description: "Draft status, with the outbox ID once approved", schema: envelope(schemas.draftView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getDraftInput, {
+      workspace_id: c.req.param("workspace_id"),
+      draft_id: c.req.param("draft_id")
+    });
+    const draft = await services.getDraft(serviceContext(c), input);
+    return c.json({ success: true, data: draft });
+  }
+);
+
+// Posted messages
+
+api.get("/workspaces/:workspace_id/messages",
+  describeRoute({
+    summary: "List messages posted through this server",
+    tags: ["Messages"],
+    query: schemas.getPostedMessagesInput,
+    responses: { 200: { description: "Posted messages, newest first", schema: envelope(schemas.getPostedMessagesResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.getPostedMessagesInput, {
+      ...readQuery(c, schemas.getPostedMessagesInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.getPostedMessages(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.get("/workspaces/:workspace_id/messages/search",
+  describeRoute({
+    summary: "Search messages posted through this server",
+    description: "Full-text search over message text. All words must appear; `\"double quotes\"` match a phrase and a trailing `*` a prefix.",
+    tags: ["Messages"],
+    query: schemas.searchPostedMessagesInput,
+    responses: { 200: { description: "Matching messages with highlighted snippets, best match first", schema: envelope(schemas.searchPostedMessagesResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.searchPostedMessagesInput, {
+      ...readQuery(c, schemas.searchPostedMessagesInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.searchPostedMessages(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.get("/workspaces/:workspace_id/messages/export",
+  describeRoute({
+    summary: "Export messages posted through this server",
+    description: "Streams the history as a file, oldest first. Each record has the fields of `get_posted_messages` plus `user_id` and `blocks`; CSV cells hold `blocks` as JSON.",
+    tags: ["Messages"],
+    query: schemas.exportPostedMessagesInput,
+    responses: { 200: { description: "Exported messages", contentTypes: ["text/csv", "application/x-ndjson", "application/json"] } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.exportPostedMessagesInput, {
+      ...readQuery(c, schemas.exportPostedMessagesInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const file = await services.exportPostedMessages(serviceContext(c), input);
+    return c.body(file.body, 200, {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`
+    });
+  }
+);
+
+// Import formats by request Content-Type, for when the format query parameter is left out
+const IMPORT_CONTENT_TYPES: Record<string, string> = {
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/json": "json"
+};
+
+api.post("/workspaces/:workspace_id/messages/import",
+  describeRoute({
+    summary: "Import messages exported from this or another server",
+    description: "Takes a file from the export route. Messages already in the history, matched on channel and Slack timestamp, are skipped, so a file can be imported again safely. `format` defaults to the one matching the Content-Type.",
+    tags: ["Messages"],
+    query: schemas.importPostedMessagesInput.partial({ format: true }),
+    textBody: ["text/csv", "application/x-ndjson", "application/json"],
+    responses: { 200: { description: "How many messages were imported, skipped or rejected", schema: envelope(schemas.importPostedMessagesResult) } }
+  }),
+  async (c) => {
+    const mediaType = c.req.header("Content-Type")?.split(";")[0].trim().toLowerCase() ?? '';
+    const input = parseInput(c, schemas.importPostedMessagesInput, {
+      format: IMPORT_CONTENT_TYPES[mediaType],
+      ...readQuery(c, schemas.importPostedMessagesInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const result = await services.importPostedMessages(serviceContext(c), input, await c.req.text());
+    return c.json({ success: true, data: result });
+  }
+);
+
+api.patch("/workspaces/:workspace_id/messages/:message_id",
+  describeRoute({
+    summary: "Edit a posted message",
+    tags: ["Messages"],
+    body: schemas.updateMessageInput,
+    responses: { 200: { description: "Updated message", schema: envelope(schemas.postedMessageView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.updateMessageInput, {
+      ...await readBody(c),
+      workspace_id: c.req.param("workspace_id"),
+      message_id: c.req.param("message_id")
+    });
+    const postedMessage = await services.updateMessage(serviceContext(c), input);
+    return c.json({ success: true, data: postedMessage });
+  }
+);
+
+api.delete("/workspaces/:workspace_id/messages/:message_id",
+  describeRoute({
+    summary: "Delete a posted message",
+    tags: ["Messages"],
+    query: schemas.deleteMessageInput,
+    responses: { 200: { description: "Deleted message", schema: envelope(schemas.postedMessageView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.deleteMessageInput, {
+      workspace_id: c.req.param("workspace_id"),
+      message_id: c.req.param("message_id")
+    });
+    const postedMessage = await services.deleteMessage(serviceContext(c), input);
+    return c.json({ success: true, data: postedMessage });
+  }
+);
+
+// Templates
+
+api.get("/workspaces/:workspace_id/templates",
+  describeRoute({
+    summary: "List message templates",
+    tags: ["Templates"],
+    query: schemas.listTemplatesInput,
+    responses: { 200: { description: "Templates ordered by name, with how often each was used", schema: envelope(z.array(schemas.templateView)) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.listTemplatesInput, { workspace_id: c.req.param("workspace_id") });
+    const templates = await services.listTemplates(serviceContext(c), input);
+    return c.json({ success: true, data: templates });
+  }
+);
+
+api.post("/workspaces/:workspace_id/templates",
+  describeRoute({
+    summary: "Create a message template",
+    description: "Every {{placeholder}} in the text and blocks must be declared in `variables`, and every variable must be used.",
+    tags: ["Templates"],
+    body: schemas.createTemplateInput,
+    responses: {
+      201: { description: "Template created", schema: envelope(schemas.templateView) },
+      409: { description: "A template with this name already exists", schema: errorResponse }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.createTemplateInput, {
+      ...await readBody(c),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const template = await services.createTemplate(serviceContext(c), input);
+    return c.json({ success: true, data: template }, 201);
+  }
+);
+
+api.delete("/workspaces/:workspace_id/templates/:template",
+  describeRoute({
+    summary: "Delete a message template",
+    tags: ["Templates"],
+    query: schemas.deleteTemplateInput,
+    responses: { 200: { description: "Deleted template", schema: envelope(schemas.templateView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.deleteTemplateInput, {
+      workspace_id: c.req.param("workspace_id"),
+      template: c.req.param("template")
+    });
+    const template = await services.deleteTemplate(serviceContext(c), input);
+    return c.json({ success: true, data: template });
+  }
+);
+
+api.post("/workspaces/:workspace_id/templates/:template/post",
+  describeRoute({
+    summary: "Post a message from a template",
+    description: "Fills in the template's variables and posts through the outbox like POST /api/post-message, including `Idempotency-Key` support.",
+    tags: ["Templates"],
+    body: schemas.postTemplateInput,
+    responses: {
+      200: { description: "Message posted", schema: envelope(postedResponse) },
+      202: {
+        description: "Message queued for delivery, or held for approval when the channel requires it",
+        schema: envelope(z.union([queuedResponse, pendingApprovalResponse]))
+      },
+      403: { description: "Blocked by the posting policy", schema: errorResponse },
+      404: { description: "Workspace or template not found", schema: errorResponse },
+      409: { description: "Idempotency key already used for a different message", schema: errorResponse },
+      500: {
+        description: "Delivery failed and the post was moved to the dead-letter state",
+        schema: errorResponse.extend({ slack_error: z.string().nullable(), outbox_id: z.string() })
+      }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.postTemplateInput, {
+      ...readIdempotencyKey(c, await readBody(c)),
+      workspace_id: c.req.param("workspace_id"),
+      template: c.req.param("template")
+    });
+    return postResponse(c, await services.postTemplate(serviceContext(c), input));
+  }
+);
+
+// Scheduled messages
+
+api.post("/schedule-message",
+  describeRoute({
+    summary: "Schedule a message",
+    tags: ["Scheduled messages"],
+    body: schemas.scheduleMessageInput,
+    responses: {
+      201: {
+        description: "Message scheduled",
+        schema: envelope(z.object({
+          scheduled_message_id: z.string(),
+          channel_id: z.string(),
+          message_text: z.string(),
+          post_at: z.string().datetime(),
+          status: schemas.scheduledMessageView.shape.status
+        }))
+      }
+    }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.scheduleMessageInput, await readBody(c));
+    const scheduledMessage = await services.scheduleMessage(serviceContext(c), input);
+
+    return c.json({
+      success: true,
+      data: {
+        scheduled_message_id: scheduledMessage.id,
+        channel_id: scheduledMessage.channel_id,
+        message_text: scheduledMessage.message_text,
+        post_at: scheduledMessage.post_at,
+        status: scheduledMessage.status
+      }
+    }, 201);
+  }
+);
+
+api.get("/workspaces/:workspace_id/scheduled-messages",
+  describeRoute({
+    summary: "List scheduled messages",
+    tags: ["Scheduled messages"],
+    query: schemas.listScheduledMessagesInput,
+    responses: { 200: { description: "Scheduled messages, latest due time first", schema: envelope(z.array(schemas.scheduledMessageView)) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.listScheduledMessagesInput, {
+      ...readQuery(c, schemas.listScheduledMessagesInput),
+      workspace_id: c.req.param("workspace_id")
+    });
+    const scheduledMessages = await services.listScheduledMessages(serviceContext(c), input);
+    return c.json({ success: true, data: scheduledMessages });
+  }
+);
+
+api.delete("/workspaces/:workspace_id/scheduled-messages/:scheduled_message_id",
+  describeRoute({
+    summary: "Cancel a pending scheduled message",
+    tags: ["Scheduled messages"],
+    query: schemas.cancelScheduledMessageInput,
+    responses: { 200: { description: "Cancelled message", schema: envelope(schemas.scheduledMessageView) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.cancelScheduledMessageInput, {
+      workspace_id: c.req.param("workspace_id"),
+      scheduled_message_id: c.req.param("scheduled_message_id")
+    });
+    const scheduledMessage = await services.cancelScheduledMessage(serviceContext(c), input);
+    return c.json({ success: true, data: scheduledMessage });
+  }
+);
+
+// Audit log
+
+api.get("/audit-log",
+  describeRoute({
+    summary: "Query the audit log",
+    description: "MCP tool calls and REST requests, newest first, with secrets redacted from their arguments.",
+    tags: ["Audit log"],
+    query: schemas.queryAuditLogInput,
+    responses: { 200: { description: "Matching entries", schema: envelope(schemas.queryAuditLogResult) } }
+  }),
+  async (c) => {
+    const input = parseInput(c, schemas.queryAuditLogInput, readQuery(c, schemas.queryAuditLogInput));
+    const result = await services.queryAuditLog(serviceContext(c), input);
+    return c.json({ success: true, data: result });
+  }
+);
@@ -0,0 +1,277 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq } from "drizzle-orm";
+import type { KnownBlock } from "@slack/web-api";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import type { PostMessageInput } from "./messages";
+import { markdownToMrkdwn } from "./mrkdwn";
+import { deliverOutboxMessage, enqueuePost, hashPayload, IdempotencyConflictError, idempotencyWindowMs, recordDeliveryError } from "./outbox";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type MessageDraft = typeof schema.messageDrafts.$inferSelect;
+
+// action_id of the buttons on an approval request; their value is the draft ID
+export const APPROVE_ACTION_ID = "approve_draft";
+export const REJECT_ACTION_ID = "reject_draft";
+
+// The parts of a Slack interactivity payload used to handle the approval buttons
+export type SlackInteractionPayload = {
+  type?: string;
+  team?: { id?: string };
+  user?: { id?: string };
+  actions?: { action_id?: string; value?: string }[];
+};
+
+// Section text is limited to 3000 characters by Slack
+const PREVIEW_MAX_LENGTH = 2900;
+
+function preview(payload: PostMessageInput) {
+  const text = payload.markdown ? markdownToMrkdwn(payload.text) : payload.text;
+  return text.length > PREVIEW_MAX_LENGTH ? `${text.slice(0, PREVIEW_MAX_LENGTH)}…` : text;
+}
+
+function requestBlocks(draft: MessageDraft, footer: KnownBlock): KnownBlock[] {
+  const extras = [
+    draft.payload.threadTs ? "as a thread reply" : null,
+    draft.payload.blocks ? `with ${draft.payload.blocks.length} block(s)` : null
+  ].filter(Boolean);
+
+  return [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `*Approval needed* for a post to <#${draft.channelId}>${extras.length > 0 ? ` ${extras.join(", ")}` : ''}:` }
+    },
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: preview(draft.payload) }
+    },
+    footer
+  ];
+}
+
+function pendingFooter(draft: MessageDraft): KnownBlock {
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        action_id: APPROVE_ACTION_ID,
+        text: { type: "plain_text", text: "Approve" },
+        style: "primary",
+        value: draft.id
+      },
+      {
+        type: "button",
+        action_id: REJECT_ACTION_ID,
+        text: { type: "plain_text", text: "Reject" },
+        style: "danger",
+        value: draft.id
+      }
+    ]
+  };
+}
+
+function decidedFooter(draft: MessageDraft): KnownBlock {
+  const outcome = draft.status === "approved" ? ":white_check_mark: Approved" : ":x: Rejected";
+  return {
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `${outcome} by <@${draft.decidedBy}>` }]
+  };
+}
+
+export type RequestApprovalResult = {
+  draft: MessageDraft;
+  // True when an earlier draft with the same idempotency key was returned instead
+  replayed: boolean;
+};
+
+async function findByIdempotencyKey(env: Bindings, workspace: Workspace, idempotencyKey: string) {
+  const db = drizzle(env.DB);
+  const [existing] = await db.select()
+    .from(schema.messageDrafts)
+    .where(and(
+      eq(schema.messageDrafts.workspaceId, workspace.id),
+      eq(schema.messageDrafts.idempotencyKey, idempotencyKey)
+    ))
+    .limit(1);
+
+  return existing ?? null;
+}
+
+/**
+ * The draft an earlier call made with this idempotency key inside the window, or null when
+ * there is none. Throws IdempotencyConflictError when the key was used for a different post.
+ */
+export async function findReplayedDraft(env: Bindings, workspace: Workspace, payload: PostMessageInput, idempotencyKey: string) {
+  const existing = await findByIdempotencyKey(env, workspace, idempotencyKey);
+  if (!existing || existing.createdAt.getTime() <= Date.now() - idempotencyWindowMs(env)) {
+    return null;
+  }
+  if (existing.payloadHash !== await hashPayload(payload)) {
+    throw new IdempotencyConflictError(`Idempotency key "${idempotencyKey}" was already used for a different message`);
+  }
+  return existing;
+}
+
+/**
+ * Holds a post as a draft and asks the workspace user to approve it in a DM with Approve and
+ * Reject buttons. The draft is removed again if the DM cannot be sent.
+ *
+ * An idempotency key works as for enqueuePost: a retry inside the window returns the existing
+ * draft, and a different post under the same key throws IdempotencyConflictError.
+ */
+export async function requestApproval(
+  env: Bindings,
+  workspace: Workspace,
+  payload: PostMessageInput,
+  options: { idempotencyKey?: string } = {}
+): Promise<RequestApprovalResult> {
+  const db = drizzle(env.DB);
+  const idempotencyKey = options.idempotencyKey;
+  const payloadHash = idempotencyKey ? await hashPayload(payload) : null;
+
+  let draft: MessageDraft | undefined;
+  // Two attempts: the second runs when a concurrent request inserted the same key first
+  for (let attempt = 0; attempt < 2 && !draft; attempt++) {
+    if (idempotencyKey) {
+      const existing = await findReplayedDraft(env, workspace, payload, idempotencyKey);
+      if (existing) {
+        return { draft: existing, replayed: true };
+      }
+
+      // The key has expired; release it so the new draft can take it
+      const expired = await findByIdempotencyKey(env, workspace, idempotencyKey);
+      if (expired) {
+        await db.update(schema.messageDrafts)
+          .set({ idempotencyKey: null })
+          .where(eq(schema.messageDrafts.id, expired.id));
+      }
+    }
+
+    [draft] = await db.insert(schema.messageDrafts)
+      .values({
+        workspaceId: workspace.id,
+        channelId: payload.channelId,
+        payload,
+        idempotencyKey: idempotencyKey ?? null,
+        payloadHash
+      })
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  if (!draft) {
+    throw new Error(`Could not create a draft with idempotency key "${idempotencyKey}"`);
+  }
+
+  try {
+    // A dry run's approval request is simulated along with the post
+    const slack = await getSlackClient(env, workspace, { simulate: payload.dryRun });
+    const dm = await slack.conversations.open({ users: workspace.userId });
+    if (!dm.ok || !dm.channel?.id) {
+      throw new Error(dm.error || "could not open a DM");
+    }
+
+    const request = await slack.chat.postMessage({
+      channel: dm.channel.id,
+      text: `Approval needed for a post to <#${draft.channelId}>`,
+      blocks: requestBlocks(draft, pendingFooter(draft))
+    });
+    if (!request.ok || !request.ts) {
+      throw new Error(request.error || "could not post the approval request");
+    }
+
+    const [requested] = await db.update(schema.messageDrafts)
+      .set({
+        requestChannelId: dm.channel.id,
+        requestTs: request.ts,
+        updatedAt: new Date()
+      })
+      .where(eq(schema.messageDrafts.id, draft.id))
+      .returning();
+
+    return { draft: requested, replayed: false };
+  } catch (error) {
+    await db.delete(schema.messageDrafts).where(eq(schema.messageDrafts.id, draft.id));
+    throw new ServiceError(`Failed to send the approval request: ${error instanceof Error ? error.message : 'Unknown error'}`, 502);
+  }
+}
+
+export async function getDraft(env: Bindings, workspaceId: string, draftId: string) {
+  const db = drizzle(env.DB);
+  const [draft] = await db.select()
+    .from(schema.messageDrafts)
+    .where(and(
+      eq(schema.messageDrafts.id, draftId),
+      eq(schema.messageDrafts.workspaceId, workspaceId)
+    ))
+    .limit(1);
+
+  return draft;
+}
+
+/**
+ * Approves or rejects a pending draft. An approved draft goes through the outbox like any
+ * other post. The approval request DM is updated to show the outcome in place of the buttons.
+ * Returns undefined when the draft does not exist or was already decided.
+ */
+export async function decideDraft(
+  env: Bindings,
+  workspace: Workspace,
+  draftId: string,
+  decision: { approved: boolean; userId: string }
+): Promise<MessageDraft | undefined> {
+  const db = drizzle(env.DB);
+  const now = new Date();
+
+  // Claim the draft first so a double click cannot post it twice
+  const [decided] = await db.update(schema.messageDrafts)
+    .set({
+      status: decision.approved ? "approved" : "rejected",
+      decidedBy: decision.userId,
+      decidedAt: now,
+      updatedAt: now
+    })
+    .where(and(
+      eq(schema.messageDrafts.id, draftId),
+      eq(schema.messageDrafts.workspaceId, workspace.id),
+      eq(schema.messageDrafts.status, "pending")
+    ))
+    .returning();
+
+  if (!decided) {
+    return undefined;
+  }
+
+  let draft = decided;
+
+  if (decision.approved) {
+    const { outboxMessage } = await enqueuePost(env, workspace, draft.payload, {
+      idempotencyKey: draft.idempotencyKey ?? undefined
+    });
+
+    [draft] = await db.update(schema.messageDrafts)
+      .set({ outboxMessageId: outboxMessage.id })
+      .where(eq(schema.messageDrafts.id, draft.id))
+      .returning();
+
+    // The cron trigger retries a post that could not be delivered now
+    await deliverOutboxMessage(env, workspace, outboxMessage.id)
+      .catch(error => recordDeliveryError(env, outboxMessage.id, error));
+  }
+
+  if (draft.requestChannelId && draft.requestTs) {
+    const slack = await getSlackClient(env, workspace, { simulate: draft.payload.dryRun });
+    await slack.chat.update({
+      channel: draft.requestChannelId,
+      ts: draft.requestTs,
+      text: `Post to <#${draft.channelId}> ${draft.status}`,
+      blocks: requestBlocks(draft, decidedFooter(draft))
+    });
+  }
+
+  return draft;
+}
@@ -0,0 +1,119 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, desc, eq, gte, inArray, lte, type SQL } from "drizzle-orm";
+import { ErrorCode, type WebAPIPlatformError } from "@slack/web-api";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import type { Bindings } from "./types";
+
+export type AuditEntry = typeof schema.auditLog.$inferSelect;
+
+export type NewAuditEntry = Omit<typeof schema.auditLog.$inferInsert, "id" | "arguments"> & {
+  // Redacted by recordAuditEntry
+  arguments: unknown;
+};
+
+// Argument names whose values are never stored
+const SECRET_FIELD_PATTERN = /(^|_)(token|secret|password)$/i;
+
+// Slack tokens pasted into free text, such as a message body
+const SLACK_TOKEN_PATTERN = /xox[abeprs]-[A-Za-z0-9-]+/g;
+
+const REDACTED = "[REDACTED]";
+
+// Message texts and blocks can be long; the start is enough to tell what was sent
+const MAX_STRING_LENGTH = 1000;
+
+/**
+ * Copies tool arguments for the audit log, replacing secrets such as `bot_token` and any Slack
+ * token found in a string, and shortening long strings.
+ */
+export function redactArguments(value: unknown, key?: string): unknown {
+  if (key !== undefined && SECRET_FIELD_PATTERN.test(key) && value !== undefined && value !== null) {
+    return REDACTED;
+  }
+  if (typeof value === "string") {
+    const redacted = value.replace(SLACK_TOKEN_PATTERN, REDACTED);
+    return redacted.length > MAX_STRING_LENGTH ? `${redacted.slice(0, MAX_STRING_LENGTH)}…` : redacted;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArguments(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redactArguments(item, name)]));
+  }
+  return value;
+}
+
+/**
+ * The audit fields for an error thrown by a tool or route: the status a REST caller would
+ * get, the message and, for failed Slack API calls, Slack's error code.
+ */
+export function describeFailure(error: unknown): Pick<NewAuditEntry, "status" | "error" | "slackError"> {
+  const slackError = (error as { code?: unknown } | null)?.code === ErrorCode.PlatformError
+    ? (error as WebAPIPlatformError).data.error
+    : null;
+
+  return {
+    status: error instanceof ServiceError ? error.status : 500,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    slackError
+  };
+}
+
+/**
+ * Stores an audit entry. Failures are logged rather than thrown, so auditing never breaks
+ * the call being audited.
+ */
+export async function recordAuditEntry(env: Bindings, entry: NewAuditEntry) {
+  try {
+    const db = drizzle(env.DB);
+    await db.insert(schema.auditLog)
+      .values({
+        ...entry,
+        arguments: redactArguments(entry.arguments)
+      });
+  } catch (error) {
+    console.error(`Recording the audit entry for ${entry.tool} failed:`, error);
+  }
+}
+
+export type AuditLogFilters = {
+  tool?: string;
+  // Entries for any of these workspaces; undefined means every workspace
+  workspaceIds?: string[];
+  since?: Date;
+  until?: Date;
+  outcome?: (typeof schema.AUDIT_OUTCOMES)[number];
+  limit: number;
+  offset: number;
+};
+
+/**
+ * Reads audit entries, newest first. One row more than `limit` is returned when more exist.
+ */
+export async function queryAuditLog(env: Bindings, filters: AuditLogFilters) {
+  const conditions: SQL[] = [];
+  if (filters.tool) {
+    conditions.push(eq(schema.auditLog.tool, filters.tool));
+  }
+  if (filters.workspaceIds) {
+    conditions.push(inArray(schema.auditLog.workspaceId, filters.workspaceIds));
+  }
+  if (filters.since) {
+    conditions.push(gte(schema.auditLog.createdAt, filters.since));
+  }
+  if (filters.until) {
+    conditions.push(lte(schema.auditLog.createdAt, filters.until));
+  }
+  if (filters.outcome) {
+    conditions.push(eq(schema.auditLog.outcome, filters.outcome));
+  }
+
+  const db = drizzle(env.DB);
+  return await db.select()
+    .from(schema.auditLog)
+    .where(and(...conditions))
+    .orderBy(desc(schema.auditLog.createdAt))
+    .limit(filters.limit + 1)
+    .offset(filters.offset);
+}
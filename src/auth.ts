@@ -0,0 +1,195 @@
+import { eq, and, isNull } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/d1";
+import { createMiddleware } from "hono/factory";
+import { encodeBase64Url } from "hono/utils/encode";
+import * as schema from "./db/schema";
+import type { Bindings } from "./types";
+
+export const API_KEY_SCOPES = ["read", "post", "manage"] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export type ApiKey = typeof schema.apiKeys.$inferSelect;
+
+// Scope each MCP tool requires. Tools missing from this map are denied. REST routes and MCP
+// resources call the same service operations, so they are checked against this map under the
+// operation's name (get_channel_history and get_thread_replies back resources only).
+export const TOOL_SCOPES: Record<string, ApiKeyScope> = {
+  configure_workspace: "manage",
+  deactivate_workspace: "manage",
+  reactivate_workspace: "manage",
+  remove_workspace: "manage",
+  set_workspace_mode: "manage",
+  list_workspaces: "read",
+  get_mentions: "read",
+  list_user_channels: "read",
+  sync_directory: "read",
+  post_message: "post",
+  send_direct_message: "post",
+  get_outbox_status: "read",
+  get_draft: "read",
+  update_message: "post",
+  delete_message: "post",
+  schedule_message: "post",
+  list_scheduled_messages: "read",
+  cancel_scheduled_message: "post",
+  get_posted_messages: "read",
+  search_posted_messages: "read",
+  export_posted_messages: "read",
+  import_posted_messages: "manage",
+  create_template: "post",
+  list_templates: "read",
+  delete_template: "post",
+  post_template: "post",
+  get_channel_history: "read",
+  get_thread_replies: "read",
+  read_channel_history: "read",
+  get_thread: "read",
+  channel_stats: "read",
+  add_reaction: "post",
+  remove_reaction: "post",
+  get_posting_policy: "read",
+  set_posting_policy: "manage",
+  configure_digest: "manage",
+  preview_digest: "read",
+  query_audit_log: "manage",
+  list_simulated_calls: "read"
+};
+
+const API_KEY_PREFIX = "smcp_";
+
+export function generateApiKey() {
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+  return `${API_KEY_PREFIX}${encodeBase64Url(secret.buffer)}`;
+}
+
+export async function hashApiKey(key: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Returns an error message when the key may not perform `scope` on `workspaceId`,
+ * or null when the call is allowed. Keys without a workspace list may access every workspace.
+ */
+export function checkAccess(apiKey: ApiKey, scope: ApiKeyScope, workspaceId?: string) {
+  if (!apiKey.scopes.includes(scope)) {
+    return `API key is missing the "${scope}" scope`;
+  }
+
+  if (workspaceId !== undefined && apiKey.workspaceIds !== null && !apiKey.workspaceIds.includes(workspaceId)) {
+    return "API key is not allowed to access this workspace";
+  }
+
+  return null;
+}
+
+export function checkToolAccess(apiKey: ApiKey, toolName: string, workspaceId?: string) {
+  const scope = TOOL_SCOPES[toolName];
+  if (!scope) {
+    return `Tool ${toolName} is not available to API keys`;
+  }
+
+  return checkAccess(apiKey, scope, workspaceId);
+}
+
+// Whether a key is limited to specific workspaces rather than the whole server
+export function isWorkspaceRestricted(apiKey: ApiKey) {
+  return apiKey.workspaceIds !== null;
+}
+
+/**
+ * Resolves the bearer token to an active API key and stores it in `c.var.apiKey`.
+ */
+export const apiKeyAuth = createMiddleware<{
+  Bindings: Bindings;
+  Variables: { apiKey: ApiKey };
+}>(async (c, next) => {
+  const authorization = c.req.header("Authorization");
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!match) {
+    return c.json({ error: "Missing bearer token" }, 401, {
+      "WWW-Authenticate": 'Bearer realm="slack-mcp-server"'
+    });
+  }
+
+  const db = drizzle(c.env.DB);
+  const [apiKey] = await db.select()
+    .from(schema.apiKeys)
+    .where(and(
+      eq(schema.apiKeys.keyHash, await hashApiKey(match[1])),
+      isNull(schema.apiKeys.revokedAt)
+    ))
+    .limit(1);
+
+  if (!apiKey) {
+    return c.json({ error: "Invalid or revoked API key" }, 401, {
+      "WWW-Authenticate": 'Bearer realm="slack-mcp-server", error="invalid_token"'
+    });
+  }
+
+  await db.update(schema.apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(schema.apiKeys.id, apiKey.id));
+
+  c.set("apiKey", apiKey);
+  await next();
+});
+
+type JsonRpcMessage = {
+  id?: string | number | null;
+  method?: string;
+  params?: {
+    name?: string;
+    arguments?: Record<string, unknown>;
+  };
+};
+
+/**
+ * Rejects MCP `tools/call` requests the key is not scoped for before they reach the MCP server.
+ * Tool handlers repeat the check so a bypass of this guard still cannot act out of scope.
+ */
+export const mcpScopeGuard = createMiddleware<{
+  Bindings: Bindings;
+  Variables: { apiKey: ApiKey };
+}>(async (c, next) => {
+  if (c.req.method !== "POST") {
+    return next();
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    // Let the transport report malformed JSON-RPC payloads
+    return next();
+  }
+
+  const messages = (Array.isArray(body) ? body : [body]) as JsonRpcMessage[];
+  for (const message of messages) {
+    if (message?.method !== "tools/call" || !message.params?.name) {
+      continue;
+    }
+
+    const workspaceId = message.params.arguments?.workspace_id;
+    const denied = checkToolAccess(
+      c.var.apiKey,
+      message.params.name,
+      typeof workspaceId === "string" ? workspaceId : undefined
+    );
+
+    if (denied) {
+      return c.json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32003,
+          message: `Forbidden: ${denied}`
+        },
+        id: message.id ?? null
+      }, 403);
+    }
+  }
+
+  await next();
+});
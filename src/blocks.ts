@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+/**
+ * Validation for Block Kit payloads passed to post_message and /api/post-message.
+ *
+ * The commonly used layout blocks are checked against Slack's documented limits; other
+ * block types only need a `type` and are left for Slack to validate.
+ */
+
+const plainText = z.object({
+  type: z.literal("plain_text"),
+  text: z.string().min(1),
+  emoji: z.boolean().optional()
+});
+
+const textObject = z.union([
+  plainText,
+  z.object({
+    type: z.literal("mrkdwn"),
+    text: z.string().min(1),
+    verbatim: z.boolean().optional()
+  })
+]);
+
+const blockId = z.string().max(255).optional();
+
+const sectionBlock = z.object({
+  type: z.literal("section"),
+  block_id: blockId,
+  text: textObject.refine(text => text.text.length <= 3000, "Section text is limited to 3000 characters").optional(),
+  fields: z.array(textObject.refine(text => text.text.length <= 2000, "Section fields are limited to 2000 characters")).max(10).optional(),
+  accessory: z.object({ type: z.string() }).passthrough().optional()
+}).passthrough().refine(block => block.text || block.fields, "Section blocks need text or fields");
+
+const headerBlock = z.object({
+  type: z.literal("header"),
+  block_id: blockId,
+  text: plainText.refine(text => text.text.length <= 150, "Header text is limited to 150 characters")
+}).passthrough();
+
+const dividerBlock = z.object({
+  type: z.literal("divider"),
+  block_id: blockId
+}).passthrough();
+
+const contextBlock = z.object({
+  type: z.literal("context"),
+  block_id: blockId,
+  elements: z.array(z.object({ type: z.string() }).passthrough()).min(1).max(10)
+}).passthrough();
+
+const imageBlock = z.object({
+  type: z.literal("image"),
+  block_id: blockId,
+  image_url: z.string().url().optional(),
+  slack_file: z.object({}).passthrough().optional(),
+  alt_text: z.string().min(1).max(2000)
+}).passthrough().refine(block => block.image_url || block.slack_file, "Image blocks need image_url or slack_file");
+
+const actionsBlock = z.object({
+  type: z.literal("actions"),
+  block_id: blockId,
+  elements: z.array(z.object({ type: z.string() }).passthrough()).min(1).max(25)
+}).passthrough();
+
+const KNOWN_BLOCK_TYPES = ["section", "header", "divider", "context", "image", "actions"];
+
+const otherBlock = z.object({
+  type: z.string().refine(type => !KNOWN_BLOCK_TYPES.includes(type))
+}).passthrough();
+
+export const blockSchema = z.union([
+  sectionBlock,
+  headerBlock,
+  dividerBlock,
+  contextBlock,
+  imageBlock,
+  actionsBlock,
+  otherBlock
+]);
+
+// Slack accepts at most 50 blocks per message
+export const blocksSchema = z.array(blockSchema).min(1).max(50);
+
+export type Block = z.infer<typeof blockSchema>;
+
+// Every string inside a value, such as the texts, labels and URLs anywhere in a list of blocks
+export function collectStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, strings));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach(item => collectStrings(item, strings));
+  }
+  return strings;
+}
@@ -0,0 +1,198 @@
+import { decodeBase64, encodeBase64 } from "hono/utils/encode";
+import type { Bindings } from "./types";
+
+/**
+ * Envelope encryption for Slack tokens stored in D1.
+ *
+ * Each token is encrypted with its own random AES-GCM data key. The data key is
+ * in turn encrypted ("wrapped") with a versioned master key taken from the
+ * TOKEN_ENCRYPTION_KEYS secret, so a database export never contains usable tokens.
+ */
+
+type Keyring = Pick<Bindings, "TOKEN_ENCRYPTION_KEYS" | "TOKEN_ENCRYPTION_KEY_VERSION">;
+
+export type EncryptedToken = {
+  ciphertext: string;
+  dataKey: string;
+  keyVersion: number;
+};
+
+const IV_LENGTH = 12;
+
+function parseKeyring(env: Keyring): Record<string, string> {
+  try {
+    return JSON.parse(env.TOKEN_ENCRYPTION_KEYS);
+  } catch {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not valid JSON");
+  }
+}
+
+async function importMasterKey(env: Keyring, version: number) {
+  const encoded = parseKeyring(env)[String(version)];
+  if (!encoded) {
+    throw new Error(`No token encryption key configured for version ${version}`);
+  }
+
+  const raw = decodeBase64(encoded);
+  if (raw.byteLength !== 32) {
+    throw new Error(`Token encryption key version ${version} must be 32 bytes`);
+  }
+
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+export function currentKeyVersion(env: Keyring) {
+  const version = Number.parseInt(env.TOKEN_ENCRYPTION_KEY_VERSION, 10);
+  if (!Number.isInteger(version)) {
+    throw new Error("TOKEN_ENCRYPTION_KEY_VERSION must be an integer");
+  }
+  return version;
+}
+
+// Output format: base64(iv || ciphertext)
+async function seal(key: CryptoKey, plaintext: Uint8Array) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: iv.buffer }, key, plaintext));
+
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_LENGTH);
+  return encodeBase64(sealed.buffer);
+}
+
+async function open(key: CryptoKey, sealed: string) {
+  const bytes = decodeBase64(sealed);
+  const iv = bytes.slice(0, IV_LENGTH);
+  const ciphertext = bytes.slice(IV_LENGTH);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: iv.buffer }, key, ciphertext));
+}
+
+export async function encryptToken(env: Keyring, token: string): Promise<EncryptedToken> {
+  const keyVersion = currentKeyVersion(env);
+  const masterKey = await importMasterKey(env, keyVersion);
+
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey("raw", rawDataKey, "AES-GCM", false, ["encrypt"]);
+
+  return {
+    ciphertext: await seal(dataKey, new TextEncoder().encode(token)),
+    dataKey: await seal(masterKey, rawDataKey),
+    keyVersion
+  };
+}
+
+export async function decryptToken(env: Keyring, encrypted: {
+  ciphertext: string;
+  dataKey: string | null;
+  keyVersion: number | null;
+}) {
+  // Rows written before encryption was introduced hold the raw token
+  if (encrypted.keyVersion === null || encrypted.dataKey === null) {
+    return encrypted.ciphertext;
+  }
+
+  const masterKey = await importMasterKey(env, encrypted.keyVersion);
+  const rawDataKey = await open(masterKey, encrypted.dataKey);
+  const dataKey = await crypto.subtle.importKey("raw", rawDataKey, "AES-GCM", false, ["decrypt"]);
+
+  return new TextDecoder().decode(await open(dataKey, encrypted.ciphertext));
+}
+
+/**
+ * Encrypted column values for a workspace bot token, ready to spread into an insert or update.
+ */
+export async function encryptBotToken(env: Keyring, botToken: string) {
+  const encrypted = await encryptToken(env, botToken);
+  return {
+    botToken: encrypted.ciphertext,
+    botTokenKey: encrypted.dataKey,
+    botTokenKeyVersion: encrypted.keyVersion
+  };
+}
+
+export function decryptBotToken(env: Keyring, workspace: {
+  botToken: string;
+  botTokenKey: string | null;
+  botTokenKeyVersion: number | null;
+}) {
+  return decryptToken(env, {
+    ciphertext: workspace.botToken,
+    dataKey: workspace.botTokenKey,
+    keyVersion: workspace.botTokenKeyVersion
+  });
+}
+
+async function encryptOptional(env: Keyring, value: string | null) {
+  return value === null
+    ? { ciphertext: null, dataKey: null, keyVersion: null }
+    : encryptToken(env, value);
+}
+
+function decryptOptional(env: Keyring, ciphertext: string | null, dataKey: string | null, keyVersion: number | null) {
+  return ciphertext === null
+    ? Promise.resolve(null)
+    : decryptToken(env, { ciphertext, dataKey, keyVersion });
+}
+
+export async function encryptRefreshToken(env: Keyring, refreshToken: string | null) {
+  const encrypted = await encryptOptional(env, refreshToken);
+  return {
+    refreshToken: encrypted.ciphertext,
+    refreshTokenKey: encrypted.dataKey,
+    refreshTokenKeyVersion: encrypted.keyVersion
+  };
+}
+
+export function decryptRefreshToken(env: Keyring, workspace: {
+  refreshToken: string | null;
+  refreshTokenKey: string | null;
+  refreshTokenKeyVersion: number | null;
+}) {
+  return decryptOptional(env, workspace.refreshToken, workspace.refreshTokenKey, workspace.refreshTokenKeyVersion);
+}
+
+export async function encryptSigningSecret(env: Keyring, signingSecret: string | null) {
+  const encrypted = await encryptOptional(env, signingSecret);
+  return {
+    signingSecret: encrypted.ciphertext,
+    signingSecretKey: encrypted.dataKey,
+    signingSecretKeyVersion: encrypted.keyVersion
+  };
+}
+
+export function decryptSigningSecret(env: Keyring, workspace: {
+  signingSecret: string | null;
+  signingSecretKey: string | null;
+  signingSecretKeyVersion: number | null;
+}) {
+  return decryptOptional(env, workspace.signingSecret, workspace.signingSecretKey, workspace.signingSecretKeyVersion);
+}
+
+type WorkspaceSecrets = Parameters<typeof decryptBotToken>[1] &
+  Parameters<typeof decryptRefreshToken>[1] &
+  Parameters<typeof decryptSigningSecret>[1];
+
+/**
+ * Column values re-encrypting every secret of a workspace that is not on the current master
+ * key, or null when all of them already are. Each secret is checked on its own, so a bot token
+ * rotated earlier does not leave an older refresh token or signing secret behind.
+ */
+export async function reencryptWorkspaceSecrets(env: Keyring, workspace: WorkspaceSecrets) {
+  const keyVersion = currentKeyVersion(env);
+  // Absent optional secrets have no key version and nothing to re-encrypt
+  const behind = (ciphertext: string | null, version: number | null) => ciphertext !== null && version !== keyVersion;
+
+  const update = {
+    ...(behind(workspace.botToken, workspace.botTokenKeyVersion)
+      ? await encryptBotToken(env, await decryptBotToken(env, workspace))
+      : {}),
+    ...(behind(workspace.refreshToken, workspace.refreshTokenKeyVersion)
+      ? await encryptRefreshToken(env, await decryptRefreshToken(env, workspace))
+      : {}),
+    ...(behind(workspace.signingSecret, workspace.signingSecretKeyVersion)
+      ? await encryptSigningSecret(env, await decryptSigningSecret(env, workspace))
+      : {})
+  };
+
+  return Object.keys(update).length > 0 ? update : null;
+}
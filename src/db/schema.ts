@@ -1,6 +1,12 @@
 import { sql } from "drizzle-orm";
-import { integer, sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import { integer, sqliteTable, text, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
+import type { PostMessageInput } from "../messages";
+import type { ChannelStats } from "../stats";
+import type { TemplateVariable } from "../templates";
+
+// Sandbox workspaces read from Slack but only simulate posts, edits, deletions and reactions
+export const WORKSPACE_MODES = ["live", "sandbox"] as const;
 
 export const workspaces = sqliteTable("workspaces", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -8,12 +14,29 @@ export const workspaces = sqliteTable("workspaces", {
   teamId: text("team_id").notNull().unique(),
   workspaceUrl: text("workspace_url").notNull(),
   botToken: text("bot_token").notNull(),
+  botTokenKey: text("bot_token_key"),
+  botTokenKeyVersion: integer("bot_token_key_version"),
+  // Set when the Slack app uses token rotation (OAuth installs only)
+  refreshToken: text("refresh_token"),
+  refreshTokenKey: text("refresh_token_key"),
+  refreshTokenKeyVersion: integer("refresh_token_key_version"),
+  tokenExpiresAt: integer("token_expires_at", { mode: "timestamp" }),
+  // Events API signing secret; falls back to SLACK_SIGNING_SECRET when unset
+  signingSecret: text("signing_secret"),
+  signingSecretKey: text("signing_secret_key"),
+  signingSecretKeyVersion: integer("signing_secret_key_version"),
+  // Last time the channels and users directory cache was refreshed
+  directorySyncedAt: integer("directory_synced_at", { mode: "timestamp" }),
+  // Last periodic auth.test check of the bot token, and the Slack error it returned (null when valid)
+  tokenCheckedAt: integer("token_checked_at", { mode: "timestamp" }),
+  tokenCheckError: text("token_check_error"),
   userId: text("user_id").notNull(),
   botId: text("bot_id").notNull(),
   description: text("description"),
-  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(CURRENT_TIMESTAMP)`),
-  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
   isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  mode: text("mode", { enum: WORKSPACE_MODES }).notNull().default("live"),
 }, (t) => [
   index("workspaces_team_id_idx").on(t.teamId),
   index("workspaces_user_id_idx").on(t.userId),
@@ -26,23 +49,454 @@ export const postedMessages = sqliteTable("posted_messages", {
   channelName: text("channel_name").notNull(),
   messageText: text("message_text").notNull(),
   messageTs: text("message_ts").notNull(),
+  // Parent message timestamp when the message is a thread reply
+  threadTs: text("thread_ts"),
+  blocks: text("blocks", { mode: "json" }).$type<unknown[]>(),
   slackMessageId: text("slack_message_id"),
+  // Set when the message was rendered from a template by post_template
+  templateId: text("template_id").references(() => messageTemplates.id, { onDelete: "set null" }),
   userId: text("user_id").notNull(),
-  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  // Set when the post was simulated by a sandbox workspace or a dry run and never reached Slack
+  isSimulated: integer("is_simulated", { mode: "boolean" }).notNull().default(false),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  editedAt: integer("edited_at", { mode: "timestamp" }),
+  // Deleted messages are kept for history and marked instead of removed
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
 }, (t) => [
   index("posted_messages_workspace_id_idx").on(t.workspaceId),
   index("posted_messages_channel_id_idx").on(t.channelId),
+  index("posted_messages_thread_ts_idx").on(t.channelId, t.threadTs),
   index("posted_messages_user_id_idx").on(t.userId),
   index("posted_messages_created_at_idx").on(t.createdAt),
+  index("posted_messages_template_id_idx").on(t.templateId),
+  // A Slack message is identified by its channel and timestamp; imports rely on this to skip duplicates
+  uniqueIndex("posted_messages_workspace_channel_ts_idx").on(t.workspaceId, t.channelId, t.messageTs),
+]);
+
+// Text a posted message had before each edit or deletion
+export const messageRevisions = sqliteTable("message_revisions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  postedMessageId: text("posted_message_id").notNull().references(() => postedMessages.id, { onDelete: "cascade" }),
+  messageText: text("message_text").notNull(),
+  action: text("action", { enum: ["edit", "delete"] }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  index("message_revisions_posted_message_id_idx").on(t.postedMessageId),
+]);
+
+export const TEMPLATE_VARIABLE_TYPES = ["string", "number", "boolean", "url", "user", "channel"] as const;
+
+// Reusable message bodies with {{variable}} placeholders, filled in by post_template
+export const messageTemplates = sqliteTable("message_templates", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Message text, and the notification fallback when blocks are given
+  text: text("text").notNull(),
+  blocks: text("blocks", { mode: "json" }).$type<unknown[]>(),
+  markdown: integer("markdown", { mode: "boolean" }).notNull().default(false),
+  variables: text("variables", { mode: "json" }).$type<TemplateVariable[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  // Deleted templates are kept so posted_messages.template_id still shows which template was used
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
+}, (t) => [
+  index("message_templates_workspace_id_idx").on(t.workspaceId),
+  uniqueIndex("message_templates_workspace_name_idx").on(t.workspaceId, t.name).where(sql`deleted_at IS NULL`),
+]);
+
+export const SCHEDULED_MESSAGE_STATUSES = ["pending", "sending", "sent", "failed", "cancelled"] as const;
+
+export const scheduledMessages = sqliteTable("scheduled_messages", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  messageText: text("message_text").notNull(),
+  postAt: integer("post_at", { mode: "timestamp" }).notNull(),
+  status: text("status", { enum: SCHEDULED_MESSAGE_STATUSES }).notNull().default("pending"),
+  postedMessageId: text("posted_message_id").references(() => postedMessages.id, { onDelete: "set null" }),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  index("scheduled_messages_workspace_id_idx").on(t.workspaceId),
+  index("scheduled_messages_status_post_at_idx").on(t.status, t.postAt),
+]);
+
+export const OUTBOX_STATUSES = ["queued", "sending", "sent", "dead_letter"] as const;
+
+// Every post goes through the outbox so rate-limited and transient failures are retried
+export const outboxMessages = sqliteTable("outbox_messages", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  payload: text("payload", { mode: "json" }).$type<PostMessageInput>().notNull(),
+  status: text("status", { enum: OUTBOX_STATUSES }).notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }).notNull(),
+  lastError: text("last_error"),
+  postedMessageId: text("posted_message_id").references(() => postedMessages.id, { onDelete: "set null" }),
+  // Set when the post was handed over by the scheduled message dispatcher
+  scheduledMessageId: text("scheduled_message_id").references(() => scheduledMessages.id, { onDelete: "set null" }),
+  // Caller-supplied key that makes retried posts return this row instead of posting again
+  idempotencyKey: text("idempotency_key"),
+  // SHA-256 of the payload, to reject a reused key with a different post
+  payloadHash: text("payload_hash"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+}, (t) => [
+  index("outbox_messages_workspace_id_idx").on(t.workspaceId),
+  index("outbox_messages_status_next_attempt_at_idx").on(t.status, t.nextAttemptAt),
+  uniqueIndex("outbox_messages_workspace_idempotency_key_idx").on(t.workspaceId, t.idempotencyKey),
+]);
+
+// Backoff state per workspace and Slack rate-limit tier, shared by every post in that tier
+export const slackRateLimits = sqliteTable("slack_rate_limits", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  tier: text("tier").notNull(),
+  // Consecutive retryable failures; reset by the next successful call
+  failures: integer("failures").notNull().default(0),
+  retryAt: integer("retry_at", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  uniqueIndex("slack_rate_limits_workspace_tier_idx").on(t.workspaceId, t.tier),
+]);
+
+// Posting rules per workspace, checked before anything is posted or scheduled
+export const postingPolicies = sqliteTable("posting_policies", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().unique().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Channel IDs. An empty allowlist allows every channel that is not denied
+  allowedChannels: text("allowed_channels", { mode: "json" }).$type<string[]>().notNull(),
+  deniedChannels: text("denied_channels", { mode: "json" }).$type<string[]>().notNull(),
+  // Posts to these channels are held as drafts until the workspace user approves them
+  approvalChannels: text("approval_channels", { mode: "json" }).$type<string[]>().notNull(),
+  maxMessageLength: integer("max_message_length"),
+  // Phrases matched as plain text, ignoring case, against the text and blocks
+  bannedPatterns: text("banned_patterns", { mode: "json" }).$type<string[]>().notNull(),
+  allowBroadcasts: integer("allow_broadcasts", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+export const DRAFT_STATUSES = ["pending", "approved", "rejected"] as const;
+
+// Posts held for approval, sent to the workspace user as a DM with Approve/Reject buttons
+export const messageDrafts = sqliteTable("message_drafts", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  payload: text("payload", { mode: "json" }).$type<PostMessageInput>().notNull(),
+  status: text("status", { enum: DRAFT_STATUSES }).notNull().default("pending"),
+  // Passed on to the outbox when the draft is approved
+  idempotencyKey: text("idempotency_key"),
+  // SHA-256 of the payload, to reject a reused key with a different post
+  payloadHash: text("payload_hash"),
+  // The approval request DM, updated once the draft is decided
+  requestChannelId: text("request_channel_id"),
+  requestTs: text("request_ts"),
+  decidedBy: text("decided_by"),
+  decidedAt: integer("decided_at", { mode: "timestamp" }),
+  outboxMessageId: text("outbox_message_id").references(() => outboxMessages.id, { onDelete: "set null" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  index("message_drafts_workspace_id_idx").on(t.workspaceId),
+  uniqueIndex("message_drafts_workspace_idempotency_key_idx").on(t.workspaceId, t.idempotencyKey),
+]);
+
+export const mentions = sqliteTable("mentions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  messageTs: text("message_ts").notNull(),
+  threadTs: text("thread_ts"),
+  userId: text("user_id"),
+  messageText: text("message_text").notNull(),
+  eventType: text("event_type").notNull(),
+  messageAt: integer("message_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  uniqueIndex("mentions_workspace_message_idx").on(t.workspaceId, t.channelId, t.messageTs),
+  index("mentions_workspace_message_at_idx").on(t.workspaceId, t.messageAt),
+]);
+
+// Cached Slack channel directory, refreshed by sync_directory and an hourly cron
+export const channels = sqliteTable("channels", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  name: text("name").notNull(),
+  isPrivate: integer("is_private", { mode: "boolean" }).notNull().default(false),
+  isMember: integer("is_member", { mode: "boolean" }).notNull().default(false),
+  isArchived: integer("is_archived", { mode: "boolean" }).notNull().default(false),
+  topic: text("topic"),
+  memberCount: integer("member_count"),
+  syncedAt: integer("synced_at", { mode: "timestamp" }).notNull(),
+}, (t) => [
+  uniqueIndex("channels_workspace_channel_idx").on(t.workspaceId, t.channelId),
+  index("channels_workspace_name_idx").on(t.workspaceId, t.name),
+]);
+
+// Cached Slack user directory, refreshed alongside channels
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  // Slack handle (users.list `name`)
+  name: text("name").notNull(),
+  realName: text("real_name"),
+  displayName: text("display_name"),
+  isBot: integer("is_bot", { mode: "boolean" }).notNull().default(false),
+  isDeleted: integer("is_deleted", { mode: "boolean" }).notNull().default(false),
+  syncedAt: integer("synced_at", { mode: "timestamp" }).notNull(),
+}, (t) => [
+  uniqueIndex("users_workspace_user_idx").on(t.workspaceId, t.userId),
+  index("users_workspace_name_idx").on(t.workspaceId, t.name),
+]);
+
+export const apiKeys = sqliteTable("api_keys", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  keyPrefix: text("key_prefix").notNull(),
+  // NULL grants access to every workspace
+  workspaceIds: text("workspace_ids", { mode: "json" }).$type<string[]>(),
+  scopes: text("scopes", { mode: "json" }).$type<string[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+}, (t) => [
+  index("api_keys_key_hash_idx").on(t.keyHash),
+]);
+
+export const AUDIT_SOURCES = ["mcp", "rest"] as const;
+export const AUDIT_OUTCOMES = ["success", "error"] as const;
+
+// One row per MCP tool call and REST request. Rows outlive their workspace, so workspace_id is not a foreign key
+export const auditLog = sqliteTable("audit_log", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  apiKeyId: text("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
+  source: text("source", { enum: AUDIT_SOURCES }).notNull(),
+  // MCP tool name; REST requests use the tool they mirror, or "METHOD /path" when none was reached
+  tool: text("tool").notNull(),
+  workspaceId: text("workspace_id"),
+  // Arguments with secrets redacted and long strings shortened
+  arguments: text("arguments", { mode: "json" }).$type<unknown>(),
+  outcome: text("outcome", { enum: AUDIT_OUTCOMES }).notNull(),
+  // HTTP status for REST requests and failed tool calls
+  status: integer("status"),
+  error: text("error"),
+  slackError: text("slack_error"),
+  latencyMs: integer("latency_ms").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  index("audit_log_created_at_idx").on(t.createdAt),
+  index("audit_log_tool_created_at_idx").on(t.tool, t.createdAt),
+  index("audit_log_workspace_created_at_idx").on(t.workspaceId, t.createdAt),
+]);
+
+// Slack calls that a sandbox workspace or a dry run simulated instead of sending
+export const simulatedCalls = sqliteTable("simulated_calls", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Slack API method, such as chat.postMessage
+  method: text("method").notNull(),
+  arguments: text("arguments", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+  // The fake response returned in place of Slack's
+  response: text("response", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (t) => [
+  index("simulated_calls_workspace_created_at_idx").on(t.workspaceId, t.createdAt),
+]);
+
+// Computed channel_stats results, one row per channel and time window
+export const channelStats = sqliteTable("channel_stats", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  channelId: text("channel_id").notNull(),
+  windowStart: integer("window_start", { mode: "timestamp" }).notNull(),
+  windowEnd: integer("window_end", { mode: "timestamp" }).notNull(),
+  stats: text("stats", { mode: "json" }).$type<ChannelStats>().notNull(),
+  computedAt: integer("computed_at", { mode: "timestamp" }).notNull(),
+}, (t) => [
+  uniqueIndex("channel_stats_workspace_channel_window_idx").on(t.workspaceId, t.channelId, t.windowStart, t.windowEnd),
+]);
+
+export const DIGEST_WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+// When and what the daily mention digest DMs to the workspace user
+export const digestSettings = sqliteTable("digest_settings", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().unique().references(() => workspaces.id, { onDelete: "cascade" }),
+  isEnabled: integer("is_enabled", { mode: "boolean" }).notNull().default(true),
+  // Local time of day as HH:MM, in timezone
+  sendAt: text("send_at").notNull(),
+  // IANA time zone name, such as Europe/Berlin
+  timezone: text("timezone").notNull(),
+  weekdays: text("weekdays", { mode: "json" }).$type<(typeof DIGEST_WEEKDAYS)[number][]>().notNull(),
+  // Channel IDs. Empty means every channel the bot is a member of
+  channelIds: text("channel_ids", { mode: "json" }).$type<string[]>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+export const DIGEST_STATUSES = ["sending", "sent", "empty", "failed"] as const;
+
+// One row per digest day, claimed before anything is sent so a digest never goes out twice
+export const digests = sqliteTable("digests", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: text("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  // Local date of the digest as YYYY-MM-DD
+  digestDate: text("digest_date").notNull(),
+  status: text("status", { enum: DIGEST_STATUSES }).notNull().default("sending"),
+  // Mentions posted in [period_start, period_end) are included
+  periodStart: integer("period_start", { mode: "timestamp" }).notNull(),
+  periodEnd: integer("period_end", { mode: "timestamp" }).notNull(),
+  mentionCount: integer("mention_count").notNull().default(0),
+  // The DM, once sent
+  channelId: text("channel_id"),
+  messageTs: text("message_ts"),
+  error: text("error"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+}, (t) => [
+  uniqueIndex("digests_workspace_date_idx").on(t.workspaceId, t.digestDate),
 ]);
 
 export const workspacesRelations = relations(workspaces, ({ many }) => ({
   postedMessages: many(postedMessages),
+  scheduledMessages: many(scheduledMessages),
+  outboxMessages: many(outboxMessages),
+  mentions: many(mentions),
+  channels: many(channels),
+  users: many(users),
+  messageTemplates: many(messageTemplates),
+  messageDrafts: many(messageDrafts),
+  digests: many(digests),
+  simulatedCalls: many(simulatedCalls),
+  channelStats: many(channelStats),
+}));
+
+export const postingPoliciesRelations = relations(postingPolicies, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [postingPolicies.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const digestSettingsRelations = relations(digestSettings, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [digestSettings.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const digestsRelations = relations(digests, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [digests.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const simulatedCallsRelations = relations(simulatedCalls, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [simulatedCalls.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const channelStatsRelations = relations(channelStats, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [channelStats.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const messageDraftsRelations = relations(messageDrafts, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [messageDrafts.workspaceId],
+    references: [workspaces.id],
+  }),
+  outboxMessage: one(outboxMessages, {
+    fields: [messageDrafts.outboxMessageId],
+    references: [outboxMessages.id],
+  }),
 }));
 
-export const postedMessagesRelations = relations(postedMessages, ({ one }) => ({
+export const postedMessagesRelations = relations(postedMessages, ({ one, many }) => ({
   workspace: one(workspaces, {
     fields: [postedMessages.workspaceId],
     references: [workspaces.id],
   }),
+  revisions: many(messageRevisions),
+  template: one(messageTemplates, {
+    fields: [postedMessages.templateId],
+    references: [messageTemplates.id],
+  }),
+}));
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one, many }) => ({
+  workspace: one(workspaces, {
+    fields: [messageTemplates.workspaceId],
+    references: [workspaces.id],
+  }),
+  postedMessages: many(postedMessages),
+}));
+
+export const messageRevisionsRelations = relations(messageRevisions, ({ one }) => ({
+  postedMessage: one(postedMessages, {
+    fields: [messageRevisions.postedMessageId],
+    references: [postedMessages.id],
+  }),
+}));
+
+export const mentionsRelations = relations(mentions, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [mentions.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const scheduledMessagesRelations = relations(scheduledMessages, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [scheduledMessages.workspaceId],
+    references: [workspaces.id],
+  }),
+  postedMessage: one(postedMessages, {
+    fields: [scheduledMessages.postedMessageId],
+    references: [postedMessages.id],
+  }),
+}));
+
+export const outboxMessagesRelations = relations(outboxMessages, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [outboxMessages.workspaceId],
+    references: [workspaces.id],
+  }),
+  postedMessage: one(postedMessages, {
+    fields: [outboxMessages.postedMessageId],
+    references: [postedMessages.id],
+  }),
+  scheduledMessage: one(scheduledMessages, {
+    fields: [outboxMessages.scheduledMessageId],
+    references: [scheduledMessages.id],
+  }),
+}));
+
+export const channelsRelations = relations(channels, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [channels.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const usersRelations = relations(users, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [users.workspaceId],
+    references: [workspaces.id],
+  }),
 }));
\ No newline at end of file
@@ -0,0 +1,417 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, desc, eq } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { buildPermalink } from "./messages";
+import { searchSlackMentions, slackTsToDate, type MentionMatch } from "./mentions";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+/**
+ * The daily mention digest: once a day, at the configured local time, the mentions get_mentions
+ * would find since the previous digest are grouped by channel and thread and sent to the
+ * workspace user as a DM. Each digest day is claimed in the digests table before anything is
+ * sent, so overlapping cron runs cannot send the same digest twice.
+ */
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+export type DigestSettings = typeof schema.digestSettings.$inferSelect;
+export type Digest = typeof schema.digests.$inferSelect;
+type Weekday = (typeof schema.DIGEST_WEEKDAYS)[number];
+
+// Fields configure_digest may change; channels are already resolved to IDs
+export type DigestSettingsUpdate = Partial<Pick<DigestSettings, "isEnabled" | "sendAt" | "timezone" | "weekdays" | "channelIds">>;
+
+// Used for fields a new configuration leaves out, and by preview_digest before anything is configured
+export const DEFAULT_DIGEST_SETTINGS = {
+  isEnabled: true,
+  sendAt: "09:00",
+  timezone: "UTC",
+  weekdays: [...schema.DIGEST_WEEKDAYS],
+  channelIds: []
+} satisfies Required<DigestSettingsUpdate>;
+
+// How far back the first digest, or one after a long pause, looks for mentions
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const MAX_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Mentions listed in one digest, and searchSlackMentions pages read per channel to find them
+const MAX_DIGEST_MENTIONS = 50;
+const MAX_SEARCH_PAGES = 3;
+
+// Mention text shown per line of the digest
+const MAX_EXCERPT_LENGTH = 200;
+
+// Digests sent per cron run; workspaces left over are picked up on the next run
+const DIGESTS_PER_RUN = 10;
+
+// Slack calls the digests of one cron run may make, leaving the rest of the Workers subrequest
+// limit to the scheduled messages and outbox handled in the same run. A digest is only claimed
+// while enough is left for a page of searching plus the DM.
+const SLACK_CALLS_PER_RUN = 400;
+const MIN_CALLS_PER_DIGEST = 50;
+// Opening the DM and posting the digest
+const DELIVERY_CALLS = 2;
+// Slack calls preview_digest may make, within the subrequest limit of the request it answers
+const PREVIEW_CALLS = 40;
+
+export async function getDigestSettings(env: Bindings, workspaceId: string) {
+  const db = drizzle(env.DB);
+  const [settings] = await db.select()
+    .from(schema.digestSettings)
+    .where(eq(schema.digestSettings.workspaceId, workspaceId))
+    .limit(1);
+
+  return settings ?? null;
+}
+
+/**
+ * Creates or updates the workspace's digest settings. Fields left undefined keep their
+ * current value, or the default for a new configuration.
+ */
+export async function saveDigestSettings(env: Bindings, workspaceId: string, update: DigestSettingsUpdate) {
+  const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)) as DigestSettingsUpdate;
+
+  const db = drizzle(env.DB);
+  const [settings] = await db.insert(schema.digestSettings)
+    .values({
+      workspaceId,
+      ...DEFAULT_DIGEST_SETTINGS,
+      ...changes
+    })
+    .onConflictDoUpdate({
+      target: schema.digestSettings.workspaceId,
+      set: {
+        ...changes,
+        updatedAt: new Date()
+      }
+    })
+    .returning();
+
+  return settings;
+}
+
+// The most recent digest, whether or not anything was sent
+export async function getLastDigest(env: Bindings, workspaceId: string) {
+  const db = drizzle(env.DB);
+  const [digest] = await db.select()
+    .from(schema.digests)
+    .where(eq(schema.digests.workspaceId, workspaceId))
+    .orderBy(desc(schema.digests.periodEnd))
+    .limit(1);
+
+  return digest ?? null;
+}
+
+// Local date (YYYY-MM-DD), time (HH:MM) and weekday of `date` in an IANA time zone
+function localTime(date: Date, timezone: string) {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23"
+  }).formatToParts(date).map(part => [part.type, part.value]));
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    weekday: parts.weekday.toLowerCase() as Weekday
+  };
+}
+
+// A digest covers everything since the previous one ended, within the lookback limits
+function periodStart(lastDigest: Digest | null, now: Date) {
+  const earliest = now.getTime() - MAX_LOOKBACK_MS;
+  const start = lastDigest ? lastDigest.periodEnd.getTime() : now.getTime() - DEFAULT_LOOKBACK_MS;
+  return new Date(Math.max(start, earliest));
+}
+
+/**
+ * Finds the mentions posted in [since, until) across the digest's channels, or every channel
+ * the bot is a member of, the same way get_mentions does, making at most `maxCalls` Slack calls.
+ * `truncated` is set when more were found than one digest lists, or the calls ran out first;
+ * `outOfCalls` only in the second case.
+ */
+async function gatherMentions(env: Bindings, workspace: Workspace, channelIds: string[], since: Date, until: Date, maxCalls: number) {
+  const slack = await getSlackClient(env, workspace);
+  const mentions: MentionMatch[] = [];
+  let truncated = false;
+  let outOfCalls = false;
+  let calls = 0;
+
+  for (const channelId of channelIds.length > 0 ? channelIds : [undefined]) {
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      if (mentions.length >= MAX_DIGEST_MENTIONS) {
+        truncated = true;
+        break;
+      }
+      if (calls >= maxCalls) {
+        truncated = true;
+        outOfCalls = true;
+        break;
+      }
+
+      const result = await searchSlackMentions(slack, workspace, {
+        channelId,
+        oldest: Math.floor(since.getTime() / 1000),
+        limit: MAX_DIGEST_MENTIONS - mentions.length,
+        cursor,
+        maxCalls: maxCalls - calls
+      });
+      pages++;
+      calls += result.calls;
+
+      // Mentions posted while the search ran belong to the next digest
+      mentions.push(...result.mentions.filter(mention => slackTsToDate(mention.ts) < until));
+      cursor = result.nextCursor ?? undefined;
+
+      if (cursor && pages >= MAX_SEARCH_PAGES) {
+        truncated = true;
+      }
+    } while (cursor && pages < MAX_SEARCH_PAGES);
+  }
+
+  return { mentions: mentions.slice(0, MAX_DIGEST_MENTIONS), truncated, outOfCalls, calls };
+}
+
+// Renders as a time in the reader's own time zone, with a UTC fallback
+function slackTime(ts: string, format: string) {
+  const date = slackTsToDate(ts);
+  return `<!date^${Math.floor(date.getTime() / 1000)}^${format}|${date.toISOString().slice(0, 16).replace("T", " ")} UTC>`;
+}
+
+// One line of mention text. @channel, @here and user group mentions are written out so the
+// digest itself does not notify anyone
+function excerpt(text: string) {
+  let line = text
+    .replace(/<!(channel|here|everyone)(?:\|[^>]*)?>/gi, "@$1")
+    .replace(/<!subteam\^[A-Z0-9]+(?:\|([^>]*))?>/g, (_token, label?: string) => label || "@group")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (line.length > MAX_EXCERPT_LENGTH) {
+    line = line.slice(0, MAX_EXCERPT_LENGTH);
+    // Drop a link or mention token cut in half
+    const open = line.lastIndexOf("<");
+    if (open > line.lastIndexOf(">")) {
+      line = line.slice(0, open);
+    }
+    line = `${line.trimEnd()}…`;
+  }
+
+  return line || "(no text)";
+}
+
+function mentionLine(workspace: Workspace, mention: MentionMatch) {
+  const link = buildPermalink(workspace.workspaceUrl, mention.channelId, mention.ts, mention.threadTs);
+  const author = mention.user ? `<@${mention.user}>` : "Someone";
+  return `${slackTime(mention.ts, "{time}")} ${author}: ${excerpt(mention.text)} <${link}|Open>`;
+}
+
+export type DigestContent = {
+  mentionCount: number;
+  channelCount: number;
+  truncated: boolean;
+  // Slack mrkdwn, exactly as it is sent
+  text: string;
+};
+
+/**
+ * Formats mentions as a digest: channels with the most mentions first, and within a channel
+ * one entry per thread in the order the threads started.
+ */
+export function formatDigest(workspace: Workspace, mentions: MentionMatch[], since: Date, truncated: boolean): DigestContent {
+  const byChannel = new Map<string, Map<string, MentionMatch[]>>();
+  for (const mention of mentions) {
+    const threads = byChannel.get(mention.channelId) ?? new Map<string, MentionMatch[]>();
+    const threadTs = mention.threadTs ?? mention.ts;
+    threads.set(threadTs, [...threads.get(threadTs) ?? [], mention]);
+    byChannel.set(mention.channelId, threads);
+  }
+
+  const sinceTs = `${Math.floor(since.getTime() / 1000)}.000000`;
+  const header = mentions.length === 0
+    ? `*Mention digest*: no mentions since ${slackTime(sinceTs, "{date_short_pretty} at {time}")}`
+    : `*Mention digest*: ${mentions.length} mention(s) in ${byChannel.size} channel(s) since ${slackTime(sinceTs, "{date_short_pretty} at {time}")}`;
+
+  const count = (threads: Map<string, MentionMatch[]>) => [...threads.values()].reduce((total, thread) => total + thread.length, 0);
+
+  const sections = [...byChannel.entries()]
+    .sort(([, a], [, b]) => count(b) - count(a))
+    .map(([channelId, threads]) => {
+      const entries = [...threads.entries()]
+        .sort(([a], [b]) => Number.parseFloat(a) - Number.parseFloat(b))
+        .map(([threadTs, thread]) => {
+          const sorted = [...thread].sort((a, b) => Number.parseFloat(a.ts) - Number.parseFloat(b.ts));
+          if (sorted.length === 1) {
+            return `• ${mentionLine(workspace, sorted[0])}`;
+          }
+          const threadLink = buildPermalink(workspace.workspaceUrl, channelId, threadTs);
+          return [
+            `• <${threadLink}|Thread> with ${sorted.length} mentions:`,
+            ...sorted.map(mention => `    ◦ ${mentionLine(workspace, mention)}`)
+          ].join("\n");
+        });
+
+      return [`*<#${channelId}>*`, ...entries].join("\n");
+    });
+
+  const footer = truncated
+    ? [`_Only the first ${mentions.length} mentions are listed. Use get_mentions to see the rest._`]
+    : [];
+
+  return {
+    mentionCount: mentions.length,
+    channelCount: byChannel.size,
+    truncated,
+    text: [header, ...sections, ...footer].join("\n\n")
+  };
+}
+
+/**
+ * Builds the digest that would be sent now, without sending or recording it. The preview has a
+ * smaller call budget than a cron run, so `outOfCalls` tells when it stopped before searching
+ * every channel.
+ */
+export async function previewDigest(env: Bindings, workspace: Workspace, settings: DigestSettings | null) {
+  const now = new Date();
+  const since = periodStart(await getLastDigest(env, workspace.id), now);
+  const channelIds = settings?.channelIds ?? DEFAULT_DIGEST_SETTINGS.channelIds;
+  const { mentions, truncated, outOfCalls } = await gatherMentions(env, workspace, channelIds, since, now, PREVIEW_CALLS);
+
+  return {
+    periodStart: since,
+    periodEnd: now,
+    outOfCalls,
+    content: formatDigest(workspace, mentions, since, truncated)
+  };
+}
+
+// Returns the outcome and the Slack calls made, counted in full when the digest fails partway
+async function sendDigest(env: Bindings, workspace: Workspace, settings: DigestSettings, digest: Digest, maxCalls: number) {
+  const db = drizzle(env.DB);
+  let calls = maxCalls;
+
+  try {
+    const gathered = await gatherMentions(env, workspace, settings.channelIds, digest.periodStart, digest.periodEnd, maxCalls - DELIVERY_CALLS);
+    const { mentions, truncated } = gathered;
+    calls = gathered.calls + DELIVERY_CALLS;
+
+    // Nothing to report; the row still moves the next digest's period forward
+    if (mentions.length === 0) {
+      await db.update(schema.digests)
+        .set({ status: "empty" })
+        .where(eq(schema.digests.id, digest.id));
+      return { status: "empty", calls } as const;
+    }
+
+    const content = formatDigest(workspace, mentions, digest.periodStart, truncated);
+
+    const slack = await getSlackClient(env, workspace);
+    const dm = await slack.conversations.open({ users: workspace.userId });
+    if (!dm.ok || !dm.channel?.id) {
+      throw new Error(dm.error || "could not open a DM");
+    }
+
+    const sent = await slack.chat.postMessage({
+      channel: dm.channel.id,
+      text: content.text,
+      unfurl_links: false,
+      unfurl_media: false
+    });
+    if (!sent.ok || !sent.ts) {
+      throw new Error(sent.error || "could not post the digest");
+    }
+
+    await db.update(schema.digests)
+      .set({
+        status: "sent",
+        mentionCount: content.mentionCount,
+        channelId: dm.channel.id,
+        messageTs: sent.ts,
+        sentAt: new Date()
+      })
+      .where(eq(schema.digests.id, digest.id));
+    return { status: "sent", calls } as const;
+
+  } catch (error) {
+    await db.update(schema.digests)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+      .where(eq(schema.digests.id, digest.id));
+    return { status: "failed", calls } as const;
+  }
+}
+
+/**
+ * Sends today's digest for every enabled, active workspace whose local send time has passed
+ * and that has not had one today. Called from the Worker's scheduled() cron handler. A digest
+ * that fails is recorded as failed and not retried, since part of it may have been sent. Once
+ * the run's Slack calls are nearly spent, no further days are claimed until the next run.
+ */
+export async function sendDueDigests(env: Bindings) {
+  const db = drizzle(env.DB);
+  const now = new Date();
+
+  const configured = await db.select({
+    settings: schema.digestSettings,
+    workspace: schema.workspaces
+  })
+    .from(schema.digestSettings)
+    .innerJoin(schema.workspaces, eq(schema.digestSettings.workspaceId, schema.workspaces.id))
+    .where(and(
+      eq(schema.digestSettings.isEnabled, true),
+      eq(schema.workspaces.isActive, true)
+    ));
+
+  const results = { sent: 0, empty: 0, failed: 0 };
+  let attempted = 0;
+  let callsLeft = SLACK_CALLS_PER_RUN;
+
+  for (const { settings, workspace } of configured) {
+    if (attempted >= DIGESTS_PER_RUN || callsLeft < MIN_CALLS_PER_DIGEST) {
+      break;
+    }
+
+    const local = localTime(now, settings.timezone);
+    if (!settings.weekdays.includes(local.weekday) || local.time < settings.sendAt) {
+      continue;
+    }
+
+    // Also skips a day that already passed here when the time zone was moved west
+    const lastDigest = await getLastDigest(env, workspace.id);
+    if (lastDigest && lastDigest.digestDate >= local.date) {
+      continue;
+    }
+
+    // The unique (workspace, date) index lets only one cron run claim the day
+    const [claimed] = await db.insert(schema.digests)
+      .values({
+        workspaceId: workspace.id,
+        digestDate: local.date,
+        periodStart: periodStart(lastDigest, now),
+        periodEnd: now
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!claimed) {
+      continue;
+    }
+
+    attempted++;
+    const { status, calls } = await sendDigest(env, workspace, settings, claimed, callsLeft);
+    results[status]++;
+    callsLeft -= calls;
+  }
+
+  return results;
+}
@@ -0,0 +1,245 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, inArray, lt, or, sql } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// Raised when a #channel-name or @handle is not in the directory cache
+export class DirectoryLookupError extends ServiceError {
+  constructor(message: string) {
+    super(message, 404);
+  }
+}
+
+const CHANNEL_ID_PATTERN = /^[CGD][A-Z0-9]{6,}$/;
+const USER_ID_PATTERN = /^[UW][A-Z0-9]{6,}$/;
+
+/**
+ * Refreshes the workspace's cached channels and users from paginated conversations.list
+ * and users.list calls. Entries Slack no longer returns are removed.
+ */
+export async function syncDirectory(env: Bindings, workspace: Workspace) {
+  const db = drizzle(env.DB);
+  const slack = await getSlackClient(env, workspace);
+  const syncedAt = new Date();
+
+  let channelCount = 0;
+  let cursor: string | undefined;
+  do {
+    const result = await slack.conversations.list({
+      types: "public_channel,private_channel",
+      limit: 200,
+      cursor
+    });
+
+    const rows = (result.channels ?? []).flatMap(channel => channel.id && channel.name ? [{
+      workspaceId: workspace.id,
+      channelId: channel.id,
+      name: channel.name,
+      isPrivate: channel.is_private ?? false,
+      isMember: channel.is_member ?? false,
+      isArchived: channel.is_archived ?? false,
+      topic: channel.topic?.value || null,
+      memberCount: channel.num_members ?? null,
+      syncedAt
+    }] : []);
+
+    // One statement per row keeps each query under D1's bound parameter limit
+    const [first, ...rest] = rows.map(row => db.insert(schema.channels)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [schema.channels.workspaceId, schema.channels.channelId],
+        set: row
+      }));
+    if (first) {
+      await db.batch([first, ...rest]);
+    }
+
+    channelCount += rows.length;
+    cursor = result.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  let userCount = 0;
+  cursor = undefined;
+  do {
+    const result = await slack.users.list({ limit: 200, cursor });
+
+    const rows = (result.members ?? []).flatMap(member => member.id && member.name ? [{
+      workspaceId: workspace.id,
+      userId: member.id,
+      name: member.name,
+      realName: member.profile?.real_name || member.real_name || null,
+      displayName: member.profile?.display_name || null,
+      isBot: member.is_bot ?? false,
+      isDeleted: member.deleted ?? false,
+      syncedAt
+    }] : []);
+
+    const [first, ...rest] = rows.map(row => db.insert(schema.users)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [schema.users.workspaceId, schema.users.userId],
+        set: row
+      }));
+    if (first) {
+      await db.batch([first, ...rest]);
+    }
+
+    userCount += rows.length;
+    cursor = result.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  await db.batch([
+    db.delete(schema.channels)
+      .where(and(eq(schema.channels.workspaceId, workspace.id), lt(schema.channels.syncedAt, syncedAt))),
+    db.delete(schema.users)
+      .where(and(eq(schema.users.workspaceId, workspace.id), lt(schema.users.syncedAt, syncedAt))),
+    db.update(schema.workspaces)
+      .set({ directorySyncedAt: syncedAt })
+      .where(eq(schema.workspaces.id, workspace.id))
+  ]);
+
+  return { channels: channelCount, users: userCount };
+}
+
+// Fills the cache on first use so tools work before the first scheduled sync
+export async function ensureDirectory(env: Bindings, workspace: Workspace) {
+  if (!workspace.directorySyncedAt) {
+    await syncDirectory(env, workspace);
+  }
+}
+
+/**
+ * Syncs every active workspace's directory. Called from the hourly cron trigger.
+ */
+export async function syncAllDirectories(env: Bindings) {
+  const db = drizzle(env.DB);
+  const workspaces = await db.select()
+    .from(schema.workspaces)
+    .where(eq(schema.workspaces.isActive, true));
+
+  for (const workspace of workspaces) {
+    try {
+      await syncDirectory(env, workspace);
+    } catch (error) {
+      console.error(`Directory sync failed for workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Accepts a channel ID, `#channel-name` or a bare channel name and returns the channel ID.
+ */
+export async function resolveChannelId(env: Bindings, workspace: Workspace, channel: string) {
+  if (CHANNEL_ID_PATTERN.test(channel)) {
+    return channel;
+  }
+
+  await ensureDirectory(env, workspace);
+
+  const name = channel.replace(/^#/, '');
+  const db = drizzle(env.DB);
+  const [cached] = await db.select({ channelId: schema.channels.channelId })
+    .from(schema.channels)
+    .where(and(
+      eq(schema.channels.workspaceId, workspace.id),
+      eq(schema.channels.name, name)
+    ))
+    .limit(1);
+
+  if (!cached) {
+    throw new DirectoryLookupError(`Unknown channel #${name}. Run sync_directory if it was created recently.`);
+  }
+
+  return cached.channelId;
+}
+
+/**
+ * Accepts a user ID or an `@handle` (Slack username or display name) and returns the user ID.
+ */
+export async function resolveUserId(env: Bindings, workspace: Workspace, user: string) {
+  if (USER_ID_PATTERN.test(user)) {
+    return user;
+  }
+
+  await ensureDirectory(env, workspace);
+
+  const handle = user.replace(/^@/, '');
+  const db = drizzle(env.DB);
+  const [cached] = await db.select({ userId: schema.users.userId })
+    .from(schema.users)
+    .where(and(
+      eq(schema.users.workspaceId, workspace.id),
+      or(
+        eq(schema.users.name, handle),
+        eq(sql`lower(${schema.users.displayName})`, handle.toLowerCase())
+      )
+    ))
+    .limit(1);
+
+  if (!cached) {
+    throw new DirectoryLookupError(`Unknown user @${handle}. Run sync_directory if they joined recently.`);
+  }
+
+  return cached.userId;
+}
+
+export type DirectoryNames = {
+  users: Map<string, string>;
+  channels: Map<string, string>;
+};
+
+/**
+ * Looks up display names for the given user and channel IDs from the cache.
+ * IDs missing from the cache are left out of the maps.
+ */
+export async function getDirectoryNames(env: Bindings, workspaceId: string, ids: {
+  userIds?: string[];
+  channelIds?: string[];
+}): Promise<DirectoryNames> {
+  const db = drizzle(env.DB);
+  const userIds = [...new Set(ids.userIds ?? [])];
+  const channelIds = [...new Set(ids.channelIds ?? [])];
+
+  const cachedUsers = userIds.length > 0
+    ? await db.select()
+      .from(schema.users)
+      .where(and(eq(schema.users.workspaceId, workspaceId), inArray(schema.users.userId, userIds)))
+    : [];
+  const cachedChannels = channelIds.length > 0
+    ? await db.select()
+      .from(schema.channels)
+      .where(and(eq(schema.channels.workspaceId, workspaceId), inArray(schema.channels.channelId, channelIds)))
+    : [];
+
+  return {
+    users: new Map(cachedUsers.map(user => [user.userId, user.displayName || user.realName || user.name])),
+    channels: new Map(cachedChannels.map(channel => [channel.channelId, channel.name]))
+  };
+}
+
+// User and channel IDs referenced by `<@U…>` and `<#C…>` tokens in message text
+export function extractReferencedIds(text: string) {
+  return {
+    userIds: [...text.matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)].map(match => match[1]),
+    channelIds: [...text.matchAll(/<#([CG][A-Z0-9]+)(?:\|[^>]*)?>/g)].map(match => match[1])
+  };
+}
+
+/**
+ * Replaces `<@U…>` and `<#C…>` tokens with `@name` and `#name` where the name is known.
+ */
+export function resolveReferences(text: string, names: DirectoryNames) {
+  return text
+    .replace(/<@([UW][A-Z0-9]+)(?:\|([^>]*))?>/g, (token, userId: string, label?: string) => {
+      const name = names.users.get(userId) ?? label;
+      return name ? `@${name}` : token;
+    })
+    .replace(/<#([CG][A-Z0-9]+)(?:\|([^>]*))?>/g, (token, channelId: string, label?: string) => {
+      const name = names.channels.get(channelId) ?? label;
+      return name ? `#${name}` : token;
+    });
+}
@@ -0,0 +1,15 @@
+import type { ClientErrorStatusCode, ServerErrorStatusCode } from "hono/utils/http-status";
+
+/**
+ * An error meant for the caller, raised by the service layer. The REST API responds with
+ * `status`; MCP tools show the message as the tool's error result.
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    readonly status: ClientErrorStatusCode | ServerErrorStatusCode = 400,
+    readonly details?: unknown
+  ) {
+    super(message);
+  }
+}
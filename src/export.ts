@@ -0,0 +1,350 @@
+import { drizzle } from "drizzle-orm/d1";
+import type { z } from "zod";
+import { and, asc, eq, gt, gte, isNull, lte, or, type SQL } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import { buildPermalink } from "./messages";
+import { EXPORT_FORMATS, exportedMessageView, importedMessageSchema } from "./schemas";
+import type { Bindings } from "./types";
+
+/**
+ * Export and import of posted_messages history, for compliance copies and for moving history
+ * between deployments. Both sides use the same record, so an export can be imported as is.
+ */
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+type PostedMessage = typeof schema.postedMessages.$inferSelect;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  json: "application/json"
+};
+
+// Columns of an exported record, in CSV column order
+const EXPORT_COLUMNS = [
+  "id",
+  "channel_id",
+  "channel_name",
+  "slack_timestamp",
+  "thread_ts",
+  "user_id",
+  "message_text",
+  "blocks",
+  "template_id",
+  "permalink",
+  "posted_at",
+  "edited_at",
+  "deleted_at",
+  "simulated"
+] as const satisfies readonly (keyof ExportRecord)[];
+
+type ExportRecord = z.infer<typeof exportedMessageView>;
+
+// Rows read from D1 per page of the export stream
+const EXPORT_PAGE_SIZE = 500;
+
+function toExportRecord(workspace: Workspace, message: PostedMessage): ExportRecord {
+  return {
+    id: message.id,
+    channel_id: message.channelId,
+    channel_name: message.channelName,
+    slack_timestamp: message.messageTs,
+    thread_ts: message.threadTs,
+    user_id: message.userId,
+    message_text: message.messageText,
+    blocks: message.blocks,
+    template_id: message.templateId,
+    permalink: buildPermalink(workspace.workspaceUrl, message.channelId, message.messageTs, message.threadTs),
+    posted_at: message.createdAt.toISOString(),
+    edited_at: message.editedAt?.toISOString() ?? null,
+    deleted_at: message.deletedAt?.toISOString() ?? null,
+    simulated: message.isSimulated
+  };
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(record: ExportRecord, format: ExportFormat, first: boolean) {
+  switch (format) {
+    case "csv":
+      return `${EXPORT_COLUMNS.map(column => csvCell(record[column])).join(',')}\r\n`;
+    case "ndjson":
+      return `${JSON.stringify(record)}\n`;
+    case "json":
+      return `${first ? '' : ',\n'}${JSON.stringify(record)}`;
+  }
+}
+
+export type ExportFilters = {
+  channelId?: string;
+  since?: Date;
+  until?: Date;
+  includeDeleted: boolean;
+};
+
+/**
+ * Streams a workspace's posted messages, oldest first, reading D1 one page at a time so
+ * large histories are never held in memory.
+ */
+export function exportPostedMessages(env: Bindings, workspace: Workspace, format: ExportFormat, filters: ExportFilters) {
+  const db = drizzle(env.DB);
+  const encoder = new TextEncoder();
+
+  const conditions: SQL[] = [eq(schema.postedMessages.workspaceId, workspace.id)];
+  if (filters.channelId) {
+    conditions.push(eq(schema.postedMessages.channelId, filters.channelId));
+  }
+  if (filters.since) {
+    conditions.push(gte(schema.postedMessages.createdAt, filters.since));
+  }
+  if (filters.until) {
+    conditions.push(lte(schema.postedMessages.createdAt, filters.until));
+  }
+  if (!filters.includeDeleted) {
+    conditions.push(isNull(schema.postedMessages.deletedAt));
+  }
+
+  // Keyset paging on (created_at, id), which stays fast however deep the export goes
+  let last: PostedMessage | undefined;
+  let first = true;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(`${EXPORT_COLUMNS.join(',')}\r\n`));
+      } else if (format === "json") {
+        controller.enqueue(encoder.encode("[\n"));
+      }
+    },
+
+    async pull(controller) {
+      const after = last && or(
+        gt(schema.postedMessages.createdAt, last.createdAt),
+        and(eq(schema.postedMessages.createdAt, last.createdAt), gt(schema.postedMessages.id, last.id))
+      );
+
+      const rows = await db.select()
+        .from(schema.postedMessages)
+        .where(and(...conditions, after))
+        .orderBy(asc(schema.postedMessages.createdAt), asc(schema.postedMessages.id))
+        .limit(EXPORT_PAGE_SIZE);
+
+      const chunk = rows.map(row => {
+        const text = formatRecord(toExportRecord(workspace, row), format, first);
+        first = false;
+        return text;
+      }).join('');
+
+      if (chunk) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+
+      if (rows.length < EXPORT_PAGE_SIZE) {
+        if (format === "json") {
+          controller.enqueue(encoder.encode("\n]\n"));
+        }
+        controller.close();
+        return;
+      }
+
+      last = rows[rows.length - 1];
+    }
+  });
+}
+
+// Records accepted by one import request
+const MAX_IMPORT_RECORDS = 10000;
+
+// Inserts sent to D1 per batch
+const IMPORT_BATCH_SIZE = 50;
+
+// Parses RFC 4180 CSV, including quoted cells with commas, quotes and line breaks
+function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ServiceError("CSV has an unterminated quoted cell");
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+// CSV cells are all text: empty cells are null, blocks hold JSON and simulated is true or false
+function csvRecords(text: string) {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  return rows.map(cells => Object.fromEntries(header.map((column, index) => {
+    const value = cells[index] ?? '';
+    if (value === '') {
+      return [column, null];
+    }
+    if (column === "simulated") {
+      return [column, value === "true"];
+    }
+    if (column === "blocks") {
+      try {
+        return [column, JSON.parse(value)];
+      } catch {
+        return [column, value];
+      }
+    }
+    return [column, value];
+  })));
+}
+
+/**
+ * Splits an import body into raw records. JSON bodies must be an array of records; NDJSON has
+ * one record per line; CSV has a header row with the export's column names.
+ */
+export function parseImportBody(body: string, format: ExportFormat): unknown[] {
+  let records: unknown[];
+
+  switch (format) {
+    case "csv":
+      records = csvRecords(body);
+      break;
+    case "ndjson":
+      records = body.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new ServiceError(`Line ${index + 1} is not valid JSON`);
+        }
+      });
+      break;
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        throw new ServiceError("Request body is not valid JSON");
+      }
+      if (!Array.isArray(parsed)) {
+        throw new ServiceError("A JSON import must be an array of messages");
+      }
+      records = parsed;
+      break;
+    }
+  }
+
+  if (records.length > MAX_IMPORT_RECORDS) {
+    throw new ServiceError(`An import may hold at most ${MAX_IMPORT_RECORDS} messages; split the file and import each part`);
+  }
+
+  return records;
+}
+
+export type ImportResult = {
+  imported: number;
+  // Already present: same channel and Slack timestamp
+  skipped: number;
+  // 1-based position of each rejected record and why
+  failed: { record: number; error: string }[];
+};
+
+/**
+ * Adds exported messages to a workspace's history. Messages are matched on channel and Slack
+ * timestamp, so importing the same file twice adds nothing the second time. Template IDs are
+ * not carried over, as templates belong to the deployment they were created in.
+ */
+export async function importPostedMessages(env: Bindings, workspace: Workspace, records: unknown[]): Promise<ImportResult> {
+  const db = drizzle(env.DB);
+  const result: ImportResult = { imported: 0, skipped: 0, failed: [] };
+
+  const rows: (typeof schema.postedMessages.$inferInsert)[] = [];
+  records.forEach((record, index) => {
+    const parsed = importedMessageSchema.safeParse(record);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      result.failed.push({ record: index + 1, error: `${issue.path.join('.') || 'record'}: ${issue.message}` });
+      return;
+    }
+
+    const message = parsed.data;
+    rows.push({
+      workspaceId: workspace.id,
+      channelId: message.channel_id,
+      channelName: message.channel_name ?? message.channel_id,
+      messageText: message.message_text,
+      messageTs: message.slack_timestamp,
+      threadTs: message.thread_ts ?? null,
+      blocks: message.blocks ?? null,
+      userId: message.user_id,
+      createdAt: new Date(message.posted_at),
+      editedAt: message.edited_at ? new Date(message.edited_at) : null,
+      deletedAt: message.deleted_at ? new Date(message.deleted_at) : null,
+      isSimulated: message.simulated ?? false
+    });
+  });
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE).map(row =>
+      db.insert(schema.postedMessages)
+        .values(row)
+        .onConflictDoNothing({
+          target: [schema.postedMessages.workspaceId, schema.postedMessages.channelId, schema.postedMessages.messageTs]
+        })
+        .returning({ id: schema.postedMessages.id })
+    );
+
+    const inserted = await db.batch(batch as [typeof batch[number], ...typeof batch]);
+    for (const rowsInserted of inserted) {
+      if (rowsInserted.length > 0) {
+        result.imported++;
+      } else {
+        result.skipped++;
+      }
+    }
+  }
+
+  return result;
+}
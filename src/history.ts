@@ -0,0 +1,122 @@
+import type { WebClient } from "@slack/web-api";
+
+export type HistoryMessage = {
+  ts: string;
+  threadTs: string | null;
+  user: string | null;
+  text: string;
+  replyCount: number;
+  // Posted by a bot or an app, including this server
+  isBot: boolean;
+  reactions: { name: string; count: number }[];
+};
+
+type SlackMessage = {
+  ts?: string;
+  thread_ts?: string;
+  user?: string;
+  bot_id?: string;
+  subtype?: string;
+  text?: string;
+  reply_count?: number;
+  reactions?: { name?: string; count?: number }[];
+};
+
+function toHistoryMessages(messages: SlackMessage[] | undefined): HistoryMessage[] {
+  return (messages ?? []).flatMap(message => message.ts ? [{
+    ts: message.ts,
+    threadTs: message.thread_ts ?? null,
+    user: message.user ?? null,
+    text: message.text || '',
+    replyCount: message.reply_count ?? 0,
+    isBot: Boolean(message.bot_id) || message.subtype === "bot_message",
+    reactions: (message.reactions ?? []).flatMap(reaction => reaction.name
+      ? [{ name: reaction.name, count: reaction.count ?? 0 }]
+      : [])
+  }] : []);
+}
+
+// Slack reads whole threads a page at a time; this bounds the Slack calls for one thread
+const MAX_THREAD_PAGES = 10;
+const THREAD_PAGE_SIZE = 200;
+
+/**
+ * Reads one page of a channel's top-level messages, newest first, optionally limited to those
+ * posted between `oldest` and `latest`. The cursor is Slack's own and is passed through to
+ * clients unchanged. Bot messages are dropped after reading when `includeBots` is false, so
+ * such a page can hold fewer than `limit` messages.
+ */
+export async function getChannelHistory(slack: WebClient, channelId: string, options: {
+  limit: number;
+  cursor?: string;
+  oldest?: Date;
+  latest?: Date;
+  includeBots?: boolean;
+}) {
+  const history = await slack.conversations.history({
+    channel: channelId,
+    limit: options.limit,
+    cursor: options.cursor,
+    oldest: options.oldest ? String(options.oldest.getTime() / 1000) : undefined,
+    latest: options.latest ? String(options.latest.getTime() / 1000) : undefined,
+    inclusive: options.oldest || options.latest ? true : undefined
+  });
+
+  const messages = toHistoryMessages(history.messages);
+
+  return {
+    messages: options.includeBots === false ? messages.filter(message => !message.isBot) : messages,
+    nextCursor: history.response_metadata?.next_cursor || null
+  };
+}
+
+/**
+ * Reads one page of a thread, oldest first. The first page starts with the parent message.
+ */
+export async function getThreadReplies(slack: WebClient, channelId: string, threadTs: string, options: {
+  limit: number;
+  cursor?: string;
+}) {
+  const replies = await slack.conversations.replies({
+    channel: channelId,
+    ts: threadTs,
+    limit: options.limit,
+    cursor: options.cursor
+  });
+
+  return {
+    messages: toHistoryMessages(replies.messages),
+    nextCursor: replies.response_metadata?.next_cursor || null
+  };
+}
+
+/**
+ * Reads a whole thread, oldest first, starting with the parent message. `ts` may be the parent
+ * or any reply. `complete` is false when the thread was too long to read in full.
+ */
+export async function getThread(slack: WebClient, channelId: string, ts: string) {
+  const messages: HistoryMessage[] = [];
+  let threadTs = ts;
+  let cursor: string | undefined;
+  let pages = 0;
+
+  while (pages < MAX_THREAD_PAGES) {
+    const page = await getThreadReplies(slack, channelId, threadTs, { limit: THREAD_PAGE_SIZE, cursor });
+    pages++;
+
+    // Given a reply, Slack returns only that reply; read again from its parent
+    const [first] = page.messages;
+    if (messages.length === 0 && !cursor && first?.threadTs && first.threadTs !== threadTs) {
+      threadTs = first.threadTs;
+      continue;
+    }
+
+    messages.push(...page.messages);
+    cursor = page.nextCursor ?? undefined;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  return { threadTs, messages, complete: !cursor };
+}
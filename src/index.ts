@@ -1,522 +1,910 @@
-import { createFiberplane, createOpenAPISpec } from "@fiberplane/hono";
+import { createFiberplane } from "@fiberplane/hono";
 import { drizzle } from "drizzle-orm/d1";
 import { Hono } from "hono";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { bearerAuth } from "hono/bearer-auth";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { HTTPException } from "hono/http-exception";
+import { sign, verify } from "hono/jwt";
+import { timingSafeEqual } from "hono/utils/buffer";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPTransport } from "@hono/mcp";
-import { WebClient } from "@slack/web-api";
-import { z } from "zod";
-import { eq, desc, and, gte } from "drizzle-orm";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import { eq, desc, and, isNull } from "drizzle-orm";
 import * as schema from "./db/schema";
-
-type Bindings = {
-  DB: D1Database;
+import * as schemas from "./schemas";
+import * as services from "./services";
+import { api } from "./api";
+import { currentKeyVersion, reencryptWorkspaceSecrets } from "./crypto";
+import {
+  API_KEY_SCOPES,
+  apiKeyAuth,
+  generateApiKey,
+  hashApiKey,
+  mcpScopeGuard,
+  type ApiKey
+} from "./auth";
+import { ServiceError } from "./errors";
+import { describeFailure, recordAuditEntry, type NewAuditEntry } from "./audit";
+import { createWebClient, SLACK_BOT_SCOPES, verifyWorkspaceSignature } from "./slack";
+import { recordMentionEvent, type SlackMessageEvent } from "./mentions";
+import { APPROVE_ACTION_ID, decideDraft, REJECT_ACTION_ID, type SlackInteractionPayload } from "./approvals";
+import { sendDueDigests } from "./digest";
+import { syncAllDirectories } from "./directory";
+import { createApiSpec } from "./openapi";
+import { processOutbox } from "./outbox";
+import { registerPrompts } from "./prompts";
+import { registerResources } from "./resources";
+import { dispatchScheduledMessages } from "./scheduled";
+import { checkAllWorkspaceTokens, upsertWorkspace } from "./workspaces";
+import type { Bindings } from "./types";
+
+const app = new Hono<{ Bindings: Bindings; Variables: { apiKey: ApiKey } }>();
+
+/**
+ * Every tool returns its text alongside `structuredContent`, which holds the service result under
+ * `data` in the same shape as the matching REST response. Error results carry text only.
+ */
+type ToolResult<T = unknown> = {
+  content: { type: "text"; text: string }[];
+  structuredContent?: { data: T };
+  isError?: boolean;
 };
 
-const app = new Hono<{ Bindings: Bindings }>();
+function textResult(text: string, isError = false): ToolResult<never> {
+  return {
+    content: [{
+      type: "text",
+      text
+    }],
+    ...(isError ? { isError: true } : {})
+  };
+}
+
+// Why a tool call failed, kept beside its error result for the audit log
+const toolFailures = new WeakMap<ToolResult, Pick<NewAuditEntry, "status" | "error" | "slackError">>();
+
+/**
+ * Runs a service call for an MCP tool and formats its result. Service errors are shown as
+ * they are; anything unexpected is reported under `errorPrefix`.
+ */
+async function callService<T>(errorPrefix: string, run: () => Promise<T>, format: (result: T) => ToolResult<never> | string): Promise<ToolResult<T>> {
+  try {
+    const data = await run();
+    const formatted = format(data);
+    const result = typeof formatted === "string" ? textResult(formatted) : formatted;
+    return result.isError ? result : { ...result, structuredContent: { data } };
+  } catch (error) {
+    const result = error instanceof ServiceError
+      ? textResult(error.status === 403 ? `Forbidden: ${error.message}` : error.message, true)
+      : textResult(`${errorPrefix}: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+
+    toolFailures.set(result, describeFailure(error));
+    return result;
+  }
+}
 
-function createMcpServer(env: Bindings) {
+// Where a post is in the outbox, for get_outbox_status and undelivered post_message results
+function describeOutbox(outbox: z.infer<typeof schemas.outboxView>) {
+  const lines = [
+    `Outbox ID: ${outbox.id}`,
+    `Status: ${outbox.status}`,
+    `Attempts: ${outbox.attempts} of ${outbox.max_attempts}`
+  ];
+  if (outbox.next_attempt_at) {
+    lines.push(`Next attempt: ${outbox.next_attempt_at}`);
+  }
+  if (outbox.last_error) {
+    lines.push(`Last error: ${outbox.last_error}`);
+  }
+  return lines.join('\n');
+}
+
+function describePostingPolicy(postingPolicy: z.infer<typeof schemas.postingPolicyView>) {
+  const channels = (ids: string[], empty: string) => ids.length > 0 ? ids.map(id => `<#${id}>`).join(', ') : empty;
+
+  return [
+    `Allowed channels: ${channels(postingPolicy.allowed_channels, 'all')}`,
+    `Denied channels: ${channels(postingPolicy.denied_channels, 'none')}`,
+    `Channels requiring approval: ${channels(postingPolicy.approval_channels, 'none')}`,
+    `Max message length: ${postingPolicy.max_message_length ?? 'no limit'}`,
+    `Banned patterns: ${postingPolicy.banned_patterns.length > 0 ? postingPolicy.banned_patterns.map(pattern => `"${pattern}"`).join(', ') : 'none'}`,
+    `@channel/@here allowed: ${postingPolicy.allow_broadcasts ? 'yes' : 'no'}`
+  ].join('\n');
+}
+
+// A message read from Slack, in the same layout as get_mentions results
+function describeChannelMessage(message: z.infer<typeof schemas.channelMessageView>) {
+  const lines = [
+    `• ${message.text}`,
+    `  User: ${message.user_name ?? message.user_id ?? 'Unknown'}${message.is_bot ? ' (bot)' : ''}`,
+    `  Time: ${message.posted_at}`,
+    `  TS: ${message.ts}`
+  ];
+  if (message.reply_count > 0) {
+    lines.push(`  Replies: ${message.reply_count}`);
+  }
+  if (message.reactions.length > 0) {
+    lines.push(`  Reactions: ${message.reactions.map(reaction => `:${reaction.name}: ${reaction.count}`).join(', ')}`);
+  }
+  lines.push(`  Link: ${message.permalink}`);
+  return lines.join('\n');
+}
+
+// A response time such as "2h 5m" or "40s"
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor(seconds % 3600 / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+}
+
+function describeDigestSettings(settings: z.infer<typeof schemas.digestSettingsView>) {
+  const lines = [
+    `Digest: ${settings.enabled ? 'enabled' : settings.updated_at ? 'disabled' : 'not configured'}`,
+    `Sent at: ${settings.send_at} ${settings.timezone} on ${settings.weekdays.join(', ')}`,
+    `Channels: ${settings.channel_ids.length > 0 ? settings.channel_ids.map(id => `<#${id}>`).join(', ') : 'every channel the bot is in'}`
+  ];
+  if (settings.last_digest) {
+    const last = settings.last_digest;
+    lines.push(`Last digest: ${last.digest_date}, ${last.status}, ${last.mention_count} mention(s)${last.error ? ` (${last.error})` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+// A post held for approval, for get_draft and post_message results
+function describeDraft(draft: z.infer<typeof schemas.draftView>) {
+  const lines = [
+    `Draft ID: ${draft.id}`,
+    `Status: ${draft.status}`
+  ];
+  if (draft.decided_by) {
+    lines.push(`Decided by: <@${draft.decided_by}> at ${draft.decided_at}`);
+  }
+  if (draft.outbox_id) {
+    lines.push(`Outbox ID: ${draft.outbox_id}`);
+  }
+  return lines.join('\n');
+}
+
+// Result of post_message and post_template
+function describePostResult({ replayed, outbox, draft }: z.infer<typeof schemas.postMessageResult>, waitForDelivery: boolean) {
+  // Shown when a retry with the same idempotency key returned the original post
+  const replayNote = replayed ? "This idempotency key was already used; returning the original post.\n\n" : '';
+
+  if (draft) {
+    return `${replayNote}Channel ${draft.channel_id} requires approval. The message was sent to the workspace user for review and will be posted once they approve it.\n\n${describeDraft(draft)}\n\nUse get_draft to follow it.`;
+  }
+
+  if (!outbox) {
+    return textResult(`${replayNote}Message was neither queued nor held for approval`, true);
+  }
+
+  if (outbox.status === "dead_letter") {
+    const result = textResult(`${replayNote}Failed to post message to Slack\n\n${describeOutbox(outbox)}`, true);
+    toolFailures.set(result, { status: 502, error: "Failed to post message to Slack", slackError: outbox.last_error });
+    return result;
+  }
+
+  if (!outbox.message) {
+    return waitForDelivery
+      ? `${replayNote}Message not delivered yet; it will be retried automatically.\n\n${describeOutbox(outbox)}\n\nUse get_outbox_status to follow it.`
+      : `${replayNote}Message queued for delivery.\n\nOutbox ID: ${outbox.id}\nUse get_outbox_status to follow it.`;
+  }
+
+  const message = outbox.message;
+  // Direct messages are recorded under their recipients, such as "@alice, @bob"
+  const channel = message.channel_name.startsWith('@') ? message.channel_name : `#${message.channel_name}`;
+  if (message.simulated) {
+    return `${replayNote}Message simulated; nothing was sent to Slack.\n\nChannel: ${channel}${message.thread_ts ? ` (thread ${message.thread_ts})` : ''}\nMessage: ${message.message_text}\nSimulated TS: ${message.slack_timestamp}\nLink: ${message.permalink}\nMessage ID: ${message.id}`;
+  }
+  return `${replayNote}Message posted successfully!\n\nChannel: ${channel}${message.thread_ts ? ` (thread ${message.thread_ts})` : ''}\nMessage: ${message.message_text}\nLink: ${message.permalink}\nMessage ID: ${message.id}`;
+}
+
+function createMcpServer(env: Bindings, apiKey: ApiKey, executionCtx: ExecutionContext) {
   const server = new McpServer({
     name: "slack-mcp-server",
     version: "1.0.0",
     description: "MCP server for Slack workspace integration with message posting and retrieval capabilities"
   });
 
-  const db = drizzle(env.DB);
+  // Tools share the service layer with the REST API in ./api
+  const context: services.ServiceContext = { env, apiKey, executionCtx };
+
+  // Registers a tool whose every call is recorded in the audit log. `output` describes the
+  // structured result, which the SDK checks before returning it.
+  const tool = <Shape extends ZodRawShape, Output extends ZodTypeAny>(
+    name: string,
+    shape: Shape,
+    output: Output,
+    handler: (input: z.objectOutputType<Shape, ZodTypeAny>) => Promise<ToolResult<z.input<Output>>>
+  ) => {
+    const audited = async (input: z.objectOutputType<Shape, ZodTypeAny>) => {
+      const startedAt = new Date();
+      const result = await handler(input);
+      const failure = toolFailures.get(result);
+
+      executionCtx.waitUntil(recordAuditEntry(env, {
+        apiKeyId: apiKey.id,
+        source: "mcp",
+        tool: name,
+        workspaceId: typeof input.workspace_id === "string" ? input.workspace_id : null,
+        arguments: input,
+        outcome: result.isError ? "error" : "success",
+        ...failure,
+        latencyMs: Date.now() - startedAt.getTime(),
+        createdAt: startedAt
+      }));
+
+      return result;
+    };
+
+    // ToolCallback is a conditional type that TypeScript cannot resolve for a generic Shape
+    server.registerTool(name, {
+      inputSchema: shape,
+      outputSchema: { data: output }
+    }, audited as unknown as ToolCallback<Shape>);
+  };
 
   // Configure workspace tool
-  server.tool(
+  tool(
     "configure_workspace",
-    {
-      bot_token: z.string().min(1).describe("Slack bot token (xoxb-...)"),
-      user_id: z.string().min(1).describe("Your Slack user ID (get from: Click 3 dots > Copy member ID from your Slack profile)"),
-      description: z.string().optional().describe("Optional description for the workspace")
-    },
-    async ({ bot_token, user_id, description }) => {
-      try {
-        const slack = new WebClient(bot_token);
-        
-        // Validate token and get workspace info
-        const authTest = await slack.auth.test();
-        
-        if (!authTest.ok || !authTest.team || !authTest.team_id || !authTest.url || !authTest.user_id) {
-          return {
-            content: [{
-              type: "text",
-              text: "Invalid bot token or missing workspace information"
-            }],
-            isError: true
-          };
-        }
-
-        // Check if workspace already exists
-        const existingWorkspace = await db.select()
-          .from(schema.workspaces)
-          .where(eq(schema.workspaces.teamId, authTest.team_id))
-          .limit(1);
-
-        if (existingWorkspace.length > 0) {
-          // Update existing workspace
-          const [updatedWorkspace] = await db.update(schema.workspaces)
-            .set({
-              teamName: authTest.team,
-              workspaceUrl: authTest.url,
-              botToken: bot_token,
-              userId: user_id,
-              botId: authTest.user_id,
-              description: description || null,
-              updatedAt: new Date(),
-              isActive: true
-            })
-            .where(eq(schema.workspaces.teamId, authTest.team_id))
-            .returning();
-
-          return {
-            content: [{
-              type: "text",
-              text: `Workspace updated successfully!\n\nWorkspace ID: ${updatedWorkspace.id}\nTeam: ${updatedWorkspace.teamName}\nURL: ${updatedWorkspace.workspaceUrl}\nDescription: ${updatedWorkspace.description || 'None'}`
-            }]
-          };
-        }
-
-        // Create new workspace
-        const [newWorkspace] = await db.insert(schema.workspaces)
-          .values({
-            teamName: authTest.team,
-            teamId: authTest.team_id,
-            workspaceUrl: authTest.url,
-            botToken: bot_token,
-            userId: user_id,
-            botId: authTest.user_id,
-            description: description || null
-          })
-          .returning();
-
-        return {
-          content: [{
-            type: "text",
-            text: `Workspace configured successfully!\n\nWorkspace ID: ${newWorkspace.id}\nTeam: ${newWorkspace.teamName}\nURL: ${newWorkspace.workspaceUrl}\nDescription: ${newWorkspace.description || 'None'}\n\nYou can now use this workspace ID for other Slack operations.`
-          }]
-        };
-
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error configuring workspace: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+    schemas.configureWorkspaceInput.shape,
+    schemas.configureWorkspaceResult,
+    async (input) => callService(
+      "Error configuring workspace",
+      () => services.configureWorkspace(context, input),
+      ({ workspace, created }) => {
+        const details = `Workspace ID: ${workspace.id}\nTeam: ${workspace.team_name}\nURL: ${workspace.workspace_url}\nDescription: ${workspace.description || 'None'}`;
+
+        return created
+          ? `Workspace configured successfully!\n\n${details}\n\nYou can now use this workspace ID for other Slack operations.`
+          : `Workspace updated successfully!\n\n${details}`;
       }
-    }
+    )
   );
 
   // List workspaces tool
-  server.tool(
+  tool(
     "list_workspaces",
-    {},
-    async () => {
-      try {
-        const workspaces = await db.select({
-          teamName: schema.workspaces.teamName,
-          description: schema.workspaces.description
-        })
-        .from(schema.workspaces)
-        .where(eq(schema.workspaces.isActive, true));
-
+    schemas.listWorkspacesInput.shape,
+    z.array(schemas.workspaceView),
+    async () => callService(
+      "Error listing workspaces",
+      () => services.listWorkspaces(context),
+      workspaces => {
         if (workspaces.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: "No workspaces configured yet. Use configure_workspace to add one."
-            }]
-          };
+          return "No workspaces configured yet. Use configure_workspace to add one.";
         }
 
-        const workspaceList = workspaces.map(ws => 
-          `• ${ws.teamName}${ws.description ? ` - ${ws.description}` : ''}`
-        ).join('\n');
+        const workspaceList = workspaces.map(ws => {
+          let tokenCheck = 'not checked yet';
+          if (ws.token_checked_at) {
+            tokenCheck = ws.token_check_error
+              ? `failed at ${ws.token_checked_at} (${ws.token_check_error})`
+              : `OK at ${ws.token_checked_at}`;
+          }
 
-        return {
-          content: [{
-            type: "text",
-            text: `Configured Workspaces:\n\n${workspaceList}`
-          }]
-        };
+          return `• ${ws.team_name}${ws.description ? ` - ${ws.description}` : ''}\n  Workspace ID: ${ws.id}\n  Status: ${ws.is_active ? 'active' : 'inactive'}${ws.mode === "sandbox" ? ' (sandbox)' : ''}\n  Token check: ${tokenCheck}`;
+        }).join('\n\n');
 
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error listing workspaces: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return `Configured Workspaces:\n\n${workspaceList}`;
       }
-    }
+    )
   );
 
-  // Get mentions tool
-  server.tool(
-    "get_mentions",
-    {
-      workspace_id: z.string().min(1).describe("Unique workspace ID from configure_workspace"),
-      channel_id: z.string().min(1).describe("Channel ID to search for mentions"),
-      days_back: z.number().min(1).max(365).default(1).describe("How many days back to search"),
-      limit: z.number().min(1).max(100).default(5).describe("Maximum number of messages to return")
-    },
-    async ({ workspace_id, channel_id, days_back, limit }) => {
-      try {
-        // Get workspace
-        const [workspace] = await db.select()
-          .from(schema.workspaces)
-          .where(and(
-            eq(schema.workspaces.id, workspace_id),
-            eq(schema.workspaces.isActive, true)
-          ))
-          .limit(1);
-
-        if (!workspace) {
-          return {
-            content: [{
-              type: "text",
-              text: "Workspace not found or inactive"
-            }],
-            isError: true
-          };
-        }
+  // Deactivate workspace tool
+  tool(
+    "deactivate_workspace",
+    schemas.deactivateWorkspaceInput.shape,
+    schemas.workspaceView,
+    async (input) => callService(
+      "Error deactivating workspace",
+      () => services.deactivateWorkspace(context, input),
+      workspace => `Workspace ${workspace.team_name} deactivated. Its data is kept; use reactivate_workspace to use it again.`
+    )
+  );
 
-        const slack = new WebClient(workspace.botToken);
-
-        // Calculate timestamp for days_back
-        const oldestTimestamp = Math.floor((Date.now() - (days_back * 24 * 60 * 60 * 1000)) / 1000);
-
-        // Get channel history
-        const history = await slack.conversations.history({
-          channel: channel_id,
-          oldest: oldestTimestamp.toString(),
-          limit: 200 // Get more messages to filter through
-        });
-
-        if (!history.ok || !history.messages) {
-          return {
-            content: [{
-              type: "text",
-              text: "Failed to retrieve channel history or no messages found"
-            }],
-            isError: true
-          };
-        }
+  // Reactivate workspace tool
+  tool(
+    "reactivate_workspace",
+    schemas.reactivateWorkspaceInput.shape,
+    schemas.workspaceView,
+    async (input) => callService(
+      "Error reactivating workspace",
+      () => services.reactivateWorkspace(context, input),
+      workspace => `Workspace ${workspace.team_name} reactivated. Its bot token was checked and is valid.`
+    )
+  );
+
+  // Remove workspace tool
+  tool(
+    "remove_workspace",
+    schemas.removeWorkspaceInput.shape,
+    schemas.removeWorkspaceResult,
+    async (input) => callService(
+      "Error removing workspace",
+      () => services.removeWorkspace(context, input),
+      ({ workspace, token_revoked }) =>
+        `Workspace ${workspace.team_name} removed along with its posted messages, scheduled messages and cached data.\n\n${token_revoked ? 'The bot token was revoked.' : 'The bot token had already been revoked by Slack.'}`
+    )
+  );
+
+  // Set workspace mode tool
+  tool(
+    "set_workspace_mode",
+    schemas.setWorkspaceModeInput.shape,
+    schemas.workspaceView,
+    async (input) => callService(
+      "Error setting workspace mode",
+      () => services.setWorkspaceMode(context, input),
+      workspace => workspace.mode === "sandbox"
+        ? `Workspace ${workspace.team_name} is now in sandbox mode. It still reads from Slack, but posts, edits, deletions and reactions are simulated; use list_simulated_calls to see them.`
+        : `Workspace ${workspace.team_name} is now live. Posts go to Slack again.`
+    )
+  );
 
-        // Filter for mentions and channel notifications
-        const mentionPattern = new RegExp(`<@${workspace.userId}>`, 'i');
-        const channelNotificationPattern = /<!channel>/i;
-
-        const mentions = history.messages
-          .filter(msg => {
-            const text = msg.text || '';
-            return mentionPattern.test(text) || channelNotificationPattern.test(text);
-          })
-          .slice(0, limit)
-          .map(msg => {
-            const timestamp = msg.ts ? new Date(Number.parseFloat(msg.ts) * 1000).toISOString() : 'Unknown';
-            const permalink = `${workspace.workspaceUrl}archives/${channel_id}/p${msg.ts?.replace('.', '')}`;
-            
-            return {
-              text: msg.text || '',
-              user: msg.user || 'Unknown',
-              timestamp,
-              permalink
-            };
-          });
+  // Get posting policy tool
+  tool(
+    "get_posting_policy",
+    schemas.getPostingPolicyInput.shape,
+    schemas.postingPolicyView,
+    async (input) => callService(
+      "Error getting posting policy",
+      () => services.getPostingPolicy(context, input),
+      describePostingPolicy
+    )
+  );
+
+  // Set posting policy tool
+  tool(
+    "set_posting_policy",
+    schemas.setPostingPolicyInput.shape,
+    schemas.postingPolicyView,
+    async (input) => callService(
+      "Error setting posting policy",
+      () => services.setPostingPolicy(context, input),
+      postingPolicy => `Posting policy saved.\n\n${describePostingPolicy(postingPolicy)}`
+    )
+  );
+
+  // Configure digest tool
+  tool(
+    "configure_digest",
+    schemas.configureDigestInput.shape,
+    schemas.digestSettingsView,
+    async (input) => callService(
+      "Error configuring digest",
+      () => services.configureDigest(context, input),
+      settings => `Digest settings saved.\n\n${describeDigestSettings(settings)}`
+    )
+  );
+
+  // Preview digest tool
+  tool(
+    "preview_digest",
+    schemas.previewDigestInput.shape,
+    schemas.previewDigestResult,
+    async (input) => callService(
+      "Error previewing digest",
+      () => services.previewDigest(context, input),
+      preview => [
+        describeDigestSettings(preview.settings),
+        `Mentions from ${preview.period_start} to ${preview.period_end}: ${preview.mention_count} in ${preview.channel_count} channel(s)${preview.out_of_calls ? ' (the search stopped at the Slack call limit, so the digest may list more)' : preview.truncated ? ' (more than one digest lists)' : ''}`,
+        `Digest as it would be sent:\n\n${preview.text}`
+      ].join('\n\n')
+    )
+  );
+
+  // Get mentions tool
+  tool(
+    "get_mentions",
+    schemas.getMentionsInput.shape,
+    schemas.getMentionsResult,
+    async (input) => callService(
+      "Error getting mentions",
+      () => services.getMentions(context, input),
+      ({ mentions, next_cursor }) => {
+        const continuation = next_cursor
+          ? `\n\nMore results may be available. Call get_mentions again with cursor: ${next_cursor}`
+          : '';
 
         if (mentions.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: `No mentions or channel notifications found in the last ${days_back} day(s)`
-            }]
-          };
+          return `No mentions or channel notifications found in the last ${input.days_back} day(s)${continuation}`;
         }
 
-        const mentionsList = mentions.map(mention => 
-          `• ${mention.text}\n  User: ${mention.user}\n  Time: ${mention.timestamp}\n  Link: ${mention.permalink}`
+        const mentionsList = mentions.map(mention =>
+          `• ${mention.text}\n  User: ${mention.user_name ?? mention.user_id ?? 'Unknown'}\n  Channel: ${mention.channel_name ? `#${mention.channel_name}` : mention.channel_id}\n  Time: ${mention.posted_at}\n  Link: ${mention.permalink}`
         ).join('\n\n');
 
-        return {
-          content: [{
-            type: "text",
-            text: `Found ${mentions.length} mention(s) in the last ${days_back} day(s):\n\n${mentionsList}`
-          }]
-        };
-
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error getting mentions: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return `Found ${mentions.length} mention(s) in the last ${input.days_back} day(s):\n\n${mentionsList}${continuation}`;
       }
-    }
+    )
   );
 
   // List user channels tool
-  server.tool(
+  tool(
     "list_user_channels",
-    {
-      workspace_id: z.string().min(1).describe("Unique workspace ID from configure_workspace"),
-      limit: z.number().min(1).max(100).default(10).describe("Maximum number of channels to return"),
-      private_only: z.boolean().default(false).describe("Show only private channels")
-    },
-    async ({ workspace_id, limit, private_only }) => {
-      try {
-        // Get workspace
-        const [workspace] = await db.select()
-          .from(schema.workspaces)
-          .where(and(
-            eq(schema.workspaces.id, workspace_id),
-            eq(schema.workspaces.isActive, true)
-          ))
-          .limit(1);
-
-        if (!workspace) {
-          return {
-            content: [{
-              type: "text",
-              text: "Workspace not found or inactive"
-            }],
-            isError: true
-          };
+    schemas.listUserChannelsInput.shape,
+    schemas.listUserChannelsResult,
+    async (input) => callService(
+      "Error listing channels",
+      () => services.listUserChannels(context, input),
+      ({ channels, next_cursor }) => {
+        if (channels.length === 0) {
+          return "No channels found";
         }
 
-        const slack = new WebClient(workspace.botToken);
-        const channels = [];
-
-        // Get public channels if not private_only
-        if (!private_only) {
-          const publicChannels = await slack.conversations.list({
-            types: 'public_channel',
-            limit
-          });
-
-          if (publicChannels.ok && publicChannels.channels) {
-            channels.push(...publicChannels.channels.map(ch => ({
-              id: ch.id,
-              name: ch.name,
-              type: 'public',
-              is_member: ch.is_member
-            })));
-          }
-        }
+        const channelsList = channels
+          .map(ch => `• #${ch.name} (${ch.is_private ? 'private' : 'public'}) - ID: ${ch.id}${ch.is_member ? ' ✓' : ''}`)
+          .join('\n');
+        const continuation = next_cursor
+          ? `\n\nMore channels available. Call list_user_channels again with cursor: ${next_cursor}`
+          : '';
 
-        // Get private channels
-        const privateChannels = await slack.conversations.list({
-          types: 'private_channel',
-          limit: private_only ? limit : Math.max(1, limit - channels.length)
-        });
-
-        if (privateChannels.ok && privateChannels.channels) {
-          channels.push(...privateChannels.channels.map(ch => ({
-            id: ch.id,
-            name: ch.name,
-            type: 'private',
-            is_member: ch.is_member
-          })));
-        }
+        return `Channels (✓ = member):\n\n${channelsList}${continuation}`;
+      }
+    )
+  );
 
-        if (channels.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: "No channels found"
-            }]
-          };
+  // Sync directory tool
+  tool(
+    "sync_directory",
+    schemas.syncDirectoryInput.shape,
+    schemas.syncDirectoryResult,
+    async (input) => callService(
+      "Error syncing directory",
+      () => services.syncDirectory(context, input),
+      synced => `Directory synced: ${synced.channels} channels and ${synced.users} users cached.`
+    )
+  );
+
+  // Read channel history tool
+  tool(
+    "read_channel_history",
+    schemas.readChannelHistoryInput.shape,
+    schemas.channelHistoryResult,
+    async (input) => callService(
+      "Error reading channel history",
+      () => services.readChannelHistory(context, input),
+      ({ channel_id, channel_name, messages, next_cursor }) => {
+        const continuation = next_cursor
+          ? `\n\nOlder messages available. Call read_channel_history again with cursor: ${next_cursor}`
+          : '';
+        const channel = channel_name ? `#${channel_name}` : channel_id;
+
+        if (messages.length === 0) {
+          return `No messages found in ${channel}${continuation}`;
         }
 
-        const channelsList = channels
-          .slice(0, limit)
-          .map(ch => `• #${ch.name} (${ch.type}) - ID: ${ch.id}${ch.is_member ? ' ✓' : ''}`)
-          .join('\n');
+        return `${messages.length} message(s) in ${channel}, newest first:\n\n${messages.map(describeChannelMessage).join('\n\n')}${continuation}`;
+      }
+    )
+  );
 
-        return {
-          content: [{
-            type: "text",
-            text: `Channels (✓ = member):\n\n${channelsList}`
-          }]
-        };
+  // Get thread tool
+  tool(
+    "get_thread",
+    schemas.getThreadInput.shape,
+    schemas.threadResult,
+    async (input) => callService(
+      "Error reading thread",
+      () => services.getThread(context, input),
+      ({ channel_id, channel_name, thread_ts, messages, complete }) => {
+        const channel = channel_name ? `#${channel_name}` : channel_id;
+        const note = complete ? '' : '\n\nThe thread is too long to read in full; only its first messages are shown.';
+
+        return `Thread ${thread_ts} in ${channel} (${messages.length} message(s), oldest first):\n\n${messages.map(describeChannelMessage).join('\n\n')}${note}`;
+      }
+    )
+  );
 
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error listing channels: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+  // Channel stats tool
+  tool(
+    "channel_stats",
+    schemas.channelStatsInput.shape,
+    schemas.channelStatsResult,
+    async (input) => callService(
+      "Error computing channel stats",
+      () => services.channelStats(context, input),
+      result => {
+        const channel = result.channel_name ? `#${result.channel_name}` : result.channel_id;
+        const posters = result.top_posters.length > 0
+          ? result.top_posters.map(poster => `${poster.user_name ?? poster.user_id} (${poster.messages})`).join(', ')
+          : 'none';
+        const { threads, mentions } = result;
+
+        return [
+          `Activity in ${channel} from ${result.since} to ${result.until}${result.cached ? ` (cached, computed at ${result.computed_at})` : ''}:`,
+          `Messages: ${result.message_count} (${result.top_level_count} top-level)`,
+          `Per day: ${result.messages_per_day.map(day => `${day.date}: ${day.messages}`).join(', ')}`,
+          `Top posters: ${posters}`,
+          `Threads: ${threads.count} with ${threads.replies} replies (median ${threads.median_replies ?? 0}, deepest ${threads.max_replies})`,
+          `Mentions of you: ${mentions.count}, ${mentions.answered} answered${mentions.median_response_seconds !== null ? `, median response ${formatDuration(mentions.median_response_seconds)}` : ''}`,
+          `Posted through this server: ${result.posted_via_server}`,
+          ...(result.complete ? [] : ['\nThe channel was too busy to read in full; counts cover the messages and threads that were read.'])
+        ].join('\n');
       }
-    }
+    )
   );
 
   // Post message tool
-  server.tool(
+  tool(
     "post_message",
-    {
-      workspace_id: z.string().min(1).describe("Unique workspace ID from configure_workspace"),
-      channel_id: z.string().min(1).describe("Target channel ID to post message to"),
-      message_text: z.string().min(1).describe("Message content to post")
-    },
-    async ({ workspace_id, channel_id, message_text }) => {
-      try {
-        // Get workspace
-        const [workspace] = await db.select()
-          .from(schema.workspaces)
-          .where(and(
-            eq(schema.workspaces.id, workspace_id),
-            eq(schema.workspaces.isActive, true)
-          ))
-          .limit(1);
-
-        if (!workspace) {
-          return {
-            content: [{
-              type: "text",
-              text: "Workspace not found or inactive"
-            }],
-            isError: true
-          };
+    schemas.postMessageInput.shape,
+    schemas.postMessageResult,
+    async (input) => callService(
+      "Error posting message",
+      () => services.postMessage(context, input),
+      result => describePostResult(result, input.wait_for_delivery)
+    )
+  );
+
+  // Send direct message tool
+  tool(
+    "send_direct_message",
+    schemas.sendDirectMessageInput.shape,
+    schemas.postMessageResult,
+    async (input) => callService(
+      "Error sending direct message",
+      () => services.sendDirectMessage(context, input),
+      result => describePostResult(result, input.wait_for_delivery)
+    )
+  );
+
+  // Create template tool
+  tool(
+    "create_template",
+    schemas.createTemplateInput.shape,
+    schemas.templateView,
+    async (input) => callService(
+      "Error creating template",
+      () => services.createTemplate(context, input),
+      template => {
+        const variables = template.variables.length > 0
+          ? template.variables.map(variable => `{{${variable.name}}} (${variable.type})`).join(', ')
+          : 'none';
+
+        return `Template created!\n\nName: ${template.name}\nTemplate ID: ${template.id}\nVariables: ${variables}\n\nUse post_template to post it.`;
+      }
+    )
+  );
+
+  // List templates tool
+  tool(
+    "list_templates",
+    schemas.listTemplatesInput.shape,
+    z.array(schemas.templateView),
+    async (input) => callService(
+      "Error listing templates",
+      () => services.listTemplates(context, input),
+      templates => {
+        if (templates.length === 0) {
+          return "No templates yet. Use create_template to add one.";
         }
 
-        const slack = new WebClient(workspace.botToken);
-
-        // Get channel info for name
-        const channelInfo = await slack.conversations.info({
-          channel: channel_id
-        });
-
-        const channelName = channelInfo.ok && channelInfo.channel ? 
-          channelInfo.channel.name || channel_id : channel_id;
-
-        // Post the message
-        const result = await slack.chat.postMessage({
-          channel: channel_id,
-          text: message_text
-        });
-
-        if (!result.ok || !result.ts) {
-          return {
-            content: [{
-              type: "text",
-              text: "Failed to post message to Slack"
-            }],
-            isError: true
-          };
+        const templateList = templates.map(template => {
+          const variables = template.variables.length > 0
+            ? template.variables.map(variable => `${variable.name} (${variable.type})${variable.description ? ` - ${variable.description}` : ''}`).join('\n    ')
+            : 'none';
+          const usage = template.last_used_at
+            ? `${template.times_used} post(s), last at ${template.last_used_at}`
+            : 'never used';
+
+          return `• ${template.name}${template.description ? ` - ${template.description}` : ''}\n  Template ID: ${template.id}\n  Body: ${template.blocks ? `${template.blocks.length} block(s)` : 'text'}${template.markdown ? ' (Markdown)' : ''}\n  Variables:\n    ${variables}\n  Used: ${usage}`;
+        }).join('\n\n');
+
+        return `Templates (${templates.length}):\n\n${templateList}`;
+      }
+    )
+  );
+
+  // Delete template tool
+  tool(
+    "delete_template",
+    schemas.deleteTemplateInput.shape,
+    schemas.templateView,
+    async (input) => callService(
+      "Error deleting template",
+      () => services.deleteTemplate(context, input),
+      template => `Template ${template.name} deleted. Messages already posted from it keep their template ID.`
+    )
+  );
+
+  // Post template tool
+  tool(
+    "post_template",
+    schemas.postTemplateInput.shape,
+    schemas.postMessageResult,
+    async (input) => callService(
+      "Error posting template",
+      () => services.postTemplate(context, input),
+      result => describePostResult(result, input.wait_for_delivery)
+    )
+  );
+
+  // Get outbox status tool
+  tool(
+    "get_outbox_status",
+    schemas.getOutboxStatusInput.shape,
+    schemas.outboxView,
+    async (input) => callService(
+      "Error getting outbox status",
+      () => services.getOutboxStatus(context, input),
+      outbox => {
+        const delivery = outbox.message
+          ? `\nSent: ${outbox.sent_at ?? 'unknown'}\nMessage ID: ${outbox.message.id}\nLink: ${outbox.message.permalink}`
+          : '';
+
+        return `${describeOutbox(outbox)}\nChannel: ${outbox.channel_id}\nQueued: ${outbox.created_at}${delivery}`;
+      }
+    )
+  );
+
+  // Get draft tool
+  tool(
+    "get_draft",
+    schemas.getDraftInput.shape,
+    schemas.draftView,
+    async (input) => callService(
+      "Error getting draft",
+      () => services.getDraft(context, input),
+      draft => {
+        const next = draft.outbox_id ? "\n\nUse get_outbox_status to follow the post." : '';
+        return `${describeDraft(draft)}\nChannel: ${draft.channel_id}\nCreated: ${draft.created_at}\nMessage: ${draft.message_text}${next}`;
+      }
+    )
+  );
+
+  // Update message tool
+  tool(
+    "update_message",
+    schemas.updateMessageInput.shape,
+    schemas.postedMessageView,
+    async (input) => callService(
+      "Error updating message",
+      () => services.updateMessage(context, input),
+      message => `Message updated successfully!\n\nChannel: #${message.channel_name}\nMessage: ${message.message_text}\nLink: ${message.permalink}\nMessage ID: ${message.id}`
+    )
+  );
+
+  // Delete message tool
+  tool(
+    "delete_message",
+    schemas.deleteMessageInput.shape,
+    schemas.postedMessageView,
+    async (input) => callService(
+      "Error deleting message",
+      () => services.deleteMessage(context, input),
+      message => `Message deleted successfully.\n\nChannel: #${message.channel_name}\nMessage: ${message.message_text}\nMessage ID: ${message.id}`
+    )
+  );
+
+  // Add reaction tool
+  tool(
+    "add_reaction",
+    schemas.addReactionInput.shape,
+    schemas.reactionResult,
+    async (input) => callService(
+      "Error adding reaction",
+      () => services.addReaction(context, input),
+      reaction => `${reaction.changed ? 'Added' : 'Already reacted with'} :${reaction.emoji}: on ${reaction.ts} in <#${reaction.channel_id}>\nLink: ${reaction.permalink}`
+    )
+  );
+
+  // Remove reaction tool
+  tool(
+    "remove_reaction",
+    schemas.removeReactionInput.shape,
+    schemas.reactionResult,
+    async (input) => callService(
+      "Error removing reaction",
+      () => services.removeReaction(context, input),
+      reaction => `${reaction.changed ? 'Removed' : 'No reaction to remove:'} :${reaction.emoji}: on ${reaction.ts} in <#${reaction.channel_id}>\nLink: ${reaction.permalink}`
+    )
+  );
+
+  // Schedule message tool
+  tool(
+    "schedule_message",
+    schemas.scheduleMessageInput.shape,
+    schemas.scheduledMessageView,
+    async (input) => callService(
+      "Error scheduling message",
+      () => services.scheduleMessage(context, input),
+      scheduled => `Message scheduled successfully!\n\nChannel: ${input.channel_id}\nMessage: ${scheduled.message_text}\nPost at: ${scheduled.post_at}\nScheduled Message ID: ${scheduled.id}`
+    )
+  );
+
+  // List scheduled messages tool
+  tool(
+    "list_scheduled_messages",
+    schemas.listScheduledMessagesInput.shape,
+    z.array(schemas.scheduledMessageView),
+    async (input) => callService(
+      "Error listing scheduled messages",
+      () => services.listScheduledMessages(context, input),
+      scheduledMessages => {
+        if (scheduledMessages.length === 0) {
+          return input.status ? `No ${input.status} scheduled messages` : "No scheduled messages";
         }
 
-        // Store the posted message in database
-        const [postedMessage] = await db.insert(schema.postedMessages)
-          .values({
-            workspaceId: workspace_id,
-            channelId: channel_id,
-            channelName: channelName,
-            messageText: message_text,
-            messageTs: result.ts,
-            slackMessageId: result.message?.client_msg_id || null,
-            userId: workspace.userId
-          })
-          .returning();
-
-        const permalink = `${workspace.workspaceUrl}archives/${channel_id}/p${result.ts.replace('.', '')}`;
-
-        return {
-          content: [{
-            type: "text",
-            text: `Message posted successfully!\n\nChannel: #${channelName}\nMessage: ${message_text}\nLink: ${permalink}\nMessage ID: ${postedMessage.id}`
-          }]
-        };
+        const scheduledList = scheduledMessages.map(msg =>
+          `• [${msg.status}] ${msg.channel_id}: ${msg.message_text}\n  Post at: ${msg.post_at}\n  ID: ${msg.id}${msg.error ? `\n  Error: ${msg.error}` : ''}`
+        ).join('\n\n');
 
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error posting message: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return `Scheduled Messages (${scheduledMessages.length}):\n\n${scheduledList}`;
       }
-    }
+    )
+  );
+
+  // Cancel scheduled message tool
+  tool(
+    "cancel_scheduled_message",
+    schemas.cancelScheduledMessageInput.shape,
+    schemas.scheduledMessageView,
+    async (input) => callService(
+      "Error cancelling scheduled message",
+      () => services.cancelScheduledMessage(context, input),
+      cancelled => `Scheduled message cancelled.\n\nChannel: ${cancelled.channel_id}\nMessage: ${cancelled.message_text}\nWas due at: ${cancelled.post_at}`
+    )
   );
 
   // Get posted messages tool
-  server.tool(
+  tool(
     "get_posted_messages",
-    {
-      workspace_id: z.string().min(1).describe("Unique workspace ID from configure_workspace"),
-      limit: z.number().min(1).max(100).default(50).describe("Maximum number of messages to return")
-    },
-    async ({ workspace_id, limit }) => {
-      try {
-        // Get workspace to verify it exists
-        const [workspace] = await db.select()
-          .from(schema.workspaces)
-          .where(and(
-            eq(schema.workspaces.id, workspace_id),
-            eq(schema.workspaces.isActive, true)
-          ))
-          .limit(1);
-
-        if (!workspace) {
-          return {
-            content: [{
-              type: "text",
-              text: "Workspace not found or inactive"
-            }],
-            isError: true
-          };
+    schemas.getPostedMessagesInput.shape,
+    schemas.getPostedMessagesResult,
+    async (input) => callService(
+      "Error getting posted messages",
+      () => services.getPostedMessages(context, input),
+      ({ messages, next_cursor }) => {
+        if (messages.length === 0) {
+          return "No messages have been posted through this MCP server yet";
+        }
+
+        const formatMessage = (msg: typeof messages[number], indent: string) => {
+          let state = '';
+          if (msg.deleted_at) {
+            state = `\n${indent}  Deleted: ${msg.deleted_at}`;
+          } else if (msg.edited_at) {
+            state = `\n${indent}  Edited: ${msg.edited_at} (${msg.revisions} previous version(s))`;
+          }
+
+          if (msg.template_id) {
+            state += `\n${indent}  Template ID: ${msg.template_id}`;
+          }
+          if (msg.simulated) {
+            state += `\n${indent}  Simulated: never sent to Slack`;
+          }
+
+          return `${indent}• #${msg.channel_name}: ${msg.message_text}\n${indent}  Posted: ${msg.posted_at}${state}\n${indent}  Link: ${msg.permalink}\n${indent}  Message ID: ${msg.id}`;
+        };
+
+        // Group thread replies under their parent when the parent is in the result set
+        const parentsByTs = new Map(messages.map(msg => [`${msg.channel_id}:${msg.slack_timestamp}`, msg]));
+        const repliesByParent = new Map<string, typeof messages>();
+        const topLevel: typeof messages = [];
+
+        for (const msg of messages) {
+          const parent = msg.thread_ts && msg.thread_ts !== msg.slack_timestamp
+            ? parentsByTs.get(`${msg.channel_id}:${msg.thread_ts}`)
+            : undefined;
+
+          if (parent) {
+            repliesByParent.set(parent.id, [...(repliesByParent.get(parent.id) ?? []), msg]);
+          } else {
+            topLevel.push(msg);
+          }
         }
 
-        // Get posted messages
-        const messages = await db.select()
-          .from(schema.postedMessages)
-          .where(eq(schema.postedMessages.workspaceId, workspace_id))
-          .orderBy(desc(schema.postedMessages.createdAt))
-          .limit(limit);
+        const messagesList = topLevel.map(msg => {
+          const replies = (repliesByParent.get(msg.id) ?? [])
+            .sort((a, b) => a.posted_at.localeCompare(b.posted_at))
+            .map(reply => formatMessage(reply, '    '));
+          const threadInfo = msg.thread_ts && msg.thread_ts !== msg.slack_timestamp ? `\n  Reply in thread: ${msg.thread_ts}` : '';
 
+          return [formatMessage(msg, '') + threadInfo, ...replies].join('\n');
+        }).join('\n\n');
+
+        const continuation = next_cursor
+          ? `\n\nOlder messages available. Call get_posted_messages again with cursor: ${next_cursor}`
+          : '';
+
+        return `Posted Messages (${messages.length}):\n\n${messagesList}${continuation}`;
+      }
+    )
+  );
+
+  // Search posted messages tool
+  tool(
+    "search_posted_messages",
+    schemas.searchPostedMessagesInput.shape,
+    schemas.searchPostedMessagesResult,
+    async (input) => callService(
+      "Error searching posted messages",
+      () => services.searchPostedMessages(context, input),
+      ({ messages, next_cursor }) => {
         if (messages.length === 0) {
-          return {
-            content: [{
-              type: "text",
-              text: "No messages have been posted through this MCP server yet"
-            }]
-          };
+          return `No posted messages match "${input.query}"`;
+        }
+
+        const messagesList = messages.map(msg =>
+          `• #${msg.channel_name}: ${msg.snippet}\n  Posted: ${msg.posted_at}${msg.edited_at ? ` (edited ${msg.edited_at})` : ''}\n  Link: ${msg.permalink}\n  Message ID: ${msg.id}`
+        ).join('\n\n');
+
+        const continuation = next_cursor
+          ? `\n\nMore matches available. Call search_posted_messages again with cursor: ${next_cursor}`
+          : '';
+
+        return `Posted messages matching "${input.query}" (${messages.length}, best match first):\n\n${messagesList}${continuation}`;
+      }
+    )
+  );
+
+  // Query audit log tool
+  tool(
+    "query_audit_log",
+    schemas.queryAuditLogInput.shape,
+    schemas.queryAuditLogResult,
+    async (input) => callService(
+      "Error querying audit log",
+      () => services.queryAuditLog(context, input),
+      ({ entries, next_cursor }) => {
+        if (entries.length === 0) {
+          return "No audit log entries match these filters";
         }
 
-        const messagesList = messages.map(msg => {
-          const timestamp = msg.createdAt.toISOString();
-          const permalink = `${workspace.workspaceUrl}archives/${msg.channelId}/p${msg.messageTs.replace('.', '')}`;
-          
-          return `• #${msg.channelName}: ${msg.messageText}\n  Posted: ${timestamp}\n  Link: ${permalink}`;
+        const entriesList = entries.map(entry => {
+          const failure = entry.outcome === "error"
+            ? `\n  Error: ${entry.error ?? 'unknown'}${entry.slack_error ? ` (Slack: ${entry.slack_error})` : ''}`
+            : '';
+
+          return `• ${entry.created_at} ${entry.tool} via ${entry.source}: ${entry.outcome}${entry.status ? ` (${entry.status})` : ''} in ${entry.latency_ms}ms` +
+            `\n  Workspace: ${entry.workspace_id ?? 'none'}\n  API key: ${entry.api_key_id ?? 'unknown'}` +
+            `\n  Arguments: ${JSON.stringify(entry.arguments)}${failure}`;
         }).join('\n\n');
 
-        return {
-          content: [{
-            type: "text",
-            text: `Posted Messages (${messages.length}):\n\n${messagesList}`
-          }]
-        };
+        const continuation = next_cursor
+          ? `\n\nOlder entries available. Call query_audit_log again with cursor: ${next_cursor}`
+          : '';
 
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error getting posted messages: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
+        return `Audit Log (${entries.length}):\n\n${entriesList}${continuation}`;
       }
-    }
+    )
+  );
+
+  // List simulated calls tool
+  tool(
+    "list_simulated_calls",
+    schemas.listSimulatedCallsInput.shape,
+    schemas.listSimulatedCallsResult,
+    async (input) => callService(
+      "Error listing simulated calls",
+      () => services.listSimulatedCalls(context, input),
+      ({ calls, next_cursor }) => {
+        if (calls.length === 0) {
+          return "No simulated Slack calls for this workspace";
+        }
+
+        const callsList = calls.map(call =>
+          `• ${call.created_at} ${call.method}\n  Arguments: ${JSON.stringify(call.arguments)}\n  Response: ${JSON.stringify(call.response)}`
+        ).join('\n\n');
+
+        const continuation = next_cursor
+          ? `\n\nOlder calls available. Call list_simulated_calls again with cursor: ${next_cursor}`
+          : '';
+
+        return `Simulated Slack calls (${calls.length}, newest first):\n\n${callsList}${continuation}`;
+      }
+    )
   );
 
+  // Resources and prompts built on the same services
+  registerResources(server, context);
+  registerPrompts(server, context);
+
   return server;
 }
 
@@ -545,84 +933,404 @@ app.get("/health", async (c) => {
   }
 });
 
-// REST API endpoint for posting messages
-app.post("/api/post-message", async (c) => {
+// REST API mirroring the MCP tools
+app.route("/api", api);
+
+// Service errors carry their own status; other errors thrown by routes become a 500
+app.onError((error, c) => {
+  if (error instanceof ServiceError) {
+    return c.json({
+      error: error.message,
+      details: error.details
+    }, error.status);
+  }
+
+  if (error instanceof HTTPException) {
+    return error.getResponse();
+  }
+
+  return c.json({
+    error: "Internal server error",
+    details: error.message
+  }, 500);
+});
+
+// Slack OAuth v2 install flow
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+const OAUTH_NONCE_COOKIE = "slack_oauth_nonce";
+
+app.get("/slack/install", async (c) => {
+  // The signed state carries a nonce that must match the cookie set on this browser
+  const nonce = crypto.randomUUID();
+  const state = await sign({
+    nonce,
+    exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS
+  }, c.env.SLACK_STATE_SECRET);
+
+  setCookie(c, OAUTH_NONCE_COOKIE, nonce, {
+    path: "/slack/oauth",
+    httpOnly: true,
+    secure: true,
+    sameSite: "Lax",
+    maxAge: OAUTH_STATE_TTL_SECONDS
+  });
+
+  const authorizeUrl = new URL("https://slack.com/oauth/v2/authorize");
+  authorizeUrl.searchParams.set("client_id", c.env.SLACK_CLIENT_ID);
+  authorizeUrl.searchParams.set("scope", SLACK_BOT_SCOPES.join(","));
+  authorizeUrl.searchParams.set("redirect_uri", new URL("/slack/oauth/callback", c.req.url).toString());
+  authorizeUrl.searchParams.set("state", state);
+
+  return c.redirect(authorizeUrl.toString());
+});
+
+app.get("/slack/oauth/callback", async (c) => {
+  const { code, state, error } = c.req.query();
+
+  if (error) {
+    return c.text(`Slack installation was not completed: ${error}`, 400);
+  }
+
+  if (!code || !state) {
+    return c.text("Missing code or state parameter", 400);
+  }
+
   try {
-    const body = await c.req.json();
-    const { workspace_id, channel_id, message_text } = body;
+    const payload = await verify(state, c.env.SLACK_STATE_SECRET);
+    const nonce = getCookie(c, OAUTH_NONCE_COOKIE);
+    if (!nonce || payload.nonce !== nonce) {
+      throw new Error("nonce mismatch");
+    }
+  } catch {
+    return c.text("Invalid or expired state parameter. Please restart the installation.", 400);
+  }
 
-    // Validate required fields
-    if (!workspace_id || !channel_id || !message_text) {
-      return c.json({
-        error: "Missing required fields: workspace_id, channel_id, message_text"
-      }, 400);
+  deleteCookie(c, OAUTH_NONCE_COOKIE, { path: "/slack/oauth" });
+
+  try {
+    const oauth = await createWebClient(c.env).oauth.v2.access({
+      client_id: c.env.SLACK_CLIENT_ID,
+      client_secret: c.env.SLACK_CLIENT_SECRET,
+      code,
+      redirect_uri: new URL("/slack/oauth/callback", c.req.url).toString()
+    });
+
+    if (!oauth.ok || oauth.token_type !== "bot" || !oauth.access_token || !oauth.bot_user_id ||
+        !oauth.team?.id || !oauth.team.name || !oauth.authed_user?.id) {
+      return c.text(`Slack installation failed: ${oauth.error || 'missing bot token or team information'}`, 400);
+    }
+
+    // oauth.v2.access does not return the workspace URL
+    const authTest = await createWebClient(c.env, oauth.access_token).auth.test();
+    if (!authTest.ok || !authTest.url) {
+      return c.text("Slack installation failed: could not resolve workspace URL", 400);
     }
 
+    const workspace = await upsertWorkspace(c.env, {
+      teamId: oauth.team.id,
+      teamName: oauth.team.name,
+      workspaceUrl: authTest.url,
+      botToken: oauth.access_token,
+      botId: oauth.bot_user_id,
+      userId: oauth.authed_user.id,
+      refreshToken: oauth.refresh_token ?? null,
+      tokenExpiresAt: oauth.expires_in ? new Date(Date.now() + oauth.expires_in * 1000) : null
+    });
+
+    return c.text(`Slack workspace installed successfully!\n\nWorkspace ID: ${workspace.id}\nTeam: ${workspace.teamName}\nURL: ${workspace.workspaceUrl}\n\nYou can now use this workspace ID for other Slack operations.`);
+
+  } catch (error) {
+    return c.text(`Slack installation failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 500);
+  }
+});
+
+// Slack Events API receiver
+app.post("/slack/events", async (c) => {
+  // The signature covers the raw body, so it must be read as text before parsing
+  const body = await c.req.text();
+  const timestamp = c.req.header("X-Slack-Request-Timestamp");
+  const signature = c.req.header("X-Slack-Signature");
+
+  if (!timestamp || !signature) {
+    return c.json({
+      error: "Missing Slack signature headers"
+    }, 401);
+  }
+
+  let payload: { type?: string; team_id?: string; challenge?: string; event?: SlackMessageEvent };
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return c.json({
+      error: "Invalid JSON payload"
+    }, 400);
+  }
+
+  try {
     const db = drizzle(c.env.DB);
 
-    // Get workspace
-    const [workspace] = await db.select()
-      .from(schema.workspaces)
-      .where(and(
-        eq(schema.workspaces.id, workspace_id),
-        eq(schema.workspaces.isActive, true)
-      ))
-      .limit(1);
+    // URL verification requests carry no team ID, so any configured signing secret may sign them
+    const workspaces = payload.team_id
+      ? await db.select()
+        .from(schema.workspaces)
+        .where(and(
+          eq(schema.workspaces.teamId, payload.team_id),
+          eq(schema.workspaces.isActive, true)
+        ))
+        .limit(1)
+      : await db.select()
+        .from(schema.workspaces)
+        .where(eq(schema.workspaces.isActive, true));
+
+    if (payload.type === "event_callback" && workspaces.length === 0) {
+      // Acknowledge so Slack does not keep retrying events for unknown teams
+      return c.json({ ok: true, ignored: "unknown team" });
+    }
+
+    if (!await verifyWorkspaceSignature(c.env, workspaces, { timestamp, body, signature })) {
+      return c.json({
+        error: "Invalid Slack signature"
+      }, 401);
+    }
+
+    if (payload.type === "url_verification") {
+      return c.json({ challenge: payload.challenge });
+    }
+
+    if (payload.type === "event_callback" && payload.event) {
+      await recordMentionEvent(c.env, workspaces[0], payload.event);
+    }
+
+    return c.json({ ok: true });
+
+  } catch (error) {
+    return c.json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Button clicks on approval requests. Slack sends interactivity payloads as a form field.
+app.post("/slack/interactions", async (c) => {
+  const body = await c.req.text();
+  const timestamp = c.req.header("X-Slack-Request-Timestamp");
+  const signature = c.req.header("X-Slack-Signature");
+
+  if (!timestamp || !signature) {
+    return c.json({
+      error: "Missing Slack signature headers"
+    }, 401);
+  }
+
+  let payload: SlackInteractionPayload;
+  try {
+    payload = JSON.parse(new URLSearchParams(body).get("payload") ?? '');
+  } catch {
+    return c.json({
+      error: "Invalid interaction payload"
+    }, 400);
+  }
+
+  try {
+    const db = drizzle(c.env.DB);
+    const [workspace] = payload.team?.id
+      ? await db.select()
+        .from(schema.workspaces)
+        .where(and(
+          eq(schema.workspaces.teamId, payload.team.id),
+          eq(schema.workspaces.isActive, true)
+        ))
+        .limit(1)
+      : [];
 
     if (!workspace) {
+      return c.json({ ok: true, ignored: "unknown team" });
+    }
+
+    if (!await verifyWorkspaceSignature(c.env, [workspace], { timestamp, body, signature })) {
       return c.json({
-        error: "Workspace not found or inactive"
-      }, 404);
+        error: "Invalid Slack signature"
+      }, 401);
     }
 
-    const slack = new WebClient(workspace.botToken);
+    const action = payload.type === "block_actions"
+      ? payload.actions?.find(action => action.action_id === APPROVE_ACTION_ID || action.action_id === REJECT_ACTION_ID)
+      : undefined;
 
-    // Get channel info for name
-    const channelInfo = await slack.conversations.info({
-      channel: channel_id
-    });
+    // Only the workspace user the request was sent to may decide
+    if (action?.value && payload.user?.id === workspace.userId) {
+      const decision = { approved: action.action_id === APPROVE_ACTION_ID, userId: payload.user.id };
 
-    const channelName = channelInfo.ok && channelInfo.channel ? 
-      channelInfo.channel.name || channel_id : channel_id;
+      // Slack expects an acknowledgement within three seconds, so the post goes out afterwards.
+      // A failed post is recorded on its outbox entry.
+      c.executionCtx.waitUntil(decideDraft(c.env, workspace, action.value, decision));
+    }
+
+    return c.body(null, 200);
+
+  } catch (error) {
+    return c.json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Maintenance endpoints, guarded by the ADMIN_API_TOKEN secret
+app.use("/admin/*", bearerAuth({
+  verifyToken: (token, c) => timingSafeEqual(token, c.env.ADMIN_API_TOKEN)
+}));
+
+// Re-encrypt every stored bot token under the current TOKEN_ENCRYPTION_KEY_VERSION
+app.post("/admin/rotate-token-key", async (c) => {
+  try {
+    const db = drizzle(c.env.DB);
+    const keyVersion = currentKeyVersion(c.env);
+
+    const workspaces = await db.select().from(schema.workspaces);
+    let rotated = 0;
 
-    // Post the message
-    const result = await slack.chat.postMessage({
-      channel: channel_id,
-      text: message_text
+    for (const workspace of workspaces) {
+      // Only the secrets still on an older key are re-encrypted
+      const update = await reencryptWorkspaceSecrets(c.env, workspace);
+      if (!update) {
+        continue;
+      }
+
+      await db.update(schema.workspaces)
+        .set(update)
+        .where(eq(schema.workspaces.id, workspace.id));
+      rotated++;
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        key_version: keyVersion,
+        rotated,
+        unchanged: workspaces.length - rotated
+      }
     });
 
-    if (!result.ok || !result.ts) {
+  } catch (error) {
+    return c.json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Issue a new API key. The plaintext key is only returned once.
+app.post("/admin/api-keys", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { name, workspace_ids, scopes } = body;
+
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      return c.json({
+        error: "Missing required fields: name, scopes"
+      }, 400);
+    }
+
+    const invalidScopes = scopes.filter((scope: unknown) => !API_KEY_SCOPES.includes(scope as never));
+    if (invalidScopes.length > 0) {
       return c.json({
-        error: "Failed to post message to Slack",
-        slack_error: result.error
-      }, 500);
+        error: `Invalid scopes: ${invalidScopes.join(', ')}. Allowed scopes: ${API_KEY_SCOPES.join(', ')}`
+      }, 400);
+    }
+
+    if (workspace_ids !== undefined && workspace_ids !== null &&
+        (!Array.isArray(workspace_ids) || workspace_ids.some((id: unknown) => typeof id !== "string"))) {
+      return c.json({
+        error: "workspace_ids must be an array of workspace IDs, or omitted to allow every workspace"
+      }, 400);
     }
 
-    // Store the posted message in database
-    const [postedMessage] = await db.insert(schema.postedMessages)
+    const db = drizzle(c.env.DB);
+    const key = generateApiKey();
+
+    const [apiKey] = await db.insert(schema.apiKeys)
       .values({
-        workspaceId: workspace_id,
-        channelId: channel_id,
-        channelName: channelName,
-        messageText: message_text,
-        messageTs: result.ts,
-        slackMessageId: result.message?.client_msg_id || null,
-        userId: workspace.userId
+        name,
+        keyHash: await hashApiKey(key),
+        keyPrefix: key.slice(0, 12),
+        workspaceIds: workspace_ids ?? null,
+        scopes
       })
       .returning();
 
-    const permalink = `${workspace.workspaceUrl}archives/${channel_id}/p${result.ts.replace('.', '')}`;
+    return c.json({
+      success: true,
+      data: {
+        id: apiKey.id,
+        name: apiKey.name,
+        key,
+        workspace_ids: apiKey.workspaceIds,
+        scopes: apiKey.scopes,
+        created_at: apiKey.createdAt.toISOString()
+      }
+    }, 201);
+
+  } catch (error) {
+    return c.json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+app.get("/admin/api-keys", async (c) => {
+  try {
+    const db = drizzle(c.env.DB);
+    const apiKeys = await db.select()
+      .from(schema.apiKeys)
+      .orderBy(desc(schema.apiKeys.createdAt));
+
+    return c.json({
+      success: true,
+      data: apiKeys.map(apiKey => ({
+        id: apiKey.id,
+        name: apiKey.name,
+        key_prefix: apiKey.keyPrefix,
+        workspace_ids: apiKey.workspaceIds,
+        scopes: apiKey.scopes,
+        created_at: apiKey.createdAt.toISOString(),
+        last_used_at: apiKey.lastUsedAt?.toISOString() ?? null,
+        revoked_at: apiKey.revokedAt?.toISOString() ?? null
+      }))
+    });
+
+  } catch (error) {
+    return c.json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+app.delete("/admin/api-keys/:id", async (c) => {
+  try {
+    const db = drizzle(c.env.DB);
+    const [apiKey] = await db.update(schema.apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(schema.apiKeys.id, c.req.param("id")),
+        isNull(schema.apiKeys.revokedAt)
+      ))
+      .returning();
+
+    if (!apiKey) {
+      return c.json({
+        error: "API key not found or already revoked"
+      }, 404);
+    }
 
     return c.json({
       success: true,
       data: {
-        message_id: postedMessage.id,
-        channel_name: channelName,
-        channel_id: channel_id,
-        message_text: message_text,
-        slack_timestamp: result.ts,
-        permalink: permalink,
-        posted_at: new Date().toISOString()
+        id: apiKey.id,
+        revoked_at: apiKey.revokedAt?.toISOString()
       }
     });
 
@@ -635,8 +1343,10 @@ app.post("/api/post-message", async (c) => {
 });
 
 // MCP endpoint
+app.use("/mcp", apiKeyAuth, mcpScopeGuard);
+
 app.all("/mcp", async (c) => {
-  const mcpServer = createMcpServer(c.env);
+  const mcpServer = createMcpServer(c.env, c.var.apiKey, c.executionCtx);
   const transport = new StreamableHTTPTransport();
   
   await mcpServer.connect(transport);
@@ -644,12 +1354,10 @@ app.all("/mcp", async (c) => {
 });
 
 app.get("/openapi.json", c => {
-  return c.json(createOpenAPISpec(app, {
-    info: {
-      title: "Slack MCP Server",
-      version: "1.0.0",
-      description: "MCP server for Slack workspace integration with message posting and retrieval capabilities"
-    },
+  return c.json(createApiSpec(app, {
+    title: "Slack MCP Server",
+    version: "1.0.0",
+    description: "MCP server for Slack workspace integration with message posting and retrieval capabilities"
   }))
 });
 
@@ -658,4 +1366,20 @@ app.use("/fp/*", createFiberplane({
   openapi: { url: "/openapi.json" }
 }));
 
-export default app;
\ No newline at end of file
+// Must match the hourly entry in wrangler.jsonc "triggers.crons"
+const HOURLY_CRON = "0 * * * *";
+
+export default {
+  fetch: app.fetch,
+  // Cron trigger (see wrangler.jsonc) that posts due scheduled messages and digests
+  scheduled: async (controller: ScheduledController, env: Bindings, ctx: ExecutionContext) => {
+    // Hourly trigger checks bot tokens and refreshes the channel and user directory; the
+    // minutely one sends scheduled messages, retries the outbox and sends due digests
+    if (controller.cron === HOURLY_CRON) {
+      ctx.waitUntil(checkAllWorkspaceTokens(env).then(() => syncAllDirectories(env)));
+    } else {
+      ctx.waitUntil(dispatchScheduledMessages(env).then(() => processOutbox(env)));
+      ctx.waitUntil(sendDueDigests(env));
+    }
+  }
+} satisfies ExportedHandler<Bindings>;
\ No newline at end of file
@@ -0,0 +1,306 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, desc, eq, gte } from "drizzle-orm";
+import type { WebClient } from "@slack/web-api";
+import { decodeBase64Url, encodeBase64Url } from "hono/utils/encode";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type SlackMessageEvent = {
+  type: string;
+  subtype?: string;
+  channel?: string;
+  user?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+};
+
+const BROADCAST_PATTERN = /<!(channel|here|everyone)(\|[^>]*)?>/i;
+
+/**
+ * Whether a message notifies the user: a direct mention, an @channel/@here/@everyone
+ * broadcast, or a mention of one of the user groups in `groupIds`.
+ */
+export function isMention(text: string, userId: string, groupIds: string[] = []) {
+  if (text.includes(`<@${userId}>`) || text.includes(`<@${userId}|`) || BROADCAST_PATTERN.test(text)) {
+    return true;
+  }
+
+  return groupIds.some(groupId => text.includes(`<!subteam^${groupId}>`) || text.includes(`<!subteam^${groupId}|`));
+}
+
+export function slackTsToDate(ts: string) {
+  return new Date(Number.parseFloat(ts) * 1000);
+}
+
+/**
+ * Stores an `app_mention` or `message` event if it mentions the workspace user.
+ * Slack delivers both event types for the same message, so duplicates are ignored.
+ * Returns whether the event was a mention.
+ */
+export async function recordMentionEvent(env: Bindings, workspace: Workspace, event: SlackMessageEvent) {
+  if (event.type !== "app_mention" && event.type !== "message") {
+    return false;
+  }
+
+  // Edits and deletions carry the message under a nested field and are not new mentions
+  if (event.subtype === "message_changed" || event.subtype === "message_deleted") {
+    return false;
+  }
+
+  if (!event.channel || !event.ts || !event.text || !isMention(event.text, workspace.userId)) {
+    return false;
+  }
+
+  const db = drizzle(env.DB);
+  await db.insert(schema.mentions)
+    .values({
+      workspaceId: workspace.id,
+      channelId: event.channel,
+      messageTs: event.ts,
+      threadTs: event.thread_ts ?? null,
+      userId: event.user ?? null,
+      messageText: event.text,
+      eventType: event.type,
+      messageAt: slackTsToDate(event.ts)
+    })
+    .onConflictDoNothing();
+
+  return true;
+}
+
+/**
+ * Mentions received through the Events API since `since`, newest first, across all channels
+ * unless `channelId` is given.
+ */
+export async function getStoredMentions(env: Bindings, workspaceId: string, options: {
+  since: Date;
+  limit: number;
+  offset?: number;
+  channelId?: string;
+}) {
+  const db = drizzle(env.DB);
+  return db.select()
+    .from(schema.mentions)
+    .where(and(
+      eq(schema.mentions.workspaceId, workspaceId),
+      gte(schema.mentions.messageAt, options.since),
+      options.channelId ? eq(schema.mentions.channelId, options.channelId) : undefined
+    ))
+    .orderBy(desc(schema.mentions.messageAt), desc(schema.mentions.id))
+    .limit(options.limit)
+    .offset(options.offset ?? 0);
+}
+
+export function encodeCursor(cursor: object) {
+  return encodeBase64Url(new TextEncoder().encode(JSON.stringify(cursor)).buffer);
+}
+
+// Cursors come from clients, so a malformed one is a 400 rather than a server error
+export function decodeCursor<T>(cursor: string): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(decodeBase64Url(cursor)));
+  } catch {
+    throw new ServiceError("Invalid cursor", 400);
+  }
+
+  if (typeof decoded !== "object" || decoded === null || Array.isArray(decoded)) {
+    throw new ServiceError("Invalid cursor", 400);
+  }
+  return decoded as T;
+}
+
+export type MentionMatch = {
+  channelId: string;
+  ts: string;
+  threadTs: string | null;
+  user: string | null;
+  text: string;
+};
+
+// Position of a cross-channel search, returned to clients as an opaque cursor
+type SearchCursor = {
+  oldest: string;
+  // users.conversations page the channel is listed on, when every channel is searched
+  channels?: string;
+  // Unset to start at the first channel of the listed page
+  channel?: string;
+  page?: string;
+  offset: number;
+};
+
+function isOptionalString(value: unknown) {
+  return value === undefined || typeof value === "string";
+}
+
+// Keeps a single page well within the Workers subrequest limit
+const MAX_SLACK_CALLS_PER_PAGE = 40;
+
+// IDs of the user groups the user belongs to. Requires the usergroups:read scope;
+// without it, group mentions are simply not matched.
+async function getUserGroupIds(slack: WebClient, userId: string) {
+  try {
+    const result = await slack.usergroups.list({ include_users: true });
+    return (result.usergroups ?? [])
+      .filter(group => group.id && group.users?.includes(userId))
+      .map(group => group.id as string);
+  } catch {
+    return [];
+  }
+}
+
+// One page of the channels the bot is a member of, read as the search reaches it so a
+// workspace with many channels does not spend the call budget on listing them
+async function listMemberChannelIds(slack: WebClient, cursor: string | undefined) {
+  const result = await slack.users.conversations({
+    types: "public_channel,private_channel",
+    exclude_archived: true,
+    limit: 200,
+    cursor
+  });
+
+  return {
+    channelIds: (result.channels ?? []).flatMap(channel => channel.id ? [channel.id] : []),
+    nextCursor: result.response_metadata?.next_cursor || undefined
+  };
+}
+
+/**
+ * Searches Slack channel history, including thread replies, for messages that notify the
+ * workspace user. Scans `channelId`, or every channel the bot is a member of, and stops once
+ * `limit` mentions are found or the per-page call budget, lowered by `maxCalls` if given, is
+ * spent. `nextCursor` resumes the search where it stopped, and `calls` counts the Slack API
+ * calls made, including the ones listing channels.
+ */
+export async function searchSlackMentions(slack: WebClient, workspace: Workspace, options: {
+  channelId?: string;
+  oldest: number;
+  limit: number;
+  cursor?: string;
+  maxCalls?: number;
+}) {
+  const maxCalls = Math.min(options.maxCalls ?? MAX_SLACK_CALLS_PER_PAGE, MAX_SLACK_CALLS_PER_PAGE);
+  const resume = options.cursor ? decodeCursor<SearchCursor>(options.cursor) : null;
+  if (resume && (typeof resume.oldest !== "string" || !isOptionalString(resume.channels) ||
+      !isOptionalString(resume.channel) || !isOptionalString(resume.page) ||
+      !Number.isInteger(resume.offset) || resume.offset < 0)) {
+    throw new ServiceError("Invalid cursor", 400);
+  }
+  const oldest = resume?.oldest ?? String(options.oldest);
+
+  const groupIds = await getUserGroupIds(slack, workspace.userId);
+  let calls = 1;
+
+  const mentions: MentionMatch[] = [];
+  // Where the search stands; only the resumed channel starts partway through
+  let position: Omit<SearchCursor, "oldest"> = resume ?? { offset: 0 };
+  const stop = (at: Omit<SearchCursor, "oldest">) => ({ mentions, nextCursor: encodeCursor({ oldest, ...at }), calls });
+
+  while (true) {
+    let channelIds = options.channelId ? [options.channelId] : [];
+    let nextChannels: string | undefined;
+    if (!options.channelId) {
+      if (calls >= maxCalls) {
+        return stop(position);
+      }
+      const listed = await listMemberChannelIds(slack, position.channels);
+      calls++;
+      channelIds = listed.channelIds;
+      nextChannels = listed.nextCursor;
+    }
+
+    const start = position.channel ? channelIds.indexOf(position.channel) : 0;
+    if (start === -1) {
+      throw new ServiceError("The channel this cursor points to is no longer available; search again without a cursor", 400);
+    }
+
+    for (let i = start; i < channelIds.length; i++) {
+      const channel = channelIds[i];
+      const { channels } = position;
+      let page = i === start ? position.page : undefined;
+      let offset = i === start ? position.offset : 0;
+
+      do {
+        if (calls >= maxCalls) {
+          return stop({ channels, channel, page, offset });
+        }
+
+        const history = await slack.conversations.history({ channel, oldest, cursor: page, limit: 200 });
+        calls++;
+
+        const messages = history.messages ?? [];
+        for (let m = offset; m < messages.length; m++) {
+          const message = messages[m];
+          if (!message.ts) {
+            continue;
+          }
+
+          // A message and its thread replies are treated as one unit so a page never splits a thread
+          const matches: MentionMatch[] = [];
+          if (isMention(message.text || '', workspace.userId, groupIds)) {
+            matches.push({
+              channelId: channel,
+              ts: message.ts,
+              threadTs: message.thread_ts ?? null,
+              user: message.user ?? null,
+              text: message.text || ''
+            });
+          }
+
+          if (message.reply_count) {
+            if (calls >= maxCalls) {
+              return stop({ channels, channel, page, offset: m });
+            }
+
+            let repliesCursor: string | undefined;
+            do {
+              const replies = await slack.conversations.replies({
+                channel,
+                ts: message.ts,
+                oldest,
+                cursor: repliesCursor,
+                limit: 200
+              });
+              calls++;
+
+              for (const reply of replies.messages ?? []) {
+                if (reply.ts && reply.ts !== message.ts && isMention(reply.text || '', workspace.userId, groupIds)) {
+                  matches.push({
+                    channelId: channel,
+                    ts: reply.ts,
+                    threadTs: message.ts,
+                    user: reply.user ?? null,
+                    text: reply.text || ''
+                  });
+                }
+              }
+              repliesCursor = replies.response_metadata?.next_cursor || undefined;
+            } while (repliesCursor);
+          }
+
+          if (mentions.length > 0 && mentions.length + matches.length > options.limit) {
+            return stop({ channels, channel, page, offset: m });
+          }
+
+          mentions.push(...matches);
+
+          if (mentions.length >= options.limit) {
+            return stop({ channels, channel, page, offset: m + 1 });
+          }
+        }
+
+        page = history.response_metadata?.next_cursor || undefined;
+        offset = 0;
+      } while (page);
+    }
+
+    if (!nextChannels) {
+      return { mentions, nextCursor: null, calls };
+    }
+    position = { channels: nextChannels, offset: 0 };
+  }
+}
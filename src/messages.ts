@@ -0,0 +1,222 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, isNull } from "drizzle-orm";
+import type { ChatPostMessageArguments, KnownBlock } from "@slack/web-api";
+import * as schema from "./db/schema";
+import type { Block } from "./blocks";
+import { getDirectoryNames } from "./directory";
+import { ServiceError } from "./errors";
+import { markdownToMrkdwn } from "./mrkdwn";
+import { SandboxSlackClient } from "./sandbox";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type PostMessageInput = {
+  channelId: string;
+  // Recorded as the channel name instead of looking it up, such as "@alice" for a direct message
+  channelName?: string;
+  // Used as the notification fallback when blocks are given
+  text: string;
+  // Convert text from standard Markdown to Slack mrkdwn before posting
+  markdown?: boolean;
+  blocks?: Block[];
+  threadTs?: string;
+  replyBroadcast?: boolean;
+  unfurlLinks?: boolean;
+  unfurlMedia?: boolean;
+  // Template the message was rendered from by post_template
+  templateId?: string;
+  // Simulate the post instead of sending it to Slack, as a sandbox workspace would
+  dryRun?: boolean;
+};
+
+export function buildPermalink(workspaceUrl: string, channelId: string, ts: string, threadTs?: string | null) {
+  const threadQuery = threadTs && threadTs !== ts ? `?thread_ts=${threadTs}&cid=${channelId}` : '';
+  return `${workspaceUrl}archives/${channelId}/p${ts.replace('.', '')}${threadQuery}`;
+}
+
+export type PostMessageResult =
+  | {
+    ok: true;
+    postedMessage: typeof schema.postedMessages.$inferSelect;
+    channelName: string;
+    permalink: string;
+  }
+  | {
+    ok: false;
+    slackError?: string;
+  };
+
+/**
+ * Posts a message to Slack and records it in posted_messages. Only called by the outbox,
+ * which owns retries, so rate-limited calls fail immediately instead of waiting in the client.
+ */
+export async function postMessage(env: Bindings, workspace: Workspace, input: PostMessageInput): Promise<PostMessageResult> {
+  const db = drizzle(env.DB);
+  const slack = await getSlackClient(env, workspace, {
+    rejectRateLimitedCalls: true,
+    retryConfig: { retries: 0 },
+    simulate: input.dryRun
+  });
+
+  // Channel name from the directory cache, asking Slack only for channels not cached yet
+  const names = input.channelName ? null : await getDirectoryNames(env, workspace.id, { channelIds: [input.channelId] });
+  let channelName = input.channelName ?? names?.channels.get(input.channelId);
+
+  if (!channelName) {
+    const channelInfo = await slack.conversations.info({
+      channel: input.channelId
+    });
+
+    channelName = channelInfo.ok && channelInfo.channel ?
+      channelInfo.channel.name || input.channelId : input.channelId;
+  }
+
+  const text = input.markdown ? markdownToMrkdwn(input.text) : input.text;
+
+  // Post the message. Optional fields are only set when given, to satisfy
+  // the text/blocks and thread/broadcast variants of ChatPostMessageArguments.
+  const result = await slack.chat.postMessage({
+    channel: input.channelId,
+    text,
+    // Validated against blocksSchema by the callers; Slack does the full Block Kit validation
+    ...(input.blocks ? { blocks: input.blocks as KnownBlock[] } : {}),
+    ...(input.threadTs ? { thread_ts: input.threadTs, reply_broadcast: input.replyBroadcast ?? false } : {}),
+    ...(input.unfurlLinks !== undefined ? { unfurl_links: input.unfurlLinks } : {}),
+    ...(input.unfurlMedia !== undefined ? { unfurl_media: input.unfurlMedia } : {})
+  } as ChatPostMessageArguments);
+
+  if (!result.ok || !result.ts) {
+    return { ok: false, slackError: result.error };
+  }
+
+  // Store the posted message in database
+  const [postedMessage] = await db.insert(schema.postedMessages)
+    .values({
+      workspaceId: workspace.id,
+      channelId: input.channelId,
+      channelName: channelName,
+      messageText: text,
+      messageTs: result.ts,
+      threadTs: input.threadTs ?? null,
+      blocks: input.blocks ?? null,
+      slackMessageId: result.message && "client_msg_id" in result.message ? String(result.message.client_msg_id) : null,
+      templateId: input.templateId ?? null,
+      userId: workspace.userId,
+      isSimulated: slack instanceof SandboxSlackClient
+    })
+    .returning();
+
+  const permalink = buildPermalink(workspace.workspaceUrl, input.channelId, result.ts, input.threadTs);
+
+  return { ok: true, postedMessage, channelName, permalink };
+}
+
+type PostedMessage = typeof schema.postedMessages.$inferSelect;
+
+export type ChangeMessageResult = {
+  postedMessage: PostedMessage;
+  permalink: string;
+};
+
+async function findPostedMessage(env: Bindings, workspaceId: string, messageId: string) {
+  const db = drizzle(env.DB);
+  const [postedMessage] = await db.select()
+    .from(schema.postedMessages)
+    .where(and(
+      eq(schema.postedMessages.id, messageId),
+      eq(schema.postedMessages.workspaceId, workspaceId),
+      isNull(schema.postedMessages.deletedAt)
+    ))
+    .limit(1);
+
+  return postedMessage;
+}
+
+/**
+ * Edits a message posted through this server with chat.update, keeping the previous text as a revision.
+ * With `markdown`, the new text is converted to mrkdwn as postMessage does.
+ */
+export async function updateMessage(env: Bindings, workspace: Workspace, messageId: string, newText: string, options: {
+  markdown?: boolean;
+} = {}): Promise<ChangeMessageResult> {
+  const db = drizzle(env.DB);
+  const text = options.markdown ? markdownToMrkdwn(newText) : newText;
+  const postedMessage = await findPostedMessage(env, workspace.id, messageId);
+  if (!postedMessage) {
+    throw new ServiceError("Posted message not found or already deleted", 404);
+  }
+
+  // Simulated posts never reached Slack, so changing them is simulated too
+  const slack = await getSlackClient(env, workspace, { simulate: postedMessage.isSimulated });
+  const result = await slack.chat.update({
+    channel: postedMessage.channelId,
+    ts: postedMessage.messageTs,
+    text
+  });
+
+  if (!result.ok) {
+    throw new ServiceError(`Failed to update message in Slack: ${result.error || 'unknown error'}`, 502);
+  }
+
+  const [, [updatedMessage]] = await db.batch([
+    db.insert(schema.messageRevisions)
+      .values({
+        postedMessageId: postedMessage.id,
+        messageText: postedMessage.messageText,
+        action: "edit"
+      }),
+    db.update(schema.postedMessages)
+      .set({
+        messageText: text,
+        editedAt: new Date()
+      })
+      .where(eq(schema.postedMessages.id, postedMessage.id))
+      .returning()
+  ]);
+
+  const permalink = buildPermalink(workspace.workspaceUrl, postedMessage.channelId, postedMessage.messageTs, postedMessage.threadTs);
+
+  return { postedMessage: updatedMessage, permalink };
+}
+
+/**
+ * Deletes a message posted through this server with chat.delete. The row is marked as deleted
+ * rather than removed, and its final text is kept as a revision.
+ */
+export async function deleteMessage(env: Bindings, workspace: Workspace, messageId: string): Promise<ChangeMessageResult> {
+  const db = drizzle(env.DB);
+  const postedMessage = await findPostedMessage(env, workspace.id, messageId);
+  if (!postedMessage) {
+    throw new ServiceError("Posted message not found or already deleted", 404);
+  }
+
+  // Simulated posts never reached Slack, so changing them is simulated too
+  const slack = await getSlackClient(env, workspace, { simulate: postedMessage.isSimulated });
+  const result = await slack.chat.delete({
+    channel: postedMessage.channelId,
+    ts: postedMessage.messageTs
+  });
+
+  if (!result.ok) {
+    throw new ServiceError(`Failed to delete message in Slack: ${result.error || 'unknown error'}`, 502);
+  }
+
+  const [, [deletedMessage]] = await db.batch([
+    db.insert(schema.messageRevisions)
+      .values({
+        postedMessageId: postedMessage.id,
+        messageText: postedMessage.messageText,
+        action: "delete"
+      }),
+    db.update(schema.postedMessages)
+      .set({ deletedAt: new Date() })
+      .where(eq(schema.postedMessages.id, postedMessage.id))
+      .returning()
+  ]);
+
+  const permalink = buildPermalink(workspace.workspaceUrl, postedMessage.channelId, postedMessage.messageTs, postedMessage.threadTs);
+
+  return { postedMessage: deletedMessage, permalink };
+}
@@ -0,0 +1,50 @@
+/**
+ * Converts standard Markdown to Slack mrkdwn so agents can write the Markdown they are used to.
+ *
+ * Handles fenced and inline code, links, headings, bold, italics, strikethrough, lists and
+ * block quotes. Code and already-converted fragments are swapped for placeholders while the
+ * remaining rules run, so one rule never rewrites another rule's output.
+ */
+export function markdownToMrkdwn(markdown: string) {
+  const fragments: string[] = [];
+  const protect = (fragment: string) => `\u0000${fragments.push(fragment) - 1}\u0000`;
+  const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  // NUL delimits placeholders, so any in the input are dropped rather than mistaken for one
+  let text = markdown.replace(/\r\n/g, "\n").replace(/\u0000/g, "");
+
+  // Code is copied verbatim, minus the fence language
+  text = text.replace(/```[^\n`]*\n([\s\S]*?)```/g, (_, code: string) => protect(`\`\`\`\n${escape(code)}\`\`\``));
+  text = text.replace(/`([^`\n]+)`/g, (_, code: string) => protect(`\`${escape(code)}\``));
+
+  // Links: [label](url) and <https://autolinks>
+  text = text.replace(/\[([^\]\n]+)\]\((\S+?)\)/g, (_, label: string, url: string) => protect(`<${url}|${escape(label)}>`));
+  text = text.replace(/<(https?:\/\/[^>\s]+)>/g, (_, url: string) => protect(`<${url}>`));
+
+  // Slack mention tokens (<@U…>, <#C…>, <!here>) pass through unchanged
+  text = text.replace(/<[@#!][^>\s]+>/g, token => protect(token));
+
+  // Block quotes survive escaping
+  text = text.replace(/^>[ \t]?/gm, () => protect("> "));
+
+  text = escape(text);
+
+  // Headings become bold lines
+  text = text.replace(/^#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm, (_, heading: string) =>
+    protect(`*${heading.replace(/\*\*|__/g, "")}*`));
+
+  // Bullet lists, before emphasis so "* item" is not read as italics
+  text = text.replace(/^([ \t]*)[-*+][ \t]+/gm, (_, indent: string) => `${indent}• `);
+
+  text = text.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, starred?: string, underscored?: string) =>
+    protect(`*${starred ?? underscored}*`));
+  text = text.replace(/(^|[^\w*])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1_$2_");
+  text = text.replace(/~~(.+?)~~/g, "~$1~");
+
+  // Placeholders can nest (e.g. a link inside bold text), but a fragment only ever holds
+  // placeholders created before it, so restoring each one recursively always ends
+  const restore = (fragment: string): string =>
+    fragment.replace(/\u0000(\d+)\u0000/g, (_, index: string) => restore(fragments[Number(index)]));
+
+  return restore(text);
+}
@@ -0,0 +1,165 @@
+import { createOpenAPISpec } from "@fiberplane/hono";
+import type { MiddlewareHandler } from "hono";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/**
+ * OpenAPI documentation for REST routes, built from the same zod schemas the routes validate with.
+ *
+ * Routes opt in by adding `describeRoute(...)` before their handler. createApiSpec starts from
+ * createOpenAPISpec's list of every route and replaces the documented ones with full operations.
+ */
+
+export type RouteDoc = {
+  summary: string;
+  description?: string;
+  tags: string[];
+  // Path parameters are taken from the route path and left out of query and body schemas
+  query?: z.AnyZodObject;
+  body?: z.AnyZodObject;
+  // Media types of a request body read as plain text instead of a JSON body
+  textBody?: string[];
+  // Success responses; the standard error responses are added to every documented route.
+  // contentTypes lists the media types of a response that is not JSON.
+  responses: Record<number, { description: string; schema?: z.ZodTypeAny; contentTypes?: string[] }>;
+};
+
+type Operation = Record<string, unknown>;
+
+const ROUTE_DOC = Symbol("routeDoc");
+
+export const errorResponse = z.object({
+  error: z.string(),
+  details: z.unknown().optional()
+});
+
+// Success envelope used by every /api route
+export function envelope<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.literal(true),
+    data
+  });
+}
+
+const ERROR_RESPONSES: Record<number, string> = {
+  400: "Invalid request",
+  401: "Missing, invalid or revoked API key",
+  403: "API key lacks the required scope or workspace access",
+  404: "Workspace or resource not found",
+  500: "Internal server error"
+};
+
+export function describeRoute(doc: RouteDoc): MiddlewareHandler {
+  const middleware: MiddlewareHandler = async (_c, next) => {
+    await next();
+  };
+  return Object.assign(middleware, { [ROUTE_DOC]: doc });
+}
+
+function toJsonSchema(schema: z.ZodTypeAny) {
+  const { $schema: _, ...jsonSchema } = zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" }) as Record<string, unknown>;
+  return jsonSchema;
+}
+
+function omitKeys(schema: z.AnyZodObject, keys: string[]) {
+  return z.object(Object.fromEntries(Object.entries(schema.shape as z.ZodRawShape).filter(([key]) => !keys.includes(key))));
+}
+
+function buildOperation(doc: RouteDoc, pathParams: string[]): Operation {
+  const parameters = [
+    ...pathParams.map(name => ({
+      name,
+      in: "path",
+      required: true,
+      description: (doc.query?.shape[name] ?? doc.body?.shape[name])?.description,
+      schema: { type: "string" }
+    })),
+    ...Object.entries(doc.query ? omitKeys(doc.query, pathParams).shape as z.ZodRawShape : {}).map(([name, field]) => ({
+      name,
+      in: "query",
+      required: !field.isOptional(),
+      description: field.description,
+      schema: toJsonSchema(field)
+    }))
+  ];
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, response] of Object.entries(doc.responses)) {
+    responses[status] = {
+      description: response.description,
+      ...(response.schema ? { content: { "application/json": { schema: toJsonSchema(response.schema) } } } : {}),
+      ...(response.contentTypes
+        ? { content: Object.fromEntries(response.contentTypes.map(type => [type, { schema: { type: "string" } }])) }
+        : {})
+    };
+  }
+  for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+    responses[status] ??= {
+      description,
+      content: { "application/json": { schema: toJsonSchema(errorResponse) } }
+    };
+  }
+
+  return {
+    summary: doc.summary,
+    ...(doc.description ? { description: doc.description } : {}),
+    tags: doc.tags,
+    security: [{ apiKey: [] }],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(doc.body ? {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toJsonSchema(omitKeys(doc.body, pathParams)) } }
+      }
+    } : {}),
+    ...(doc.textBody ? {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(doc.textBody.map(type => [type, { schema: { type: "string" } }]))
+      }
+    } : {}),
+    responses
+  };
+}
+
+/**
+ * Builds the OpenAPI document for the app, with full request and response schemas for every
+ * route that has a describeRoute() middleware.
+ */
+export function createApiSpec(
+  app: Parameters<typeof createOpenAPISpec>[0],
+  info: { title: string; version: string; description?: string }
+) {
+  const spec = createOpenAPISpec(app, {
+    info,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "API key issued by POST /admin/api-keys"
+        }
+      }
+    }
+  });
+
+  const paths = spec.paths as Record<string, Record<string, Operation>>;
+
+  for (const route of app.routes) {
+    const doc = (route.handler as { [ROUTE_DOC]?: RouteDoc })[ROUTE_DOC];
+    if (!doc) {
+      continue;
+    }
+
+    // Hono path params (/workspaces/:id) become OpenAPI path params (/workspaces/{id})
+    const pathParams = (route.path.match(/:([^/]+)/g) ?? []).map(param => param.slice(1));
+    const openApiPath = pathParams.reduce((path, param) => path.replace(`:${param}`, `{${param}}`), route.path);
+
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [route.method.toLowerCase()]: buildOperation(doc, pathParams)
+    };
+  }
+
+  return spec;
+}
@@ -0,0 +1,482 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, asc, eq, lt, lte } from "drizzle-orm";
+import {
+  ErrorCode,
+  type WebAPIHTTPError,
+  type WebAPIPlatformError,
+  type WebAPIRateLimitedError
+} from "@slack/web-api";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import { buildPermalink, postMessage, type PostMessageInput } from "./messages";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type OutboxMessage = typeof schema.outboxMessages.$inferSelect;
+
+// Attempts before a post is moved to the dead-letter state
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// chat.postMessage is in Slack's "special" rate-limit tier (about one message per second per channel)
+const POST_MESSAGE_TIER = "special";
+
+// Exponential backoff for transient failures: 2s, 4s, 8s, ... capped at 15 minutes
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+// How long a caller waiting for delivery may be held before it gets the outbox ID instead
+const MAX_INLINE_WAIT_MS = 10 * 1000;
+
+// A "sending" row older than this belongs to a Worker that died mid-delivery
+export const STALE_SENDING_MS = 5 * 60 * 1000;
+
+// Due posts retried per cron run; anything left over goes out on the next run
+const PROCESS_BATCH_SIZE = 50;
+
+// Slack error codes worth retrying; any other platform error is permanent
+const RETRYABLE_SLACK_ERRORS = new Set([
+  "ratelimited",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout"
+]);
+
+type DeliveryFailure = {
+  error: string;
+  retryable: boolean;
+  retryAfterMs?: number;
+};
+
+function classifyFailure(error: unknown): DeliveryFailure {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  switch ((error as { code?: unknown } | null)?.code) {
+    case ErrorCode.RateLimitedError:
+      return {
+        error: "Rate limited by Slack",
+        retryable: true,
+        retryAfterMs: (error as WebAPIRateLimitedError).retryAfter * 1000
+      };
+    case ErrorCode.PlatformError: {
+      const slackError = (error as WebAPIPlatformError).data.error;
+      return { error: slackError, retryable: RETRYABLE_SLACK_ERRORS.has(slackError) };
+    }
+    case ErrorCode.HTTPError:
+      return { error: message, retryable: (error as WebAPIHTTPError).statusCode >= 500 };
+    default:
+      // Network errors, token refreshes and anything unexpected are assumed to be transient
+      return { error: message, retryable: true };
+  }
+}
+
+function backoffDelay(failures: number) {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (failures - 1));
+  // Up to 20% jitter so posts blocked together do not all retry in the same instant
+  return delay + Math.floor(Math.random() * delay * 0.2);
+}
+
+// Raised when an idempotency key is reused for a different post
+export class IdempotencyConflictError extends ServiceError {
+  constructor(message: string) {
+    super(message, 409);
+  }
+}
+
+const DEFAULT_IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+
+export function idempotencyWindowMs(env: Bindings) {
+  const seconds = Number.parseInt(env.IDEMPOTENCY_WINDOW_SECONDS ?? '', 10);
+  return (Number.isInteger(seconds) && seconds > 0 ? seconds : DEFAULT_IDEMPOTENCY_WINDOW_SECONDS) * 1000;
+}
+
+export async function hashPayload(input: PostMessageInput) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(input)));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export type EnqueueResult = {
+  outboxMessage: OutboxMessage;
+  // True when an earlier post with the same idempotency key was returned instead
+  replayed: boolean;
+};
+
+async function findByIdempotencyKey(env: Bindings, workspace: Workspace, idempotencyKey: string) {
+  const db = drizzle(env.DB);
+  const [existing] = await db.select()
+    .from(schema.outboxMessages)
+    .where(and(
+      eq(schema.outboxMessages.workspaceId, workspace.id),
+      eq(schema.outboxMessages.idempotencyKey, idempotencyKey)
+    ))
+    .limit(1);
+
+  return existing ?? null;
+}
+
+/**
+ * The post an earlier call made with this idempotency key inside the window, or null when
+ * there is none. Throws IdempotencyConflictError when the key was used for a different payload.
+ */
+export async function findReplayedPost(env: Bindings, workspace: Workspace, input: PostMessageInput, idempotencyKey: string) {
+  const existing = await findByIdempotencyKey(env, workspace, idempotencyKey);
+  if (!existing || existing.createdAt.getTime() <= Date.now() - idempotencyWindowMs(env)) {
+    return null;
+  }
+  if (existing.payloadHash !== await hashPayload(input)) {
+    throw new IdempotencyConflictError(`Idempotency key "${idempotencyKey}" was already used for a different message`);
+  }
+  return existing;
+}
+
+/**
+ * Adds a post to the outbox. It is delivered by deliverOutboxMessage, either right away
+ * by the caller or by the cron trigger.
+ *
+ * With an idempotency key, a retry inside the window returns the original post instead of
+ * adding another, and a different payload under the same key throws IdempotencyConflictError.
+ */
+export async function enqueuePost(
+  env: Bindings,
+  workspace: Workspace,
+  input: PostMessageInput,
+  options: { scheduledMessageId?: string; idempotencyKey?: string } = {}
+): Promise<EnqueueResult> {
+  const db = drizzle(env.DB);
+  const idempotencyKey = options.idempotencyKey;
+  const payloadHash = idempotencyKey ? await hashPayload(input) : null;
+
+  // Two attempts: the second runs when a concurrent request inserted the same key first
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (idempotencyKey) {
+      const replayed = await findReplayedPost(env, workspace, input, idempotencyKey);
+      if (replayed) {
+        return { outboxMessage: replayed, replayed: true };
+      }
+
+      // The key has expired; release it so the new post can take it
+      const existing = await findByIdempotencyKey(env, workspace, idempotencyKey);
+      if (existing) {
+        await db.update(schema.outboxMessages)
+          .set({ idempotencyKey: null })
+          .where(eq(schema.outboxMessages.id, existing.id));
+      }
+    }
+
+    const [outboxMessage] = await db.insert(schema.outboxMessages)
+      .values({
+        workspaceId: workspace.id,
+        channelId: input.channelId,
+        payload: input,
+        nextAttemptAt: new Date(),
+        scheduledMessageId: options.scheduledMessageId ?? null,
+        idempotencyKey: idempotencyKey ?? null,
+        payloadHash
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (outboxMessage) {
+      return { outboxMessage, replayed: false };
+    }
+  }
+
+  throw new Error(`Could not enqueue message with idempotency key "${idempotencyKey}"`);
+}
+
+async function findOutboxMessage(env: Bindings, outboxMessageId: string) {
+  const db = drizzle(env.DB);
+  const [outboxMessage] = await db.select()
+    .from(schema.outboxMessages)
+    .where(eq(schema.outboxMessages.id, outboxMessageId))
+    .limit(1);
+
+  return outboxMessage;
+}
+
+/**
+ * Keeps an error thrown by deliverOutboxMessage itself, such as a failed D1 query, on the row
+ * for get_outbox_status. The status is left alone: a post stuck in "sending" is requeued once
+ * it is stale, and Slack errors are already handled by recordFailure.
+ */
+export async function recordDeliveryError(env: Bindings, outboxMessageId: string, error: unknown) {
+  const db = drizzle(env.DB);
+  await db.update(schema.outboxMessages)
+    .set({ lastError: error instanceof Error ? error.message : 'Unknown error' })
+    .where(eq(schema.outboxMessages.id, outboxMessageId));
+}
+
+async function recordFailure(env: Bindings, outboxMessage: OutboxMessage, failure: DeliveryFailure) {
+  const db = drizzle(env.DB);
+  const now = new Date();
+  const attempts = outboxMessage.attempts + 1;
+
+  if (!failure.retryable || attempts >= MAX_DELIVERY_ATTEMPTS) {
+    const [deadLetter] = await db.update(schema.outboxMessages)
+      .set({
+        status: "dead_letter",
+        attempts,
+        lastError: failure.error,
+        updatedAt: now
+      })
+      .where(eq(schema.outboxMessages.id, outboxMessage.id))
+      .returning();
+
+    if (outboxMessage.scheduledMessageId) {
+      await db.update(schema.scheduledMessages)
+        .set({
+          status: "failed",
+          error: failure.error,
+          updatedAt: now
+        })
+        .where(eq(schema.scheduledMessages.id, outboxMessage.scheduledMessageId));
+    }
+
+    return deadLetter;
+  }
+
+  // Back off the whole tier for this workspace, not just this post
+  const [rateLimit] = await db.select()
+    .from(schema.slackRateLimits)
+    .where(and(
+      eq(schema.slackRateLimits.workspaceId, outboxMessage.workspaceId),
+      eq(schema.slackRateLimits.tier, POST_MESSAGE_TIER)
+    ))
+    .limit(1);
+
+  const failures = (rateLimit?.failures ?? 0) + 1;
+  const retryAt = new Date(now.getTime() + (failure.retryAfterMs ?? backoffDelay(failures)));
+
+  const [, [retrying]] = await db.batch([
+    db.insert(schema.slackRateLimits)
+      .values({
+        workspaceId: outboxMessage.workspaceId,
+        tier: POST_MESSAGE_TIER,
+        failures,
+        retryAt
+      })
+      .onConflictDoUpdate({
+        target: [schema.slackRateLimits.workspaceId, schema.slackRateLimits.tier],
+        set: { failures, retryAt, updatedAt: now }
+      }),
+    db.update(schema.outboxMessages)
+      .set({
+        status: "queued",
+        attempts,
+        nextAttemptAt: retryAt,
+        lastError: failure.error,
+        updatedAt: now
+      })
+      .where(eq(schema.outboxMessages.id, outboxMessage.id))
+      .returning()
+  ]);
+
+  return retrying;
+}
+
+/**
+ * Makes one delivery attempt for a queued post that is due. Posts that are not due, or that
+ * another caller is already sending, are returned unchanged.
+ */
+export async function deliverOutboxMessage(env: Bindings, workspace: Workspace, outboxMessageId: string): Promise<OutboxMessage> {
+  const db = drizzle(env.DB);
+  const now = new Date();
+
+  // Claim the row first so overlapping cron runs and callers cannot send it twice
+  const [claimed] = await db.update(schema.outboxMessages)
+    .set({
+      status: "sending",
+      updatedAt: now
+    })
+    .where(and(
+      eq(schema.outboxMessages.id, outboxMessageId),
+      eq(schema.outboxMessages.status, "queued"),
+      lte(schema.outboxMessages.nextAttemptAt, now)
+    ))
+    .returning();
+
+  if (!claimed) {
+    const outboxMessage = await findOutboxMessage(env, outboxMessageId);
+    if (!outboxMessage) {
+      throw new Error(`Outbox message ${outboxMessageId} not found`);
+    }
+    return outboxMessage;
+  }
+
+  const [rateLimit] = await db.select()
+    .from(schema.slackRateLimits)
+    .where(and(
+      eq(schema.slackRateLimits.workspaceId, workspace.id),
+      eq(schema.slackRateLimits.tier, POST_MESSAGE_TIER)
+    ))
+    .limit(1);
+
+  // The tier is still backing off from an earlier failure; wait without using up an attempt
+  if (rateLimit && rateLimit.retryAt > now) {
+    const [deferred] = await db.update(schema.outboxMessages)
+      .set({
+        status: "queued",
+        nextAttemptAt: rateLimit.retryAt,
+        updatedAt: now
+      })
+      .where(eq(schema.outboxMessages.id, claimed.id))
+      .returning();
+
+    return deferred;
+  }
+
+  let result: Awaited<ReturnType<typeof postMessage>>;
+  try {
+    result = await postMessage(env, workspace, claimed.payload);
+  } catch (error) {
+    return await recordFailure(env, claimed, classifyFailure(error));
+  }
+
+  if (!result.ok) {
+    const slackError = result.slackError || "Failed to post message to Slack";
+    return await recordFailure(env, claimed, {
+      error: slackError,
+      retryable: RETRYABLE_SLACK_ERRORS.has(slackError)
+    });
+  }
+
+  const [sent] = await db.update(schema.outboxMessages)
+    .set({
+      status: "sent",
+      attempts: claimed.attempts + 1,
+      postedMessageId: result.postedMessage.id,
+      lastError: null,
+      sentAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(schema.outboxMessages.id, claimed.id))
+    .returning();
+
+  if (rateLimit) {
+    await db.delete(schema.slackRateLimits)
+      .where(eq(schema.slackRateLimits.id, rateLimit.id));
+  }
+
+  if (claimed.scheduledMessageId) {
+    await db.update(schema.scheduledMessages)
+      .set({
+        postedMessageId: result.postedMessage.id,
+        updatedAt: new Date()
+      })
+      .where(eq(schema.scheduledMessages.id, claimed.scheduledMessageId));
+  }
+
+  return sent;
+}
+
+/**
+ * Delivers a post, retrying in-process while the next attempt falls within a short window.
+ * Returns the post in whatever state it reached; "queued" means the cron trigger will retry it.
+ */
+export async function deliverWithinDeadline(env: Bindings, workspace: Workspace, outboxMessageId: string) {
+  const deadline = Date.now() + MAX_INLINE_WAIT_MS;
+  let outboxMessage = await deliverOutboxMessage(env, workspace, outboxMessageId);
+
+  while (outboxMessage.status === "queued" && outboxMessage.nextAttemptAt.getTime() <= deadline) {
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, outboxMessage.nextAttemptAt.getTime() - Date.now())));
+    outboxMessage = await deliverOutboxMessage(env, workspace, outboxMessageId);
+  }
+
+  return outboxMessage;
+}
+
+export type OutboxStatus = {
+  outboxMessage: OutboxMessage;
+  postedMessage?: typeof schema.postedMessages.$inferSelect;
+  permalink?: string;
+};
+
+/**
+ * Looks up a post in the outbox, with the posted message and its permalink once it is sent.
+ */
+export async function getOutboxStatus(env: Bindings, workspace: Workspace, outboxMessageId: string): Promise<OutboxStatus | undefined> {
+  const db = drizzle(env.DB);
+  const [row] = await db.select({
+    outboxMessage: schema.outboxMessages,
+    postedMessage: schema.postedMessages
+  })
+    .from(schema.outboxMessages)
+    .leftJoin(schema.postedMessages, eq(schema.outboxMessages.postedMessageId, schema.postedMessages.id))
+    .where(and(
+      eq(schema.outboxMessages.id, outboxMessageId),
+      eq(schema.outboxMessages.workspaceId, workspace.id)
+    ))
+    .limit(1);
+
+  if (!row) {
+    return undefined;
+  }
+
+  if (!row.postedMessage) {
+    return { outboxMessage: row.outboxMessage };
+  }
+
+  return {
+    outboxMessage: row.outboxMessage,
+    postedMessage: row.postedMessage,
+    permalink: buildPermalink(workspace.workspaceUrl, row.postedMessage.channelId, row.postedMessage.messageTs, row.postedMessage.threadTs)
+  };
+}
+
+/**
+ * Retries every queued post whose next attempt is due. Called from the Worker's scheduled() cron handler.
+ */
+export async function processOutbox(env: Bindings) {
+  const db = drizzle(env.DB);
+  const now = new Date();
+
+  // Requeue posts left in "sending" by a Worker that stopped mid-delivery. Slack may already
+  // have accepted them, so this trades a possible duplicate for not losing the post.
+  await db.update(schema.outboxMessages)
+    .set({
+      status: "queued",
+      updatedAt: now
+    })
+    .where(and(
+      eq(schema.outboxMessages.status, "sending"),
+      lt(schema.outboxMessages.updatedAt, new Date(now.getTime() - STALE_SENDING_MS))
+    ));
+
+  const due = await db.select({
+    outboxMessage: schema.outboxMessages,
+    workspace: schema.workspaces
+  })
+    .from(schema.outboxMessages)
+    .innerJoin(schema.workspaces, eq(schema.outboxMessages.workspaceId, schema.workspaces.id))
+    .where(and(
+      eq(schema.outboxMessages.status, "queued"),
+      lte(schema.outboxMessages.nextAttemptAt, now)
+    ))
+    .orderBy(asc(schema.outboxMessages.nextAttemptAt))
+    .limit(PROCESS_BATCH_SIZE);
+
+  let sent = 0;
+  let deadLettered = 0;
+
+  for (const { outboxMessage, workspace } of due) {
+    if (!workspace.isActive) {
+      await recordFailure(env, outboxMessage, { error: "Workspace is inactive", retryable: false });
+      deadLettered++;
+      continue;
+    }
+
+    try {
+      const delivered = await deliverOutboxMessage(env, workspace, outboxMessage.id);
+      if (delivered.status === "sent") {
+        sent++;
+      } else if (delivered.status === "dead_letter") {
+        deadLettered++;
+      }
+    } catch (error) {
+      await recordDeliveryError(env, outboxMessage.id, error);
+    }
+  }
+
+  return { sent, deadLettered };
+}
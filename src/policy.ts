@@ -0,0 +1,124 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { collectStrings } from "./blocks";
+import { ServiceError } from "./errors";
+import type { PostMessageInput } from "./messages";
+import type { Bindings } from "./types";
+
+export type PostingPolicy = typeof schema.postingPolicies.$inferSelect;
+
+// Fields set_posting_policy may change; channels are already resolved to IDs
+export type PostingPolicyUpdate = Partial<Pick<PostingPolicy,
+  "allowedChannels" | "deniedChannels" | "approvalChannels" | "maxMessageLength" | "bannedPatterns" | "allowBroadcasts"
+>>;
+
+// @channel, @here and @everyone, as Slack tokens or typed out
+const BROADCAST_PATTERN = /<!(channel|here|everyone)(\|[^>]*)?>|(^|\s)@(channel|here|everyone)\b/i;
+
+// Banned patterns are user-supplied phrases matched as plain text rather than regular
+// expressions, so no pattern can make a check backtrack
+const MAX_PATTERN_LENGTH = 200;
+
+// Raised when a post breaks the workspace's posting policy
+export class PolicyViolationError extends ServiceError {
+  constructor(readonly problems: string[]) {
+    super(`Blocked by the posting policy: ${problems.join("; ")}`, 403, problems);
+  }
+}
+
+export async function getPostingPolicy(env: Bindings, workspaceId: string) {
+  const db = drizzle(env.DB);
+  const [policy] = await db.select()
+    .from(schema.postingPolicies)
+    .where(eq(schema.postingPolicies.workspaceId, workspaceId))
+    .limit(1);
+
+  return policy ?? null;
+}
+
+/**
+ * Creates or updates the workspace's policy. Fields left undefined keep their current value
+ * (or the permissive default for a new policy).
+ */
+export async function savePostingPolicy(env: Bindings, workspaceId: string, update: PostingPolicyUpdate) {
+  for (const pattern of update.bannedPatterns ?? []) {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      throw new ServiceError(`Banned pattern ${pattern} is longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+  }
+
+  const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)) as PostingPolicyUpdate;
+
+  const db = drizzle(env.DB);
+  const [policy] = await db.insert(schema.postingPolicies)
+    .values({
+      workspaceId,
+      allowedChannels: [],
+      deniedChannels: [],
+      approvalChannels: [],
+      bannedPatterns: [],
+      ...changes
+    })
+    .onConflictDoUpdate({
+      target: schema.postingPolicies.workspaceId,
+      set: {
+        ...changes,
+        updatedAt: new Date()
+      }
+    })
+    .returning();
+
+  return policy;
+}
+
+/**
+ * Checks a post against the workspace's policy. Returns "approve" when the channel requires
+ * approval and "send" otherwise; throws PolicyViolationError listing every rule it breaks.
+ * Workspaces without a policy may post anything anywhere. Without a channel ID, only the
+ * rules on the content are checked.
+ */
+export async function checkPost(env: Bindings, workspaceId: string, post: Pick<PostMessageInput, "text" | "blocks"> & {
+  channelId?: string;
+}) {
+  const policy = await getPostingPolicy(env, workspaceId);
+  if (!policy) {
+    return "send";
+  }
+
+  const problems: string[] = [];
+  const { channelId } = post;
+  const requiresApproval = channelId !== undefined && policy.approvalChannels.includes(channelId);
+
+  if (channelId !== undefined) {
+    if (policy.deniedChannels.includes(channelId)) {
+      problems.push(`channel ${channelId} is denied`);
+    } else if (policy.allowedChannels.length > 0 && !policy.allowedChannels.includes(channelId) && !requiresApproval) {
+      problems.push(`channel ${channelId} is not in the allowed channels`);
+    }
+  }
+
+  if (policy.maxMessageLength !== null && post.text.length > policy.maxMessageLength) {
+    problems.push(`message is ${post.text.length} characters, over the limit of ${policy.maxMessageLength}`);
+  }
+
+  const strings = collectStrings([post.text, post.blocks ?? []]);
+  const lowercased = strings.map(text => text.toLowerCase());
+
+  for (const pattern of policy.bannedPatterns) {
+    const phrase = pattern.toLowerCase();
+    if (lowercased.some(text => text.includes(phrase))) {
+      problems.push(`message contains banned pattern ${pattern}`);
+    }
+  }
+
+  if (!policy.allowBroadcasts && strings.some(text => BROADCAST_PATTERN.test(text))) {
+    problems.push("@channel, @here and @everyone are not allowed");
+  }
+
+  if (problems.length > 0) {
+    throw new PolicyViolationError(problems);
+  }
+
+  return requiresApproval ? "approve" : "send";
+}
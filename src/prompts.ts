@@ -0,0 +1,122 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import * as schemas from "./schemas";
+import * as services from "./services";
+import { resourceContents, resourceUris } from "./resources";
+
+/**
+ * MCP prompts for common Slack workflows. Each prompt embeds the resources it needs, read
+ * through the same service operations as the tools, followed by the instructions.
+ */
+
+type PromptMessage = GetPromptResult["messages"][number];
+
+// Prompt arguments always arrive as strings
+const workspaceIdArg = z.string().min(1).describe("Workspace ID from list_workspaces");
+const channelIdArg = z.string().min(1).describe("Channel ID or #channel-name");
+
+function resourceMessage(uri: string, data: object): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "resource", resource: resourceContents(uri, data) }
+  };
+}
+
+function textMessage(text: string): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "text", text }
+  };
+}
+
+export function registerPrompts(server: McpServer, context: services.ServiceContext) {
+  server.prompt(
+    "triage_mentions",
+    "Sort recent mentions by urgency and suggest a next step for each",
+    {
+      workspace_id: workspaceIdArg,
+      days_back: z.string().regex(/^\d+$/, "Expected a number of days").optional().describe("How many days back to look (default 1)")
+    },
+    async ({ workspace_id, days_back }) => {
+      const mentions = await services.getMentions(context, schemas.getMentionsInput.parse({
+        workspace_id,
+        days_back: days_back ? Number(days_back) : undefined,
+        limit: 50
+      }));
+
+      return {
+        description: `Mentions from the last ${days_back ?? 1} day(s)`,
+        messages: [
+          resourceMessage(resourceUris.mentions(workspace_id), mentions),
+          textMessage(
+            "Triage the Slack mentions above. Group them into \"needs a reply\", \"needs action\" and \"FYI\", " +
+            "most urgent first. For each one give the channel, who sent it, a one-line summary, the permalink and " +
+            "a suggested next step. If a reply is needed, offer to draft it in its thread with post_message " +
+            "(thread_ts is the message's thread_ts, or its message_ts when it is not in a thread yet)."
+          )
+        ]
+      };
+    }
+  );
+
+  server.prompt(
+    "draft_thread_reply",
+    "Draft a reply to a Slack thread using the whole conversation as context",
+    {
+      workspace_id: workspaceIdArg,
+      channel_id: channelIdArg,
+      thread_ts: schemas.messageTsSchema.describe("Timestamp of the thread's parent message"),
+      instructions: z.string().optional().describe("What the reply should say or achieve")
+    },
+    async ({ workspace_id, channel_id, thread_ts, instructions }) => {
+      const thread = await services.getThreadReplies(context, schemas.getThreadRepliesInput.parse({
+        workspace_id,
+        channel_id,
+        thread_ts,
+        limit: 100
+      }));
+
+      return {
+        description: `Reply to thread ${thread_ts}${thread.channel_name ? ` in #${thread.channel_name}` : ''}`,
+        messages: [
+          resourceMessage(resourceUris.thread(workspace_id, thread.channel_id, thread_ts), thread),
+          textMessage(
+            `Draft a reply to the Slack thread above.${instructions ? ` The reply should: ${instructions}` : ''} ` +
+            "Match the tone of the conversation, keep it short and answer any open questions addressed to me. " +
+            "Show me the draft first. Once I approve it, post it with post_message using " +
+            `workspace_id ${workspace_id}, channel_id ${thread.channel_id} and thread_ts ${thread_ts}.`
+          )
+        ]
+      };
+    }
+  );
+
+  server.prompt(
+    "summarize_channel",
+    "Summarize recent discussion in a channel",
+    {
+      workspace_id: workspaceIdArg,
+      channel_id: channelIdArg
+    },
+    async ({ workspace_id, channel_id }) => {
+      const history = await services.getChannelHistory(context, schemas.getChannelHistoryInput.parse({
+        workspace_id,
+        channel_id,
+        limit: 100
+      }));
+
+      return {
+        description: `Recent messages${history.channel_name ? ` in #${history.channel_name}` : ''}`,
+        messages: [
+          resourceMessage(resourceUris.history(workspace_id, history.channel_id), history),
+          textMessage(
+            "Summarize the Slack channel history above: the main topics, decisions made, open questions and " +
+            "anything that mentions or needs me. Link to the relevant messages with their permalinks. Threads " +
+            "with many replies can be read through the thread resource if more detail is needed."
+          )
+        ]
+      };
+    }
+  );
+}
@@ -0,0 +1,65 @@
+import { ErrorCode, type WebAPIPlatformError } from "@slack/web-api";
+import type { ClientErrorStatusCode } from "hono/utils/http-status";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// Slack errors that mean the reaction was already in the requested state
+const UNCHANGED_ERRORS = ["already_reacted", "no_reaction"];
+
+// Slack errors caused by the request rather than by Slack, with the status to report them as
+const REQUEST_ERRORS: Record<string, [ClientErrorStatusCode, string]> = {
+  message_not_found: [404, "Message not found in the channel"],
+  channel_not_found: [404, "Channel not found or the bot is not a member"],
+  not_in_channel: [403, "The bot is not a member of the channel"],
+  invalid_name: [400, "Unknown emoji name"],
+  too_many_emoji: [400, "The message already has the maximum number of different reactions"],
+  too_many_reactions: [400, "The message already has the maximum number of reactions"]
+};
+
+// Accepts :thumbsup: as well as thumbsup, and keeps skin tones such as thumbsup::skin-tone-2
+export function normalizeEmojiName(emoji: string) {
+  return emoji.trim().replace(/^:/, '').replace(/:$/, '');
+}
+
+/**
+ * Adds or removes the bot's reaction on a message. Returns whether anything changed: adding a
+ * reaction that is already there, or removing one that is not, succeeds without a change.
+ */
+export async function setReaction(env: Bindings, workspace: Workspace, reaction: {
+  channelId: string;
+  ts: string;
+  name: string;
+  present: boolean;
+}) {
+  const slack = await getSlackClient(env, workspace);
+  const args = { channel: reaction.channelId, timestamp: reaction.ts, name: reaction.name };
+
+  try {
+    if (reaction.present) {
+      await slack.reactions.add(args);
+    } else {
+      await slack.reactions.remove(args);
+    }
+    return { changed: true };
+
+  } catch (error) {
+    if ((error as { code?: unknown } | null)?.code !== ErrorCode.PlatformError) {
+      throw error;
+    }
+
+    const slackError = (error as WebAPIPlatformError).data.error;
+    if (UNCHANGED_ERRORS.includes(slackError)) {
+      return { changed: false };
+    }
+
+    const requestError = REQUEST_ERRORS[slackError];
+    if (requestError) {
+      throw new ServiceError(requestError[1], requestError[0]);
+    }
+    throw error;
+  }
+}
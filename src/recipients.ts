@@ -0,0 +1,119 @@
+import { ErrorCode, type WebAPIPlatformError, type WebClient } from "@slack/web-api";
+import * as schema from "./db/schema";
+import { resolveUserId } from "./directory";
+import { ServiceError } from "./errors";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+type SlackUser = {
+  id?: string;
+  name?: string;
+  deleted?: boolean;
+  is_bot?: boolean;
+  profile?: { display_name?: string; real_name?: string };
+};
+
+export type Recipient = {
+  userId: string;
+  name: string;
+  isBot: boolean;
+  isDeleted: boolean;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function toRecipient(user: SlackUser, fallbackId: string): Recipient {
+  return {
+    userId: user.id ?? fallbackId,
+    name: user.profile?.display_name || user.profile?.real_name || user.name || fallbackId,
+    isBot: user.is_bot ?? false,
+    isDeleted: user.deleted ?? false
+  };
+}
+
+function isPlatformError(error: unknown, ...codes: string[]) {
+  return (error as { code?: unknown } | null)?.code === ErrorCode.PlatformError &&
+    codes.includes((error as WebAPIPlatformError).data.error);
+}
+
+/**
+ * Looks up a user given as an ID, an `@handle` or an email address. Status comes from Slack
+ * rather than the directory cache, so a user deactivated since the last sync is caught.
+ */
+async function lookupRecipient(env: Bindings, workspace: Workspace, slack: WebClient, user: string) {
+  try {
+    if (EMAIL_PATTERN.test(user)) {
+      // Requires the users:read.email scope
+      const found = await slack.users.lookupByEmail({ email: user });
+      return toRecipient(found.user ?? {}, user);
+    }
+
+    const userId = await resolveUserId(env, workspace, user);
+    const info = await slack.users.info({ user: userId });
+    return toRecipient(info.user ?? {}, userId);
+
+  } catch (error) {
+    if (isPlatformError(error, "users_not_found", "user_not_found")) {
+      throw new ServiceError(`No Slack user found for ${user}`, 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Looks up the users for a DM, or a group DM when several are given, dropping duplicates.
+ * Refuses deactivated users and bots unless `allowInactive` is set.
+ */
+export async function findRecipients(env: Bindings, workspace: Workspace, users: string[], options: {
+  allowInactive: boolean;
+}) {
+  const slack = await getSlackClient(env, workspace);
+
+  const recipients: Recipient[] = [];
+  for (const user of users) {
+    const recipient = await lookupRecipient(env, workspace, slack, user);
+    if (!recipients.some(existing => existing.userId === recipient.userId)) {
+      recipients.push(recipient);
+    }
+  }
+
+  if (!options.allowInactive) {
+    const refused = recipients.flatMap(recipient => {
+      if (recipient.isDeleted) {
+        return [`@${recipient.name} is deactivated`];
+      }
+      return recipient.isBot ? [`@${recipient.name} is a bot`] : [];
+    });
+    if (refused.length > 0) {
+      throw new ServiceError(`Not sending: ${refused.join("; ")}. Set allow_inactive to send anyway.`, 422, refused);
+    }
+  }
+
+  return recipients;
+}
+
+// A name for the conversation from the users as the caller gave them, such as
+// "@alice, @U0123456789". Display names are left out so a retry after someone is renamed
+// still hashes to the same payload.
+export function conversationName(users: string[]) {
+  return users.map(user => user.startsWith("@") ? user : `@${user}`).join(", ");
+}
+
+/**
+ * Opens the DM or group DM with the recipients and returns its conversation ID. With
+ * `simulate`, the conversation is not opened and a stand-in ID is returned.
+ */
+export async function openConversation(env: Bindings, workspace: Workspace, recipients: Recipient[], options: {
+  simulate?: boolean;
+}) {
+  const slack = await getSlackClient(env, workspace, { simulate: options.simulate });
+
+  const opened = await slack.conversations.open({ users: recipients.map(recipient => recipient.userId).join(",") });
+  if (!opened.ok || !opened.channel?.id) {
+    throw new ServiceError(`Failed to open the conversation: ${opened.error || 'unknown error'}`, 502);
+  }
+
+  return opened.channel.id;
+}
@@ -0,0 +1,191 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ListResourcesResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import * as schemas from "./schemas";
+import * as services from "./services";
+import { ServiceError } from "./errors";
+
+/**
+ * MCP resources for browsing Slack data and attaching it as context. Reads go through the same
+ * service operations as the tools, so they are scoped and checked like the matching tool call.
+ *
+ * Listings are paged: a resource's JSON has a `next_page` URI (the same URI with `?cursor=`)
+ * whenever more results are available.
+ */
+
+export const resourceUris = {
+  workspaces: () => "slack://workspaces",
+  channels: (workspaceId: string) => `slack://${workspaceId}/channels`,
+  history: (workspaceId: string, channelId: string) => `slack://${workspaceId}/channel/${channelId}/history`,
+  thread: (workspaceId: string, channelId: string, threadTs: string) => `slack://${workspaceId}/channel/${channelId}/thread/${threadTs}`,
+  posted: (workspaceId: string) => `slack://${workspaceId}/posted`,
+  mentions: (workspaceId: string) => `slack://${workspaceId}/mentions`
+};
+
+// Channels listed per workspace under the history template in resources/list
+const LISTED_CHANNELS_PER_WORKSPACE = 100;
+
+/**
+ * The JSON contents of a resource, with a `next_page` URI added to paged results.
+ * Also used by prompts to embed resources in their messages.
+ */
+export function resourceContents(uri: string, data: object & { next_cursor?: string | null }) {
+  const nextPage = data.next_cursor ? `${uri.split('?')[0]}?cursor=${encodeURIComponent(data.next_cursor)}` : null;
+
+  return {
+    uri,
+    mimeType: "application/json",
+    text: JSON.stringify(data.next_cursor !== undefined ? { ...data, next_page: nextPage } : data, null, 2)
+  };
+}
+
+function readResult(uri: URL, data: object): ReadResourceResult {
+  return { contents: [resourceContents(uri.href, data)] };
+}
+
+function variable(variables: Variables, name: string) {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Registers a paged resource twice: at `uriTemplate` for the first page and at
+ * `uriTemplate{?cursor}` for the pages after it. Only the first is listed.
+ */
+function registerPagedResource(
+  server: McpServer,
+  name: string,
+  uriTemplate: string,
+  metadata: { description: string },
+  list: (() => Promise<ListResourcesResult>) | undefined,
+  read: (variables: Variables, cursor: string | undefined) => Promise<object>
+) {
+  server.resource(
+    name,
+    new ResourceTemplate(uriTemplate, { list }),
+    { ...metadata, mimeType: "application/json" },
+    async (uri, variables) => readResult(uri, await read(variables, undefined))
+  );
+
+  server.resource(
+    `${name}_page`,
+    new ResourceTemplate(`${uriTemplate}{?cursor}`, { list: undefined }),
+    { description: `A later page of ${name}`, mimeType: "application/json" },
+    async (uri, variables) => readResult(uri, await read(variables, variable(variables, "cursor")))
+  );
+}
+
+export function registerResources(server: McpServer, context: services.ServiceContext) {
+  // Active workspaces the API key can read; keys without the read scope list nothing
+  const listWorkspaces = async () => {
+    try {
+      const workspaces = await services.listWorkspaces(context);
+      return workspaces.filter(workspace => workspace.is_active);
+    } catch (error) {
+      if (error instanceof ServiceError && error.status === 403) {
+        return [];
+      }
+      throw error;
+    }
+  };
+
+  // One resource per workspace for templates that only take a workspace ID
+  const listPerWorkspace = (name: string, uri: (workspaceId: string) => string) => async () => ({
+    resources: (await listWorkspaces()).map(workspace => ({
+      uri: uri(workspace.id),
+      name: `${workspace.team_name} ${name}`
+    }))
+  });
+
+  server.resource(
+    "workspaces",
+    resourceUris.workspaces(),
+    { description: "Configured Slack workspaces with their IDs, status and last token check", mimeType: "application/json" },
+    async (uri) => readResult(uri, { workspaces: await services.listWorkspaces(context) })
+  );
+
+  registerPagedResource(
+    server,
+    "channels",
+    "slack://{workspace_id}/channels",
+    { description: "Channels in a workspace, from the directory cache, ordered by name" },
+    listPerWorkspace("channels", resourceUris.channels),
+    (variables, cursor) => services.listUserChannels(context, schemas.listUserChannelsInput.parse({
+      workspace_id: variable(variables, "workspace_id"),
+      limit: 100,
+      cursor
+    }))
+  );
+
+  registerPagedResource(
+    server,
+    "channel_history",
+    "slack://{workspace_id}/channel/{channel_id}/history",
+    { description: "Recent top-level messages in a channel, newest first" },
+    async () => {
+      const resources: ListResourcesResult["resources"] = [];
+      for (const workspace of await listWorkspaces()) {
+        try {
+          const { channels } = await services.listUserChannels(context, schemas.listUserChannelsInput.parse({
+            workspace_id: workspace.id,
+            limit: LISTED_CHANNELS_PER_WORKSPACE
+          }));
+
+          // History can only be read from channels the bot is a member of
+          resources.push(...channels.filter(channel => channel.is_member).map(channel => ({
+            uri: resourceUris.history(workspace.id, channel.id),
+            name: `#${channel.name} history (${workspace.team_name})`
+          })));
+        } catch (error) {
+          // One workspace with a failing directory sync should not hide the others
+          console.error(`Listing channel history resources failed for workspace ${workspace.id}:`, error);
+        }
+      }
+      return { resources };
+    },
+    (variables, cursor) => services.getChannelHistory(context, schemas.getChannelHistoryInput.parse({
+      workspace_id: variable(variables, "workspace_id"),
+      channel_id: variable(variables, "channel_id"),
+      cursor
+    }))
+  );
+
+  registerPagedResource(
+    server,
+    "thread",
+    "slack://{workspace_id}/channel/{channel_id}/thread/{thread_ts}",
+    { description: "A thread's parent message and replies, oldest first" },
+    undefined,
+    (variables, cursor) => services.getThreadReplies(context, schemas.getThreadRepliesInput.parse({
+      workspace_id: variable(variables, "workspace_id"),
+      channel_id: variable(variables, "channel_id"),
+      thread_ts: variable(variables, "thread_ts"),
+      cursor
+    }))
+  );
+
+  registerPagedResource(
+    server,
+    "posted_messages",
+    "slack://{workspace_id}/posted",
+    { description: "Messages posted through this server, newest first" },
+    listPerWorkspace("posted messages", resourceUris.posted),
+    (variables, cursor) => services.getPostedMessages(context, schemas.getPostedMessagesInput.parse({
+      workspace_id: variable(variables, "workspace_id"),
+      cursor
+    }))
+  );
+
+  registerPagedResource(
+    server,
+    "mentions",
+    "slack://{workspace_id}/mentions",
+    { description: "Mentions of the workspace user from the last day, newest first" },
+    listPerWorkspace("mentions", resourceUris.mentions),
+    (variables, cursor) => services.getMentions(context, schemas.getMentionsInput.parse({
+      workspace_id: variable(variables, "workspace_id"),
+      limit: 20,
+      cursor
+    }))
+  );
+}
@@ -0,0 +1,118 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, desc, eq } from "drizzle-orm";
+import { WebClient, type WebAPICallResult, type WebClientOptions } from "@slack/web-api";
+import * as schema from "./db/schema";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+type SimulatedResponse = WebAPICallResult & Record<string, unknown>;
+
+// A Slack timestamp for now, with random microseconds so simulated posts in the same second differ
+function fakeTs() {
+  const now = Date.now();
+  const micros = (now % 1000) * 1000 + Math.floor(Math.random() * 1000);
+  return `${Math.floor(now / 1000)}.${String(micros).padStart(6, "0")}`;
+}
+
+/**
+ * A conversation ID in Slack's format, such as D0123456789, for a DM with the given users. Like
+ * Slack, the same users always get the same conversation, so an idempotent retry of a dry-run DM
+ * hashes to the same payload and is replayed.
+ */
+async function fakeConversationId(users: string) {
+  const sorted = users.split(",").map(user => user.trim()).filter(Boolean).sort();
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(sorted.join(",")));
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+  // Several users share a group DM
+  return `${sorted.length > 1 ? "G" : "D"}${hex.slice(0, 10).toUpperCase()}`;
+}
+
+/**
+ * The response Slack would give for a method with side effects, or null for methods that only
+ * read and are sent to Slack as usual.
+ */
+async function simulateResponse(workspace: Workspace, method: string, args: Record<string, unknown>): Promise<SimulatedResponse | null> {
+  switch (method) {
+    case "chat.postMessage": {
+      const ts = fakeTs();
+      return {
+        ok: true,
+        channel: args.channel,
+        ts,
+        message: {
+          type: "message",
+          text: args.text,
+          user: workspace.botId,
+          ts,
+          ...(args.thread_ts ? { thread_ts: args.thread_ts } : {})
+        }
+      };
+    }
+    case "chat.update":
+      return { ok: true, channel: args.channel, ts: args.ts, text: args.text };
+    case "chat.delete":
+      return { ok: true, channel: args.channel, ts: args.ts };
+    case "conversations.open":
+      return { ok: true, channel: { id: await fakeConversationId(String(args.users ?? "")) } };
+    case "reactions.add":
+    case "reactions.remove":
+      return { ok: true };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Slack client for sandbox workspaces and dry runs. Reads go to Slack, while posts, edits,
+ * deletions, reactions and new DMs get a realistic fake response and are recorded in
+ * simulated_calls instead of being sent.
+ */
+export class SandboxSlackClient extends WebClient {
+  private readonly env: Bindings;
+  private readonly workspace: Workspace;
+
+  constructor(env: Bindings, workspace: Workspace, token?: string, options?: WebClientOptions) {
+    super(token, options);
+    this.env = env;
+    this.workspace = workspace;
+  }
+
+  override async apiCall(method: string, options: Record<string, unknown> = {}): Promise<WebAPICallResult> {
+    const response = await simulateResponse(this.workspace, method, options);
+    if (!response) {
+      return super.apiCall(method, options);
+    }
+
+    const db = drizzle(this.env.DB);
+    await db.insert(schema.simulatedCalls)
+      .values({
+        workspaceId: this.workspace.id,
+        method,
+        arguments: options,
+        response
+      });
+
+    return response;
+  }
+}
+
+export type SimulatedCall = typeof schema.simulatedCalls.$inferSelect;
+
+// Reads one row more than the limit, so callers can tell whether another page exists
+export async function listSimulatedCalls(env: Bindings, workspaceId: string, filters: {
+  method?: string;
+  limit: number;
+  offset: number;
+}) {
+  const db = drizzle(env.DB);
+  return await db.select()
+    .from(schema.simulatedCalls)
+    .where(and(
+      eq(schema.simulatedCalls.workspaceId, workspaceId),
+      filters.method ? eq(schema.simulatedCalls.method, filters.method) : undefined
+    ))
+    .orderBy(desc(schema.simulatedCalls.createdAt), desc(schema.simulatedCalls.id))
+    .limit(filters.limit + 1)
+    .offset(filters.offset);
+}
@@ -0,0 +1,133 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, asc, eq, exists, lt, lte, not } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { deliverOutboxMessage, enqueuePost, STALE_SENDING_MS } from "./outbox";
+import { checkPost } from "./policy";
+import type { Bindings } from "./types";
+
+// Due messages sent per cron run; anything left over goes out on the next run
+const DISPATCH_BATCH_SIZE = 50;
+
+async function markFailed(env: Bindings, scheduledMessageId: string, error: string) {
+  const db = drizzle(env.DB);
+  await db.update(schema.scheduledMessages)
+    .set({
+      status: "failed",
+      error,
+      updatedAt: new Date()
+    })
+    .where(eq(schema.scheduledMessages.id, scheduledMessageId));
+}
+
+/**
+ * Hands every pending scheduled message whose post time has passed to the outbox, the same
+ * path post_message uses. Called from the Worker's scheduled() cron handler.
+ */
+export async function dispatchScheduledMessages(env: Bindings) {
+  const db = drizzle(env.DB);
+  const now = new Date();
+
+  // Recover messages left in "sending" by a cron run that stopped mid-dispatch. One that
+  // already reached the outbox is marked sent, since the outbox delivers it; any other
+  // goes back to pending and is dispatched below.
+  const stale = and(
+    eq(schema.scheduledMessages.status, "sending"),
+    lt(schema.scheduledMessages.updatedAt, new Date(now.getTime() - STALE_SENDING_MS))
+  );
+  const queued = exists(db.select({ id: schema.outboxMessages.id })
+    .from(schema.outboxMessages)
+    .where(eq(schema.outboxMessages.scheduledMessageId, schema.scheduledMessages.id)));
+
+  await db.update(schema.scheduledMessages)
+    .set({
+      status: "sent",
+      updatedAt: now
+    })
+    .where(and(stale, queued));
+
+  await db.update(schema.scheduledMessages)
+    .set({
+      status: "pending",
+      updatedAt: now
+    })
+    .where(and(stale, not(queued)));
+
+  const due = await db.select({
+    scheduledMessage: schema.scheduledMessages,
+    workspace: schema.workspaces
+  })
+    .from(schema.scheduledMessages)
+    .innerJoin(schema.workspaces, eq(schema.scheduledMessages.workspaceId, schema.workspaces.id))
+    .where(and(
+      eq(schema.scheduledMessages.status, "pending"),
+      lte(schema.scheduledMessages.postAt, now)
+    ))
+    .orderBy(asc(schema.scheduledMessages.postAt))
+    .limit(DISPATCH_BATCH_SIZE);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const { scheduledMessage, workspace } of due) {
+    // Claim the row by moving it out of "pending" before posting, so a concurrent
+    // cancellation or an overlapping cron run cannot send it a second time
+    const [claimed] = await db.update(schema.scheduledMessages)
+      .set({
+        status: "sending",
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(schema.scheduledMessages.id, scheduledMessage.id),
+        eq(schema.scheduledMessages.status, "pending")
+      ))
+      .returning();
+
+    if (!claimed) {
+      continue;
+    }
+
+    if (!workspace.isActive) {
+      await markFailed(env, scheduledMessage.id, "Workspace is inactive");
+      failed++;
+      continue;
+    }
+
+    try {
+      const post = { channelId: scheduledMessage.channelId, text: scheduledMessage.messageText };
+
+      // The policy may have changed since the message was scheduled
+      if (await checkPost(env, workspace.id, post) === "approve") {
+        await markFailed(env, scheduledMessage.id, `Blocked by the posting policy: channel ${post.channelId} now requires approval`);
+        failed++;
+        continue;
+      }
+
+      // The outbox retries transient failures and marks the scheduled message failed
+      // if the post ends up in the dead-letter state
+      const { outboxMessage } = await enqueuePost(env, workspace, post, { scheduledMessageId: scheduledMessage.id });
+
+      await db.update(schema.scheduledMessages)
+        .set({
+          status: "sent",
+          updatedAt: new Date()
+        })
+        .where(and(
+          eq(schema.scheduledMessages.id, scheduledMessage.id),
+          eq(schema.scheduledMessages.status, "sending")
+        ));
+
+      const delivered = await deliverOutboxMessage(env, workspace, outboxMessage.id);
+      if (delivered.status === "dead_letter") {
+        failed++;
+        continue;
+      }
+      sent++;
+
+    } catch (error) {
+      await markFailed(env, scheduledMessage.id, error instanceof Error ? error.message : 'Unknown error');
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,706 @@
+import { z } from "zod";
+import { blocksSchema } from "./blocks";
+import { AUDIT_OUTCOMES, AUDIT_SOURCES, DIGEST_STATUSES, DIGEST_WEEKDAYS, DRAFT_STATUSES, OUTBOX_STATUSES, SCHEDULED_MESSAGE_STATUSES, TEMPLATE_VARIABLE_TYPES, WORKSPACE_MODES } from "./db/schema";
+
+/**
+ * Inputs and results of the service layer. MCP tools register the input shapes as their
+ * parameters, and the REST API validates requests and documents its OpenAPI schemas with
+ * the same objects, so the two surfaces accept and describe exactly the same fields.
+ */
+
+const workspaceId = z.string().min(1).describe("Unique workspace ID from configure_workspace");
+const timestamp = z.string().datetime();
+export const messageTsSchema = z.string().regex(/^\d+\.\d+$/, "Expected a Slack message timestamp such as 1700000000.123456");
+const cursor = z.string().min(1).optional().describe("Continuation cursor returned by a previous call");
+
+// Workspaces
+
+export const configureWorkspaceInput = z.object({
+  bot_token: z.string().min(1).describe("Slack bot token (xoxb-...)"),
+  user_id: z.string().min(1).describe("Your Slack user ID (get from: Click 3 dots > Copy member ID from your Slack profile)"),
+  description: z.string().optional().describe("Optional description for the workspace"),
+  signing_secret: z.string().min(1).optional().describe("Optional Slack app signing secret, needed to receive mentions through the Events API")
+});
+
+export const listWorkspacesInput = z.object({});
+
+export const deactivateWorkspaceInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const reactivateWorkspaceInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const removeWorkspaceInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const setWorkspaceModeInput = z.object({
+  workspace_id: workspaceId,
+  mode: z.enum(WORKSPACE_MODES)
+    .describe("live posts to Slack; sandbox still reads from Slack but only simulates posts, edits, deletions and reactions")
+});
+
+export const workspaceView = z.object({
+  id: z.string(),
+  team_id: z.string(),
+  team_name: z.string(),
+  workspace_url: z.string(),
+  description: z.string().nullable(),
+  is_active: z.boolean(),
+  mode: z.enum(WORKSPACE_MODES),
+  directory_synced_at: timestamp.nullable(),
+  // Result of the last periodic bot token check; token_check_error is null when the token was valid
+  token_checked_at: timestamp.nullable(),
+  token_check_error: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp
+});
+
+export const configureWorkspaceResult = z.object({
+  workspace: workspaceView,
+  // False when an existing workspace with the same Slack team was updated
+  created: z.boolean()
+});
+
+export const removeWorkspaceResult = z.object({
+  workspace: workspaceView,
+  // False when Slack had already revoked the token
+  token_revoked: z.boolean()
+});
+
+// Mentions
+
+export const getMentionsInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).optional().describe("Channel ID or #channel-name to search for mentions. Omit to search every channel the bot is a member of"),
+  days_back: z.number().min(1).max(365).default(1).describe("How many days back to search"),
+  limit: z.number().min(1).max(100).default(5).describe("Maximum number of messages to return"),
+  source: z.enum(["slack", "events"]).default("slack").describe("\"slack\" reads channel history and threads from Slack; \"events\" answers from mentions received through the Events API"),
+  cursor: z.string().min(1).optional().describe("Continuation cursor returned by a previous get_mentions call")
+});
+
+export const mentionView = z.object({
+  // Text with <@U…> and <#C…> tokens replaced by names where known
+  text: z.string(),
+  user_id: z.string().nullable(),
+  user_name: z.string().nullable(),
+  channel_id: z.string(),
+  channel_name: z.string().nullable(),
+  message_ts: z.string(),
+  thread_ts: z.string().nullable(),
+  posted_at: timestamp,
+  permalink: z.string()
+});
+
+export const getMentionsResult = z.object({
+  mentions: z.array(mentionView),
+  next_cursor: z.string().nullable()
+});
+
+// Channels and directory
+
+export const listUserChannelsInput = z.object({
+  workspace_id: workspaceId,
+  limit: z.number().min(1).max(1000).default(10).describe("Maximum number of channels to return"),
+  private_only: z.boolean().default(false).describe("Show only private channels"),
+  name_filter: z.string().optional().describe("Only show channels whose name contains this text"),
+  cursor
+});
+
+export const channelView = z.object({
+  id: z.string(),
+  name: z.string(),
+  is_private: z.boolean(),
+  is_member: z.boolean(),
+  topic: z.string().nullable(),
+  member_count: z.number().int().nullable()
+});
+
+export const listUserChannelsResult = z.object({
+  channels: z.array(channelView),
+  next_cursor: z.string().nullable()
+});
+
+export const syncDirectoryInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const syncDirectoryResult = z.object({
+  channels: z.number().int(),
+  users: z.number().int()
+});
+
+// Posting
+
+// Optional formatting fields accepted by post_message and POST /api/post-message
+export const messageOptionsShape = {
+  thread_ts: messageTsSchema.optional().describe("Timestamp of the parent message, to reply in its thread"),
+  reply_broadcast: z.boolean().optional().describe("Also show the thread reply in the channel (requires thread_ts)"),
+  blocks: blocksSchema.optional().describe("Block Kit blocks to post instead of plain text"),
+  markdown: z.boolean().default(false).describe("Convert message_text from standard Markdown to Slack mrkdwn"),
+  unfurl_links: z.boolean().optional().describe("Unfurl links to text-based content"),
+  unfurl_media: z.boolean().optional().describe("Unfurl links to media content")
+};
+
+export const idempotencyKeySchema = z.string().min(1).max(255)
+  .describe("Unique key for this post. Retrying with the same key returns the original message instead of posting again");
+
+export const dryRunSchema = z.boolean().default(false)
+  .describe("Simulate the post instead of sending it: it is recorded as a simulated message with a fake timestamp");
+
+export const postMessageInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Target channel ID or #channel-name to post message to"),
+  message_text: z.string().min(1).describe("Message content to post (the notification fallback when blocks are given)"),
+  ...messageOptionsShape,
+  wait_for_delivery: z.boolean().default(true)
+    .describe("Wait until Slack accepts the post, retrying briefly if needed. When false, returns an outbox ID right away"),
+  idempotency_key: idempotencyKeySchema.optional(),
+  dry_run: dryRunSchema
+});
+
+export const sendDirectMessageInput = z.object({
+  workspace_id: workspaceId,
+  users: z.array(z.string().min(1)).min(1).max(8)
+    .describe("Recipients as user IDs, @handles or email addresses. Several users get one group DM"),
+  message_text: z.string().min(1).describe("Message content to send (the notification fallback when blocks are given)"),
+  ...messageOptionsShape,
+  allow_inactive: z.boolean().default(false).describe("Send even when a recipient is deactivated or a bot"),
+  wait_for_delivery: z.boolean().default(true)
+    .describe("Wait until Slack accepts the post, retrying briefly if needed. When false, returns an outbox ID right away"),
+  idempotency_key: idempotencyKeySchema.optional(),
+  dry_run: dryRunSchema
+});
+
+export const postedMessageView = z.object({
+  id: z.string(),
+  channel_id: z.string(),
+  channel_name: z.string(),
+  message_text: z.string(),
+  slack_timestamp: z.string(),
+  thread_ts: z.string().nullable(),
+  permalink: z.string(),
+  posted_at: timestamp,
+  edited_at: timestamp.nullable(),
+  deleted_at: timestamp.nullable(),
+  // Template the message was posted from, if any
+  template_id: z.string().nullable(),
+  // True when the post was simulated by a sandbox workspace or a dry run
+  simulated: z.boolean(),
+  // Number of earlier versions kept in message_revisions
+  revisions: z.number().int()
+});
+
+export const outboxView = z.object({
+  id: z.string(),
+  status: z.enum(OUTBOX_STATUSES),
+  channel_id: z.string(),
+  attempts: z.number().int(),
+  max_attempts: z.number().int(),
+  next_attempt_at: timestamp.nullable(),
+  last_error: z.string().nullable(),
+  created_at: timestamp,
+  sent_at: timestamp.nullable(),
+  message: postedMessageView.nullable()
+});
+
+export const draftView = z.object({
+  id: z.string(),
+  status: z.enum(DRAFT_STATUSES),
+  channel_id: z.string(),
+  message_text: z.string(),
+  decided_by: z.string().nullable(),
+  decided_at: timestamp.nullable(),
+  // Set once the draft is approved and handed to the outbox
+  outbox_id: z.string().nullable(),
+  created_at: timestamp
+});
+
+export const postMessageResult = z.object({
+  // True when an earlier post with the same idempotency key was returned
+  replayed: z.boolean(),
+  // Exactly one is set: the outbox entry, or the draft when the channel requires approval
+  outbox: outboxView.nullable(),
+  draft: draftView.nullable()
+});
+
+export const getOutboxStatusInput = z.object({
+  workspace_id: workspaceId,
+  outbox_id: z.string().min(1).describe("Outbox ID returned by post_message")
+});
+
+export const getDraftInput = z.object({
+  workspace_id: workspaceId,
+  draft_id: z.string().min(1).describe("Draft ID returned by post_message for a channel that requires approval")
+});
+
+// Posting policy
+
+const channelList = z.array(z.string().min(1)).max(500);
+
+export const getPostingPolicyInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const setPostingPolicyInput = z.object({
+  workspace_id: workspaceId,
+  allowed_channels: channelList.optional()
+    .describe("Channel IDs or #channel-names the bot may post to. Empty allows every channel that is not denied"),
+  denied_channels: channelList.optional().describe("Channel IDs or #channel-names the bot may never post to"),
+  approval_channels: channelList.optional()
+    .describe("Channel IDs or #channel-names where posts are held until the workspace user approves them in a DM"),
+  max_message_length: z.number().int().min(1).nullable().optional().describe("Longest allowed message text, or null for no limit"),
+  banned_patterns: z.array(z.string().min(1)).max(100).optional()
+    .describe("Phrases of up to 200 characters that may not appear in the text or blocks, ignoring case"),
+  allow_broadcasts: z.boolean().optional().describe("Whether messages may use @channel, @here or @everyone")
+});
+
+export const postingPolicyView = z.object({
+  allowed_channels: z.array(z.string()),
+  denied_channels: z.array(z.string()),
+  approval_channels: z.array(z.string()),
+  max_message_length: z.number().int().nullable(),
+  banned_patterns: z.array(z.string()),
+  allow_broadcasts: z.boolean(),
+  // Null when the workspace has no policy yet and everything is allowed
+  updated_at: timestamp.nullable()
+});
+
+// Mention digest
+
+const timezoneSchema = z.string().min(1).refine(timezone => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Expected an IANA time zone such as Europe/Berlin");
+
+export const configureDigestInput = z.object({
+  workspace_id: workspaceId,
+  enabled: z.boolean().optional().describe("Whether the digest is sent"),
+  send_at: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time such as 09:00").optional()
+    .describe("Local time of day to send the digest, as HH:MM (24-hour)"),
+  timezone: timezoneSchema.optional().describe("IANA time zone for send_at and weekdays, such as Europe/Berlin"),
+  weekdays: z.array(z.enum(DIGEST_WEEKDAYS)).min(1).optional().describe("Days the digest is sent on"),
+  channels: channelList.optional()
+    .describe("Channel IDs or #channel-names to include. Empty includes every channel the bot is a member of")
+});
+
+export const previewDigestInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const digestView = z.object({
+  id: z.string(),
+  digest_date: z.string(),
+  status: z.enum(DIGEST_STATUSES),
+  period_start: timestamp,
+  period_end: timestamp,
+  mention_count: z.number().int(),
+  error: z.string().nullable(),
+  sent_at: timestamp.nullable()
+});
+
+export const digestSettingsView = z.object({
+  enabled: z.boolean(),
+  send_at: z.string(),
+  timezone: z.string(),
+  weekdays: z.array(z.enum(DIGEST_WEEKDAYS)),
+  channel_ids: z.array(z.string()),
+  // Null when the digest has not been configured, so none is sent
+  updated_at: timestamp.nullable(),
+  last_digest: digestView.nullable()
+});
+
+export const previewDigestResult = z.object({
+  settings: digestSettingsView,
+  period_start: timestamp,
+  period_end: timestamp,
+  mention_count: z.number().int(),
+  channel_count: z.number().int(),
+  // More mentions were found than one digest lists, or the search stopped early
+  truncated: z.boolean(),
+  // The preview's Slack call budget ran out before every channel was searched
+  out_of_calls: z.boolean(),
+  // Slack mrkdwn, as it would be sent
+  text: z.string()
+});
+
+// Templates
+
+const templateRef = z.string().min(1).describe("Template ID or name");
+
+export const templateVariableSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names may contain letters, digits and underscores").describe("Name used in {{name}} placeholders"),
+  type: z.enum(TEMPLATE_VARIABLE_TYPES).default("string")
+    .describe("Value type. user and channel accept an ID or name and are posted as a mention"),
+  description: z.string().optional().describe("What the value is for")
+});
+
+// Template blocks may hold placeholders in fields such as URLs, so they are only fully validated once filled in
+const templateBlocksSchema = z.array(z.object({ type: z.string() }).passthrough()).min(1).max(50);
+
+export const createTemplateInput = z.object({
+  workspace_id: workspaceId,
+  name: z.string().min(1).max(100).describe("Unique template name in the workspace"),
+  description: z.string().optional().describe("What the template is for"),
+  text: z.string().min(1).describe("Message text with {{variable}} placeholders (the notification fallback when blocks are given)"),
+  blocks: templateBlocksSchema.optional().describe("Block Kit blocks with {{variable}} placeholders in any string"),
+  markdown: z.boolean().default(false).describe("Convert the text from standard Markdown to Slack mrkdwn when posting"),
+  variables: z.array(templateVariableSchema).max(50).default([]).describe("Variables used by the placeholders")
+});
+
+export const listTemplatesInput = z.object({
+  workspace_id: workspaceId
+});
+
+export const deleteTemplateInput = z.object({
+  workspace_id: workspaceId,
+  template: templateRef
+});
+
+export const templateView = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  text: z.string(),
+  blocks: z.array(z.unknown()).nullable(),
+  markdown: z.boolean(),
+  variables: z.array(z.object({
+    name: z.string(),
+    type: z.enum(TEMPLATE_VARIABLE_TYPES),
+    description: z.string().optional()
+  })),
+  // Messages posted from the template
+  times_used: z.number().int(),
+  last_used_at: timestamp.nullable(),
+  created_at: timestamp
+});
+
+export const postTemplateInput = z.object({
+  workspace_id: workspaceId,
+  template: templateRef,
+  channel_id: z.string().min(1).describe("Target channel ID or #channel-name to post message to"),
+  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}).describe("Value for every template variable, by name"),
+  thread_ts: messageOptionsShape.thread_ts,
+  reply_broadcast: messageOptionsShape.reply_broadcast,
+  unfurl_links: messageOptionsShape.unfurl_links,
+  unfurl_media: messageOptionsShape.unfurl_media,
+  wait_for_delivery: postMessageInput.shape.wait_for_delivery,
+  idempotency_key: idempotencyKeySchema.optional(),
+  dry_run: dryRunSchema
+});
+
+// Editing and history
+
+export const updateMessageInput = z.object({
+  workspace_id: workspaceId,
+  message_id: z.string().min(1).describe("Message ID from post_message or get_posted_messages"),
+  message_text: z.string().min(1).describe("New message content"),
+  markdown: z.boolean().default(false).describe("Convert message_text from standard Markdown to Slack mrkdwn")
+});
+
+export const deleteMessageInput = z.object({
+  workspace_id: workspaceId,
+  message_id: z.string().min(1).describe("Message ID from post_message or get_posted_messages")
+});
+
+export const getPostedMessagesInput = z.object({
+  workspace_id: workspaceId,
+  limit: z.number().min(1).max(100).default(50).describe("Maximum number of messages to return"),
+  cursor
+});
+
+export const getPostedMessagesResult = z.object({
+  messages: z.array(postedMessageView),
+  next_cursor: z.string().nullable()
+});
+
+// Channel history
+
+export const searchPostedMessagesInput = z.object({
+  workspace_id: workspaceId,
+  query: z.string().min(1).max(500)
+    .describe('Words to search for. All must appear; use "double quotes" for an exact phrase and a trailing * for a prefix'),
+  channel_id: z.string().min(1).optional().describe("Only search messages in this channel ID or #channel-name"),
+  user_id: z.string().min(1).optional().describe("Only search messages posted for this Slack user ID or @name"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only search messages posted at or after this ISO 8601 timestamp"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only search messages posted at or before this ISO 8601 timestamp"),
+  // Matches are loaded by ID afterwards, and D1 allows 100 bound parameters per query
+  limit: z.number().min(1).max(50).default(20).describe("Maximum number of messages to return"),
+  cursor
+});
+
+export const searchPostedMessagesResult = z.object({
+  // Best match first; matched terms in the snippet are wrapped in **
+  messages: z.array(postedMessageView.extend({ snippet: z.string() })),
+  next_cursor: z.string().nullable()
+});
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "json"] as const;
+
+export const exportPostedMessagesInput = z.object({
+  workspace_id: workspaceId,
+  format: z.enum(EXPORT_FORMATS).default("csv").describe("csv, ndjson (one JSON record per line) or json (one array)"),
+  channel_id: z.string().min(1).optional().describe("Only export messages in this channel ID or #channel-name"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only export messages posted at or after this ISO 8601 timestamp"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only export messages posted at or before this ISO 8601 timestamp"),
+  include_deleted: z.boolean().default(false).describe("Also export messages deleted from Slack")
+});
+
+// One exported message; imports accept the same record, and ignore id, template_id and permalink
+export const exportedMessageView = postedMessageView.omit({ revisions: true }).extend({
+  user_id: z.string(),
+  blocks: z.array(z.unknown()).nullable()
+});
+
+export const importedMessageSchema = z.object({
+  channel_id: z.string().min(1),
+  channel_name: z.string().min(1).nullish(),
+  message_text: z.string(),
+  slack_timestamp: messageTsSchema,
+  thread_ts: messageTsSchema.nullish(),
+  blocks: z.array(z.record(z.unknown())).nullish(),
+  user_id: z.string().min(1),
+  posted_at: z.string().datetime({ offset: true }),
+  edited_at: z.string().datetime({ offset: true }).nullish(),
+  deleted_at: z.string().datetime({ offset: true }).nullish(),
+  simulated: z.boolean().nullish()
+});
+
+export const importPostedMessagesInput = z.object({
+  workspace_id: workspaceId,
+  format: z.enum(EXPORT_FORMATS).describe("Format of the file being imported, as produced by the export")
+});
+
+export const importPostedMessagesResult = z.object({
+  imported: z.number().int(),
+  // Already in the history: same channel and Slack timestamp
+  skipped: z.number().int(),
+  failed: z.array(z.object({
+    // 1-based position of the record in the file
+    record: z.number().int(),
+    error: z.string()
+  }))
+});
+
+export const getChannelHistoryInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name to read"),
+  limit: z.number().min(1).max(100).default(20).describe("Maximum number of messages to return"),
+  cursor
+});
+
+export const getThreadRepliesInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name of the thread"),
+  thread_ts: messageTsSchema.describe("Timestamp of the thread's parent message"),
+  limit: z.number().min(1).max(100).default(50).describe("Maximum number of messages to return"),
+  cursor
+});
+
+export const channelMessageView = z.object({
+  ts: z.string(),
+  thread_ts: z.string().nullable(),
+  user_id: z.string().nullable(),
+  user_name: z.string().nullable(),
+  // Text with <@U…> and <#C…> tokens replaced by names where known
+  text: z.string(),
+  reply_count: z.number().int(),
+  // Posted by a bot or an app, including this server
+  is_bot: z.boolean(),
+  reactions: z.array(z.object({ name: z.string(), count: z.number().int() })),
+  posted_at: timestamp,
+  permalink: z.string()
+});
+
+export const channelHistoryResult = z.object({
+  channel_id: z.string(),
+  channel_name: z.string().nullable(),
+  messages: z.array(channelMessageView),
+  next_cursor: z.string().nullable()
+});
+
+export const readChannelHistoryInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name to read"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only return messages posted at or after this ISO 8601 timestamp"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only return messages posted at or before this ISO 8601 timestamp"),
+  include_bots: z.boolean().default(true).describe("Include messages posted by bots and apps"),
+  limit: z.number().min(1).max(200).default(50).describe("Maximum number of messages to read from Slack"),
+  cursor
+});
+
+export const getThreadInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name of the thread"),
+  ts: messageTsSchema.describe("Timestamp of the thread's parent message, or of any reply in it")
+});
+
+export const threadResult = channelHistoryResult.omit({ next_cursor: true }).extend({
+  thread_ts: z.string(),
+  // False when the thread was too long to read in full
+  complete: z.boolean()
+});
+
+const reactionShape = {
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name of the message"),
+  ts: messageTsSchema.describe("Timestamp of the message"),
+  emoji: z.string().min(1).max(100).describe("Emoji name, with or without colons, such as eyes or :white_check_mark:")
+};
+
+export const channelStatsInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Channel ID or #channel-name to analyze"),
+  days: z.number().int().min(1).max(90).default(7).describe("Length of the window in days"),
+  until: z.string().datetime({ offset: true }).optional()
+    .describe("End of the window as an ISO 8601 timestamp. Defaults to now, rounded up to the hour"),
+  refresh: z.boolean().default(false).describe("Recompute instead of returning cached stats")
+});
+
+export const channelStatsResult = z.object({
+  channel_id: z.string(),
+  channel_name: z.string().nullable(),
+  since: timestamp,
+  until: timestamp,
+  // Top-level messages plus the thread replies that were read
+  message_count: z.number().int(),
+  top_level_count: z.number().int(),
+  // Every UTC day of the window, oldest first
+  messages_per_day: z.array(z.object({
+    date: z.string(),
+    messages: z.number().int()
+  })),
+  top_posters: z.array(z.object({
+    user_id: z.string(),
+    user_name: z.string().nullable(),
+    messages: z.number().int()
+  })),
+  threads: z.object({
+    // Top-level messages with at least one reply
+    count: z.number().int(),
+    replies: z.number().int(),
+    median_replies: z.number().nullable(),
+    max_replies: z.number().int()
+  }),
+  mentions: z.object({
+    // Mentions of the workspace user by others
+    count: z.number().int(),
+    // Mentions the user replied to in the thread, directly or through this server
+    answered: z.number().int(),
+    median_response_seconds: z.number().nullable()
+  }),
+  // Messages posted to the channel through this server in the window
+  posted_via_server: z.number().int(),
+  // False when the channel or some threads had more messages than were read
+  complete: z.boolean(),
+  computed_at: timestamp,
+  // True when the result came from the cache
+  cached: z.boolean()
+});
+
+export const addReactionInput = z.object(reactionShape);
+
+export const removeReactionInput = z.object(reactionShape);
+
+export const reactionResult = z.object({
+  channel_id: z.string(),
+  ts: z.string(),
+  emoji: z.string(),
+  // False when the bot's reaction was already there (add) or already gone (remove)
+  changed: z.boolean(),
+  permalink: z.string()
+});
+
+// Scheduled messages
+
+export const scheduleMessageInput = z.object({
+  workspace_id: workspaceId,
+  channel_id: z.string().min(1).describe("Target channel ID or #channel-name to post message to"),
+  message_text: z.string().min(1).describe("Message content to post"),
+  post_at: z.string().datetime({ offset: true }).describe("When to post the message, as an ISO 8601 timestamp (e.g. 2025-01-31T09:00:00+01:00)")
+});
+
+export const listScheduledMessagesInput = z.object({
+  workspace_id: workspaceId,
+  status: z.enum(SCHEDULED_MESSAGE_STATUSES).optional().describe("Only return messages with this status"),
+  limit: z.number().min(1).max(100).default(20).describe("Maximum number of messages to return")
+});
+
+export const cancelScheduledMessageInput = z.object({
+  workspace_id: workspaceId,
+  scheduled_message_id: z.string().min(1).describe("Scheduled message ID from schedule_message")
+});
+
+export const scheduledMessageView = z.object({
+  id: z.string(),
+  channel_id: z.string(),
+  message_text: z.string(),
+  post_at: timestamp,
+  status: z.enum(SCHEDULED_MESSAGE_STATUSES)
+    .describe("pending until due, sending while the cron run hands it to the outbox, then sent, failed or cancelled"),
+  posted_message_id: z.string().nullable(),
+  error: z.string().nullable(),
+  created_at: timestamp
+});
+
+// Audit log
+
+export const queryAuditLogInput = z.object({
+  workspace_id: workspaceId.optional().describe("Only return calls for this workspace"),
+  tool: z.string().min(1).optional().describe("Only return calls of this tool, such as post_message"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only return calls made at or after this ISO 8601 timestamp"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only return calls made at or before this ISO 8601 timestamp"),
+  outcome: z.enum(AUDIT_OUTCOMES).optional().describe("Only return successful calls or only failed ones"),
+  limit: z.number().min(1).max(200).default(50).describe("Maximum number of entries to return"),
+  cursor
+});
+
+export const auditEntryView = z.object({
+  id: z.string(),
+  created_at: timestamp,
+  source: z.enum(AUDIT_SOURCES),
+  tool: z.string(),
+  workspace_id: z.string().nullable(),
+  api_key_id: z.string().nullable(),
+  // Secrets are replaced with "[REDACTED]"
+  arguments: z.unknown(),
+  outcome: z.enum(AUDIT_OUTCOMES),
+  status: z.number().int().nullable(),
+  error: z.string().nullable(),
+  slack_error: z.string().nullable(),
+  latency_ms: z.number().int()
+});
+
+export const queryAuditLogResult = z.object({
+  entries: z.array(auditEntryView),
+  next_cursor: z.string().nullable()
+});
+
+// Sandbox
+
+export const listSimulatedCallsInput = z.object({
+  workspace_id: workspaceId,
+  method: z.string().min(1).optional().describe("Only return calls of this Slack method, such as chat.postMessage"),
+  limit: z.number().min(1).max(200).default(50).describe("Maximum number of calls to return"),
+  cursor
+});
+
+export const simulatedCallView = z.object({
+  id: z.string(),
+  method: z.string(),
+  arguments: z.record(z.unknown()),
+  // The fake response returned instead of Slack's
+  response: z.record(z.unknown()),
+  created_at: timestamp
+});
+
+export const listSimulatedCallsResult = z.object({
+  calls: z.array(simulatedCallView),
+  next_cursor: z.string().nullable()
+});
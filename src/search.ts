@@ -0,0 +1,164 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, gte, inArray, isNull, lte, sql, type SQL } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { ServiceError } from "./errors";
+import type { Bindings } from "./types";
+
+/**
+ * Full-text search over posted_messages.message_text with an SQLite FTS5 index.
+ *
+ * drizzle-kit cannot generate virtual tables or triggers, so the index is created on first use
+ * and filled from the existing rows. Triggers then keep it in sync: rows are indexed on insert,
+ * re-indexed when edited and dropped when deleted or soft-deleted.
+ */
+
+type PostedMessage = typeof schema.postedMessages.$inferSelect;
+
+const SEARCH_INDEX_STATEMENTS = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS posted_messages_fts USING fts5(
+    message_text,
+    content='posted_messages',
+    content_rowid='rowid',
+    tokenize='porter unicode61'
+  )`,
+  `CREATE TRIGGER IF NOT EXISTS posted_messages_fts_insert AFTER INSERT ON posted_messages
+    WHEN new.deleted_at IS NULL
+  BEGIN
+    INSERT INTO posted_messages_fts(rowid, message_text) VALUES (new.rowid, new.message_text);
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS posted_messages_fts_update AFTER UPDATE OF message_text, deleted_at ON posted_messages
+  BEGIN
+    INSERT INTO posted_messages_fts(posted_messages_fts, rowid, message_text)
+      SELECT 'delete', old.rowid, old.message_text WHERE old.deleted_at IS NULL;
+    INSERT INTO posted_messages_fts(rowid, message_text)
+      SELECT new.rowid, new.message_text WHERE new.deleted_at IS NULL;
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS posted_messages_fts_delete AFTER DELETE ON posted_messages
+    WHEN old.deleted_at IS NULL
+  BEGIN
+    INSERT INTO posted_messages_fts(posted_messages_fts, rowid, message_text) VALUES ('delete', old.rowid, old.message_text);
+  END`
+];
+
+// Checked once per isolate; the statements are idempotent if two isolates race
+let searchIndexReady = false;
+
+async function ensureSearchIndex(env: Bindings) {
+  if (searchIndexReady) {
+    return;
+  }
+
+  const db = drizzle(env.DB);
+  const existing = await db.all<{ name: string }>(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'posted_messages_fts'`
+  );
+
+  if (existing.length === 0) {
+    // One batch, so no post can be inserted between filling the index and creating the triggers
+    await db.batch([
+      db.run(sql.raw(SEARCH_INDEX_STATEMENTS[0])),
+      db.run(sql`INSERT INTO posted_messages_fts(rowid, message_text)
+        SELECT rowid, message_text FROM posted_messages WHERE deleted_at IS NULL`),
+      ...SEARCH_INDEX_STATEMENTS.slice(1).map(statement => db.run(sql.raw(statement)))
+    ]);
+  }
+
+  searchIndexReady = true;
+}
+
+// "quoted phrases" match exactly, a trailing * matches a prefix, and every term must appear
+const QUERY_TERM_PATTERN = /"([^"]*)"|(\S+)/g;
+
+/**
+ * Turns a search box query into an FTS5 MATCH expression. Each term is quoted, so FTS5
+ * operators and punctuation in the query are searched for rather than interpreted.
+ */
+export function toMatchExpression(query: string) {
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+  const terms = [...query.matchAll(QUERY_TERM_PATTERN)].flatMap(([, phrase, word]) => {
+    if (phrase !== undefined) {
+      return phrase.trim() ? [quote(phrase.trim())] : [];
+    }
+    return word.length > 1 && word.endsWith("*") ? [`${quote(word.slice(0, -1))}*`] : [quote(word)];
+  });
+
+  if (terms.length === 0) {
+    throw new ServiceError("Search query must contain at least one word or phrase");
+  }
+
+  return terms.join(" ");
+}
+
+// Markers around matched terms in snippets
+export const HIGHLIGHT_START = "**";
+export const HIGHLIGHT_END = "**";
+
+// Tokens of context in a snippet
+const SNIPPET_TOKENS = 16;
+
+export type SearchFilters = {
+  workspaceId: string;
+  channelId?: string;
+  userId?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  offset: number;
+};
+
+export type SearchMatch = {
+  postedMessage: PostedMessage;
+  snippet: string;
+};
+
+/**
+ * Searches a workspace's posted messages, best match first. Deleted messages are not
+ * returned. One match more than `limit` is returned when more exist.
+ */
+export async function searchPostedMessages(env: Bindings, query: string, filters: SearchFilters): Promise<SearchMatch[]> {
+  const match = toMatchExpression(query);
+  await ensureSearchIndex(env);
+
+  const conditions: SQL[] = [
+    eq(schema.postedMessages.workspaceId, filters.workspaceId),
+    isNull(schema.postedMessages.deletedAt)
+  ];
+  if (filters.channelId) {
+    conditions.push(eq(schema.postedMessages.channelId, filters.channelId));
+  }
+  if (filters.userId) {
+    conditions.push(eq(schema.postedMessages.userId, filters.userId));
+  }
+  if (filters.since) {
+    conditions.push(gte(schema.postedMessages.createdAt, filters.since));
+  }
+  if (filters.until) {
+    conditions.push(lte(schema.postedMessages.createdAt, filters.until));
+  }
+
+  const db = drizzle(env.DB);
+  const ranked = await db.all<{ id: string; snippet: string }>(sql`
+    SELECT ${schema.postedMessages.id} AS id,
+      snippet(posted_messages_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS}) AS snippet
+    FROM posted_messages_fts
+    JOIN ${schema.postedMessages} ON ${schema.postedMessages}.rowid = posted_messages_fts.rowid
+    WHERE posted_messages_fts MATCH ${match} AND ${and(...conditions)}
+    ORDER BY bm25(posted_messages_fts), ${schema.postedMessages.createdAt} DESC
+    LIMIT ${filters.limit + 1} OFFSET ${filters.offset}
+  `);
+
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const rows = await db.select()
+    .from(schema.postedMessages)
+    .where(inArray(schema.postedMessages.id, ranked.map(row => row.id)));
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  return ranked.flatMap(row => {
+    const postedMessage = byId.get(row.id);
+    return postedMessage ? [{ postedMessage, snippet: row.snippet }] : [];
+  });
+}
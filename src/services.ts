@@ -0,0 +1,1468 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, count, desc, eq, inArray, isNull, like, max } from "drizzle-orm";
+import type { z } from "zod";
+import * as schema from "./db/schema";
+import * as approvals from "./approvals";
+import * as audit from "./audit";
+import * as digests from "./digest";
+import * as directory from "./directory";
+import * as historyExport from "./export";
+import * as history from "./history";
+import * as messages from "./messages";
+import * as outbox from "./outbox";
+import * as policy from "./policy";
+import * as reactions from "./reactions";
+import * as recipients from "./recipients";
+import * as sandbox from "./sandbox";
+import * as search from "./search";
+import * as stats from "./stats";
+import * as templates from "./templates";
+import type * as schemas from "./schemas";
+import { checkAccess, checkToolAccess, isWorkspaceRestricted, type ApiKey } from "./auth";
+import { ServiceError } from "./errors";
+import {
+  decodeCursor,
+  encodeCursor,
+  getStoredMentions,
+  searchSlackMentions,
+  slackTsToDate,
+  type MentionMatch
+} from "./mentions";
+import { createWebClient, getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+import { checkWorkspaceToken, removeWorkspace as deleteWorkspace, upsertWorkspace } from "./workspaces";
+
+/**
+ * The operations behind both the MCP tools and the REST API. Each function checks the
+ * caller's API key, does the work and returns plain data matching a result schema from
+ * ./schemas; the MCP server turns that into text and the REST API returns it as JSON.
+ */
+
+export type ServiceContext = {
+  env: Bindings;
+  apiKey: ApiKey;
+  executionCtx: ExecutionContext;
+  // Filled in by authorize, so the REST audit log knows which tool a request mirrors
+  trace?: { tool?: string; workspaceId?: string };
+};
+
+type Input<T extends z.ZodTypeAny> = z.infer<T>;
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+type PostedMessage = typeof schema.postedMessages.$inferSelect;
+type ScheduledMessage = typeof schema.scheduledMessages.$inferSelect;
+
+// Operations are named after their MCP tool, whose entry in TOOL_SCOPES sets the required scope
+function authorize(context: ServiceContext, operation: string, workspaceId?: string) {
+  if (context.trace) {
+    context.trace.tool = operation;
+    context.trace.workspaceId = workspaceId;
+  }
+
+  const denied = checkToolAccess(context.apiKey, operation, workspaceId);
+  if (denied) {
+    throw new ServiceError(denied, 403);
+  }
+}
+
+// Any workspace regardless of status, for the lifecycle operations
+async function getWorkspace(env: Bindings, workspaceId: string) {
+  const db = drizzle(env.DB);
+  const [workspace] = await db.select()
+    .from(schema.workspaces)
+    .where(eq(schema.workspaces.id, workspaceId))
+    .limit(1);
+
+  if (!workspace) {
+    throw new ServiceError("Workspace not found", 404);
+  }
+
+  return workspace;
+}
+
+async function getActiveWorkspace(env: Bindings, workspaceId: string) {
+  const db = drizzle(env.DB);
+  const [workspace] = await db.select()
+    .from(schema.workspaces)
+    .where(and(
+      eq(schema.workspaces.id, workspaceId),
+      eq(schema.workspaces.isActive, true)
+    ))
+    .limit(1);
+
+  if (!workspace) {
+    throw new ServiceError("Workspace not found or inactive", 404);
+  }
+
+  return workspace;
+}
+
+function toWorkspaceView(workspace: Workspace): z.infer<typeof schemas.workspaceView> {
+  return {
+    id: workspace.id,
+    team_id: workspace.teamId,
+    team_name: workspace.teamName,
+    workspace_url: workspace.workspaceUrl,
+    description: workspace.description,
+    is_active: workspace.isActive,
+    mode: workspace.mode,
+    directory_synced_at: workspace.directorySyncedAt?.toISOString() ?? null,
+    token_checked_at: workspace.tokenCheckedAt?.toISOString() ?? null,
+    token_check_error: workspace.tokenCheckError,
+    created_at: workspace.createdAt.toISOString(),
+    updated_at: workspace.updatedAt.toISOString()
+  };
+}
+
+function toPostedMessageView(workspace: Workspace, message: PostedMessage, revisions = 0): z.infer<typeof schemas.postedMessageView> {
+  return {
+    id: message.id,
+    channel_id: message.channelId,
+    channel_name: message.channelName,
+    message_text: message.messageText,
+    slack_timestamp: message.messageTs,
+    thread_ts: message.threadTs,
+    permalink: messages.buildPermalink(workspace.workspaceUrl, message.channelId, message.messageTs, message.threadTs),
+    posted_at: message.createdAt.toISOString(),
+    edited_at: message.editedAt?.toISOString() ?? null,
+    deleted_at: message.deletedAt?.toISOString() ?? null,
+    template_id: message.templateId,
+    simulated: message.isSimulated,
+    revisions
+  };
+}
+
+function toScheduledMessageView(message: ScheduledMessage): z.infer<typeof schemas.scheduledMessageView> {
+  return {
+    id: message.id,
+    channel_id: message.channelId,
+    message_text: message.messageText,
+    post_at: message.postAt.toISOString(),
+    status: message.status,
+    posted_message_id: message.postedMessageId,
+    error: message.error,
+    created_at: message.createdAt.toISOString()
+  };
+}
+
+// Offset paging for lists read from D1, in the same opaque cursor format as get_mentions
+function readOffset(cursor: string | undefined) {
+  if (!cursor) {
+    return 0;
+  }
+
+  const { offset } = decodeCursor<{ offset?: unknown }>(cursor);
+  if (typeof offset !== "number" || !Number.isSafeInteger(offset) || offset < 0) {
+    throw new ServiceError("Invalid cursor", 400);
+  }
+  return offset;
+}
+
+// Callers fetch one row more than the limit to know whether another page exists
+function nextOffsetCursor(rows: unknown[], limit: number, offset: number) {
+  return rows.length > limit ? encodeCursor({ offset: offset + limit }) : null;
+}
+
+// Number of earlier versions of each posted message
+async function countRevisions(env: Bindings, postedMessageIds: string[]) {
+  if (postedMessageIds.length === 0) {
+    return new Map<string, number>();
+  }
+
+  const db = drizzle(env.DB);
+  const rows = await db.select({
+    postedMessageId: schema.messageRevisions.postedMessageId,
+    revisions: count()
+  })
+    .from(schema.messageRevisions)
+    .where(inArray(schema.messageRevisions.postedMessageId, postedMessageIds))
+    .groupBy(schema.messageRevisions.postedMessageId);
+
+  return new Map(rows.map(row => [row.postedMessageId, row.revisions]));
+}
+
+export async function configureWorkspace(
+  context: ServiceContext,
+  input: Input<typeof schemas.configureWorkspaceInput>
+): Promise<z.infer<typeof schemas.configureWorkspaceResult>> {
+  authorize(context, "configure_workspace");
+
+  // Validate token and get workspace info
+  let authTest;
+  try {
+    authTest = await createWebClient(context.env, input.bot_token).auth.test();
+  } catch (error) {
+    throw new ServiceError(`Invalid bot token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!authTest.ok || !authTest.team || !authTest.team_id || !authTest.url || !authTest.user_id) {
+    throw new ServiceError("Invalid bot token or missing workspace information");
+  }
+
+  const db = drizzle(context.env.DB);
+  const [existingWorkspace] = await db.select()
+    .from(schema.workspaces)
+    .where(eq(schema.workspaces.teamId, authTest.team_id))
+    .limit(1);
+
+  // Workspace-restricted keys may only reconfigure workspaces they already have access to
+  const workspaceDenied = existingWorkspace
+    ? checkAccess(context.apiKey, "manage", existingWorkspace.id)
+    : isWorkspaceRestricted(context.apiKey) ? "API key is not allowed to add new workspaces" : null;
+  if (workspaceDenied) {
+    throw new ServiceError(workspaceDenied, 403);
+  }
+
+  const workspace = await upsertWorkspace(context.env, {
+    teamId: authTest.team_id,
+    teamName: authTest.team,
+    workspaceUrl: authTest.url,
+    botToken: input.bot_token,
+    botId: authTest.user_id,
+    userId: input.user_id,
+    description: input.description ?? null,
+    signingSecret: input.signing_secret
+  });
+
+  return { workspace: toWorkspaceView(workspace), created: !existingWorkspace };
+}
+
+export async function listWorkspaces(context: ServiceContext): Promise<z.infer<typeof schemas.workspaceView>[]> {
+  authorize(context, "list_workspaces");
+
+  // Inactive workspaces are listed too, so their status and last token check can be seen
+  const db = drizzle(context.env.DB);
+  const workspaces = await db.select()
+    .from(schema.workspaces)
+    .where(context.apiKey.workspaceIds !== null ? inArray(schema.workspaces.id, context.apiKey.workspaceIds) : undefined)
+    .orderBy(desc(schema.workspaces.isActive), schema.workspaces.teamName);
+
+  return workspaces.map(toWorkspaceView);
+}
+
+export async function deactivateWorkspace(
+  context: ServiceContext,
+  input: Input<typeof schemas.deactivateWorkspaceInput>
+): Promise<z.infer<typeof schemas.workspaceView>> {
+  authorize(context, "deactivate_workspace", input.workspace_id);
+
+  const db = drizzle(context.env.DB);
+  const [workspace] = await db.update(schema.workspaces)
+    .set({
+      isActive: false,
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(schema.workspaces.id, input.workspace_id),
+      eq(schema.workspaces.isActive, true)
+    ))
+    .returning();
+
+  if (!workspace) {
+    throw new ServiceError("Workspace not found or inactive", 404);
+  }
+
+  return toWorkspaceView(workspace);
+}
+
+/**
+ * Checks the stored bot token with auth.test before marking the workspace active again.
+ * A workspace whose token was revoked has to be configured again or reinstalled instead.
+ */
+export async function reactivateWorkspace(
+  context: ServiceContext,
+  input: Input<typeof schemas.reactivateWorkspaceInput>
+): Promise<z.infer<typeof schemas.workspaceView>> {
+  authorize(context, "reactivate_workspace", input.workspace_id);
+
+  const workspace = await getWorkspace(context.env, input.workspace_id);
+  if (workspace.isActive) {
+    throw new ServiceError("Workspace is already active", 409);
+  }
+
+  const checked = await checkWorkspaceToken(context.env, workspace);
+  if (checked.tokenCheckError) {
+    throw new ServiceError(`Bot token is no longer valid (${checked.tokenCheckError}). Use configure_workspace or reinstall the Slack app to add the workspace again.`);
+  }
+
+  const db = drizzle(context.env.DB);
+  const [reactivated] = await db.update(schema.workspaces)
+    .set({
+      isActive: true,
+      updatedAt: new Date()
+    })
+    .where(eq(schema.workspaces.id, workspace.id))
+    .returning();
+
+  return toWorkspaceView(reactivated);
+}
+
+/**
+ * Switches a workspace between live and sandbox. A sandbox workspace keeps reading from Slack,
+ * but its posts, edits, deletions and reactions are simulated and recorded instead of sent.
+ */
+export async function setWorkspaceMode(
+  context: ServiceContext,
+  input: Input<typeof schemas.setWorkspaceModeInput>
+): Promise<z.infer<typeof schemas.workspaceView>> {
+  authorize(context, "set_workspace_mode", input.workspace_id);
+
+  const db = drizzle(context.env.DB);
+  const [workspace] = await db.update(schema.workspaces)
+    .set({
+      mode: input.mode,
+      updatedAt: new Date()
+    })
+    .where(eq(schema.workspaces.id, input.workspace_id))
+    .returning();
+
+  if (!workspace) {
+    throw new ServiceError("Workspace not found", 404);
+  }
+
+  return toWorkspaceView(workspace);
+}
+
+export async function removeWorkspace(
+  context: ServiceContext,
+  input: Input<typeof schemas.removeWorkspaceInput>
+): Promise<z.infer<typeof schemas.removeWorkspaceResult>> {
+  authorize(context, "remove_workspace", input.workspace_id);
+
+  const workspace = await getWorkspace(context.env, input.workspace_id);
+  const { tokenRevoked } = await deleteWorkspace(context.env, workspace);
+
+  return { workspace: toWorkspaceView(workspace), token_revoked: tokenRevoked };
+}
+
+export async function getMentions(
+  context: ServiceContext,
+  input: Input<typeof schemas.getMentionsInput>
+): Promise<z.infer<typeof schemas.getMentionsResult>> {
+  authorize(context, "get_mentions", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = input.channel_id ? await directory.resolveChannelId(env, workspace, input.channel_id) : undefined;
+
+  // Calculate timestamp for days_back
+  const oldestTimestamp = Math.floor((Date.now() - (input.days_back * 24 * 60 * 60 * 1000)) / 1000);
+
+  let matches: MentionMatch[];
+  let nextCursor: string | null;
+
+  if (input.source === "events") {
+    const offset = readOffset(input.cursor);
+
+    // Fetch one extra row to know whether another page exists
+    const storedMentions = await getStoredMentions(env, workspace.id, {
+      since: new Date(oldestTimestamp * 1000),
+      limit: input.limit + 1,
+      offset,
+      channelId
+    });
+
+    matches = storedMentions.slice(0, input.limit).map(mention => ({
+      channelId: mention.channelId,
+      ts: mention.messageTs,
+      threadTs: mention.threadTs,
+      user: mention.userId,
+      text: mention.messageText
+    }));
+    nextCursor = nextOffsetCursor(storedMentions, input.limit, offset);
+  } else {
+    const slack = await getSlackClient(env, workspace);
+
+    // Without a channel ID, every channel the bot is a member of is searched
+    const result = await searchSlackMentions(slack, workspace, {
+      channelId,
+      oldest: oldestTimestamp,
+      limit: input.limit,
+      cursor: input.cursor
+    });
+
+    matches = result.mentions;
+    nextCursor = result.nextCursor;
+  }
+
+  // Names from the directory cache instead of raw user and channel IDs
+  const referenced = matches.map(match => directory.extractReferencedIds(match.text));
+  const names = await directory.getDirectoryNames(env, workspace.id, {
+    userIds: [...matches.flatMap(match => match.user ? [match.user] : []), ...referenced.flatMap(ids => ids.userIds)],
+    channelIds: [...matches.map(match => match.channelId), ...referenced.flatMap(ids => ids.channelIds)]
+  });
+
+  return {
+    mentions: matches.map(match => ({
+      text: directory.resolveReferences(match.text, names),
+      user_id: match.user,
+      user_name: match.user ? names.users.get(match.user) ?? null : null,
+      channel_id: match.channelId,
+      channel_name: names.channels.get(match.channelId) ?? null,
+      message_ts: match.ts,
+      thread_ts: match.threadTs,
+      posted_at: slackTsToDate(match.ts).toISOString(),
+      permalink: messages.buildPermalink(workspace.workspaceUrl, match.channelId, match.ts, match.threadTs)
+    })),
+    next_cursor: nextCursor
+  };
+}
+
+export async function listUserChannels(
+  context: ServiceContext,
+  input: Input<typeof schemas.listUserChannelsInput>
+): Promise<z.infer<typeof schemas.listUserChannelsResult>> {
+  authorize(context, "list_user_channels", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  await directory.ensureDirectory(context.env, workspace);
+
+  // Read from the directory cache, refreshed hourly and by sync_directory
+  const conditions = [
+    eq(schema.channels.workspaceId, workspace.id),
+    eq(schema.channels.isArchived, false)
+  ];
+  if (input.private_only) {
+    conditions.push(eq(schema.channels.isPrivate, true));
+  }
+  if (input.name_filter) {
+    conditions.push(like(schema.channels.name, `%${input.name_filter.replace(/^#/, '')}%`));
+  }
+
+  const offset = readOffset(input.cursor);
+  const db = drizzle(context.env.DB);
+  const channels = await db.select()
+    .from(schema.channels)
+    .where(and(...conditions))
+    .orderBy(schema.channels.name)
+    .limit(input.limit + 1)
+    .offset(offset);
+
+  return {
+    channels: channels.slice(0, input.limit).map(channel => ({
+      id: channel.channelId,
+      name: channel.name,
+      is_private: channel.isPrivate,
+      is_member: channel.isMember,
+      topic: channel.topic,
+      member_count: channel.memberCount
+    })),
+    next_cursor: nextOffsetCursor(channels, input.limit, offset)
+  };
+}
+
+export async function syncDirectory(
+  context: ServiceContext,
+  input: Input<typeof schemas.syncDirectoryInput>
+): Promise<z.infer<typeof schemas.syncDirectoryResult>> {
+  authorize(context, "sync_directory", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  return await directory.syncDirectory(context.env, workspace);
+}
+
+async function getOutboxView(env: Bindings, workspace: Workspace, outboxMessageId: string): Promise<z.infer<typeof schemas.outboxView>> {
+  const status = await outbox.getOutboxStatus(env, workspace, outboxMessageId);
+  if (!status) {
+    throw new ServiceError("Outbox message not found", 404);
+  }
+
+  const { outboxMessage, postedMessage } = status;
+  return {
+    id: outboxMessage.id,
+    status: outboxMessage.status,
+    channel_id: outboxMessage.channelId,
+    attempts: outboxMessage.attempts,
+    max_attempts: outbox.MAX_DELIVERY_ATTEMPTS,
+    next_attempt_at: outboxMessage.status === "queued" ? outboxMessage.nextAttemptAt.toISOString() : null,
+    last_error: outboxMessage.lastError,
+    created_at: outboxMessage.createdAt.toISOString(),
+    sent_at: outboxMessage.sentAt?.toISOString() ?? null,
+    message: postedMessage ? toPostedMessageView(workspace, postedMessage) : null
+  };
+}
+
+function toDraftView(draft: approvals.MessageDraft): z.infer<typeof schemas.draftView> {
+  return {
+    id: draft.id,
+    status: draft.status,
+    channel_id: draft.channelId,
+    message_text: draft.payload.text,
+    decided_by: draft.decidedBy,
+    decided_at: draft.decidedAt?.toISOString() ?? null,
+    outbox_id: draft.outboxMessageId,
+    created_at: draft.createdAt.toISOString()
+  };
+}
+
+// Delivers a queued post in the background, or within the request when the caller waits for it
+async function deliverPost(
+  context: ServiceContext,
+  workspace: Workspace,
+  outboxMessage: outbox.OutboxMessage,
+  options: { waitForDelivery: boolean; replayed: boolean }
+): Promise<z.infer<typeof schemas.postMessageResult>> {
+  const { env } = context;
+  const { replayed } = options;
+
+  if (!options.waitForDelivery) {
+    context.executionCtx.waitUntil(outbox.deliverOutboxMessage(env, workspace, outboxMessage.id)
+      .catch(error => outbox.recordDeliveryError(env, outboxMessage.id, error)));
+
+    return { replayed, outbox: await getOutboxView(env, workspace, outboxMessage.id), draft: null };
+  }
+
+  await outbox.deliverWithinDeadline(env, workspace, outboxMessage.id);
+  return { replayed, outbox: await getOutboxView(env, workspace, outboxMessage.id), draft: null };
+}
+
+// The result of an earlier post or draft with the same idempotency key, or null when there is none
+async function replayPost(
+  context: ServiceContext,
+  workspace: Workspace,
+  payload: messages.PostMessageInput,
+  options: { waitForDelivery: boolean; idempotencyKey?: string }
+): Promise<z.infer<typeof schemas.postMessageResult> | null> {
+  const { env } = context;
+  if (!options.idempotencyKey) {
+    return null;
+  }
+
+  const draft = await approvals.findReplayedDraft(env, workspace, payload, options.idempotencyKey);
+  if (draft) {
+    return { replayed: true, outbox: null, draft: toDraftView(draft) };
+  }
+
+  const outboxMessage = await outbox.findReplayedPost(env, workspace, payload, options.idempotencyKey);
+  return outboxMessage
+    ? await deliverPost(context, workspace, outboxMessage, { waitForDelivery: options.waitForDelivery, replayed: true })
+    : null;
+}
+
+/**
+ * Checks a post against the posting policy, then adds it to the outbox and, unless the caller
+ * opted out, waits briefly for delivery. Posts to channels that require approval are held as
+ * drafts instead. A retry with the same idempotency key returns the original result.
+ */
+async function sendPost(
+  context: ServiceContext,
+  workspace: Workspace,
+  payload: messages.PostMessageInput,
+  options: { waitForDelivery: boolean; idempotencyKey?: string }
+): Promise<z.infer<typeof schemas.postMessageResult>> {
+  const { env } = context;
+
+  // A retry gets the original result even if the policy has changed since
+  const replay = await replayPost(context, workspace, payload, options);
+  if (replay) {
+    return replay;
+  }
+
+  if (await policy.checkPost(env, workspace.id, payload) === "approve") {
+    const { draft, replayed } = await approvals.requestApproval(env, workspace, payload, { idempotencyKey: options.idempotencyKey });
+    return { replayed, outbox: null, draft: toDraftView(draft) };
+  }
+
+  // Every post goes through the outbox, which retries rate-limited and transient failures
+  const { outboxMessage, replayed } = await outbox.enqueuePost(env, workspace, payload, { idempotencyKey: options.idempotencyKey });
+  return await deliverPost(context, workspace, outboxMessage, { waitForDelivery: options.waitForDelivery, replayed });
+}
+
+// The conversation an earlier draft or post with this idempotency key went to
+async function idempotencyKeyChannelId(env: Bindings, workspaceId: string, idempotencyKey: string) {
+  const db = drizzle(env.DB);
+  const [draft] = await db.select({ channelId: schema.messageDrafts.channelId })
+    .from(schema.messageDrafts)
+    .where(and(eq(schema.messageDrafts.workspaceId, workspaceId), eq(schema.messageDrafts.idempotencyKey, idempotencyKey)))
+    .limit(1);
+  if (draft) {
+    return draft.channelId;
+  }
+
+  const [post] = await db.select({ channelId: schema.outboxMessages.channelId })
+    .from(schema.outboxMessages)
+    .where(and(eq(schema.outboxMessages.workspaceId, workspaceId), eq(schema.outboxMessages.idempotencyKey, idempotencyKey)))
+    .limit(1);
+  return post?.channelId ?? null;
+}
+
+/**
+ * Posts through the outbox. The result reports the outbox status, so "queued" and
+ * "dead_letter" are not errors here. Posts that break the posting policy are rejected with
+ * a 403, and posts to channels that require approval return a pending draft.
+ */
+export async function postMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.postMessageInput>
+): Promise<z.infer<typeof schemas.postMessageResult>> {
+  authorize(context, "post_message", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  if (input.reply_broadcast && !input.thread_ts) {
+    throw new ServiceError("reply_broadcast requires thread_ts");
+  }
+
+  return await sendPost(context, workspace, {
+    channelId: await directory.resolveChannelId(env, workspace, input.channel_id),
+    text: input.message_text,
+    markdown: input.markdown,
+    blocks: input.blocks,
+    threadTs: input.thread_ts,
+    replyBroadcast: input.reply_broadcast,
+    unfurlLinks: input.unfurl_links,
+    unfurlMedia: input.unfurl_media,
+    dryRun: input.dry_run
+  }, { waitForDelivery: input.wait_for_delivery, idempotencyKey: input.idempotency_key });
+}
+
+/**
+ * Opens a DM or group DM with the given users and posts to it like post_message. The post is
+ * recorded under the recipients' names rather than the conversation ID.
+ */
+export async function sendDirectMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.sendDirectMessageInput>
+): Promise<z.infer<typeof schemas.postMessageResult>> {
+  authorize(context, "send_direct_message", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  if (input.reply_broadcast && !input.thread_ts) {
+    throw new ServiceError("reply_broadcast requires thread_ts");
+  }
+
+  const post = (channelId: string): messages.PostMessageInput => ({
+    channelId,
+    channelName: recipients.conversationName(input.users),
+    text: input.message_text,
+    markdown: input.markdown,
+    blocks: input.blocks,
+    threadTs: input.thread_ts,
+    replyBroadcast: input.reply_broadcast,
+    unfurlLinks: input.unfurl_links,
+    unfurlMedia: input.unfurl_media,
+    dryRun: input.dry_run
+  });
+  const options = { waitForDelivery: input.wait_for_delivery, idempotencyKey: input.idempotency_key };
+
+  // A retry is answered from the conversation it went to, without looking up the recipients
+  // or opening a conversation again
+  const previousChannelId = input.idempotency_key
+    ? await idempotencyKeyChannelId(env, workspace.id, input.idempotency_key)
+    : null;
+  const replay = previousChannelId ? await replayPost(context, workspace, post(previousChannelId), options) : null;
+  if (replay) {
+    return replay;
+  }
+
+  const found = await recipients.findRecipients(env, workspace, input.users, { allowInactive: input.allow_inactive });
+
+  // The channel rules need the conversation ID, so only the content is checked before it is opened
+  await policy.checkPost(env, workspace.id, { text: input.message_text, blocks: input.blocks });
+
+  const channelId = await recipients.openConversation(env, workspace, found, { simulate: input.dry_run });
+  return await sendPost(context, workspace, post(channelId), options);
+}
+
+export async function getOutboxStatus(
+  context: ServiceContext,
+  input: Input<typeof schemas.getOutboxStatusInput>
+): Promise<z.infer<typeof schemas.outboxView>> {
+  authorize(context, "get_outbox_status", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  return await getOutboxView(context.env, workspace, input.outbox_id);
+}
+
+export async function getDraft(
+  context: ServiceContext,
+  input: Input<typeof schemas.getDraftInput>
+): Promise<z.infer<typeof schemas.draftView>> {
+  authorize(context, "get_draft", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  const draft = await approvals.getDraft(context.env, workspace.id, input.draft_id);
+  if (!draft) {
+    throw new ServiceError("Draft not found", 404);
+  }
+
+  return toDraftView(draft);
+}
+
+function toPostingPolicyView(postingPolicy: policy.PostingPolicy | null): z.infer<typeof schemas.postingPolicyView> {
+  return {
+    allowed_channels: postingPolicy?.allowedChannels ?? [],
+    denied_channels: postingPolicy?.deniedChannels ?? [],
+    approval_channels: postingPolicy?.approvalChannels ?? [],
+    max_message_length: postingPolicy?.maxMessageLength ?? null,
+    banned_patterns: postingPolicy?.bannedPatterns ?? [],
+    allow_broadcasts: postingPolicy?.allowBroadcasts ?? true,
+    updated_at: postingPolicy?.updatedAt.toISOString() ?? null
+  };
+}
+
+export async function getPostingPolicy(
+  context: ServiceContext,
+  input: Input<typeof schemas.getPostingPolicyInput>
+): Promise<z.infer<typeof schemas.postingPolicyView>> {
+  authorize(context, "get_posting_policy", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  return toPostingPolicyView(await policy.getPostingPolicy(context.env, workspace.id));
+}
+
+/**
+ * Changes the fields given and keeps the rest. Channel names are resolved to IDs so the
+ * policy still applies after a channel is renamed.
+ */
+export async function setPostingPolicy(
+  context: ServiceContext,
+  input: Input<typeof schemas.setPostingPolicyInput>
+): Promise<z.infer<typeof schemas.postingPolicyView>> {
+  authorize(context, "set_posting_policy", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  const resolveChannels = async (channels: string[] | undefined) => channels
+    ? [...new Set(await Promise.all(channels.map(channel => directory.resolveChannelId(env, workspace, channel))))]
+    : undefined;
+
+  const saved = await policy.savePostingPolicy(env, workspace.id, {
+    allowedChannels: await resolveChannels(input.allowed_channels),
+    deniedChannels: await resolveChannels(input.denied_channels),
+    approvalChannels: await resolveChannels(input.approval_channels),
+    maxMessageLength: input.max_message_length,
+    bannedPatterns: input.banned_patterns,
+    allowBroadcasts: input.allow_broadcasts
+  });
+
+  return toPostingPolicyView(saved);
+}
+
+function toDigestView(digest: digests.Digest): z.infer<typeof schemas.digestView> {
+  return {
+    id: digest.id,
+    digest_date: digest.digestDate,
+    status: digest.status,
+    period_start: digest.periodStart.toISOString(),
+    period_end: digest.periodEnd.toISOString(),
+    mention_count: digest.mentionCount,
+    error: digest.error,
+    sent_at: digest.sentAt?.toISOString() ?? null
+  };
+}
+
+function toDigestSettingsView(
+  settings: digests.DigestSettings | null,
+  lastDigest: digests.Digest | null
+): z.infer<typeof schemas.digestSettingsView> {
+  const current = settings ?? { ...digests.DEFAULT_DIGEST_SETTINGS, isEnabled: false };
+
+  return {
+    enabled: current.isEnabled,
+    send_at: current.sendAt,
+    timezone: current.timezone,
+    weekdays: current.weekdays,
+    channel_ids: current.channelIds,
+    updated_at: settings?.updatedAt.toISOString() ?? null,
+    last_digest: lastDigest ? toDigestView(lastDigest) : null
+  };
+}
+
+/**
+ * Changes the digest fields given and keeps the rest. Channel names are resolved to IDs so
+ * the digest keeps its channels after they are renamed.
+ */
+export async function configureDigest(
+  context: ServiceContext,
+  input: Input<typeof schemas.configureDigestInput>
+): Promise<z.infer<typeof schemas.digestSettingsView>> {
+  authorize(context, "configure_digest", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  const channelIds = input.channels
+    ? [...new Set(await Promise.all(input.channels.map(channel => directory.resolveChannelId(env, workspace, channel))))]
+    : undefined;
+
+  const settings = await digests.saveDigestSettings(env, workspace.id, {
+    isEnabled: input.enabled,
+    sendAt: input.send_at,
+    timezone: input.timezone,
+    weekdays: input.weekdays ? [...new Set(input.weekdays)] : undefined,
+    channelIds
+  });
+
+  return toDigestSettingsView(settings, await digests.getLastDigest(env, workspace.id));
+}
+
+/**
+ * The digest that would be sent now, covering the mentions since the last one. Nothing is
+ * sent or recorded.
+ */
+export async function previewDigest(
+  context: ServiceContext,
+  input: Input<typeof schemas.previewDigestInput>
+): Promise<z.infer<typeof schemas.previewDigestResult>> {
+  authorize(context, "preview_digest", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const settings = await digests.getDigestSettings(env, workspace.id);
+  const preview = await digests.previewDigest(env, workspace, settings);
+
+  return {
+    settings: toDigestSettingsView(settings, await digests.getLastDigest(env, workspace.id)),
+    period_start: preview.periodStart.toISOString(),
+    period_end: preview.periodEnd.toISOString(),
+    mention_count: preview.content.mentionCount,
+    channel_count: preview.content.channelCount,
+    truncated: preview.content.truncated,
+    out_of_calls: preview.outOfCalls,
+    text: preview.content.text
+  };
+}
+
+export async function updateMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.updateMessageInput>
+): Promise<z.infer<typeof schemas.postedMessageView>> {
+  authorize(context, "update_message", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  const { postedMessage } = await messages.updateMessage(context.env, workspace, input.message_id, input.message_text, {
+    markdown: input.markdown
+  });
+  const revisions = await countRevisions(context.env, [postedMessage.id]);
+
+  return toPostedMessageView(workspace, postedMessage, revisions.get(postedMessage.id));
+}
+
+export async function deleteMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.deleteMessageInput>
+): Promise<z.infer<typeof schemas.postedMessageView>> {
+  authorize(context, "delete_message", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  const { postedMessage } = await messages.deleteMessage(context.env, workspace, input.message_id);
+  const revisions = await countRevisions(context.env, [postedMessage.id]);
+
+  return toPostedMessageView(workspace, postedMessage, revisions.get(postedMessage.id));
+}
+
+export async function getPostedMessages(
+  context: ServiceContext,
+  input: Input<typeof schemas.getPostedMessagesInput>
+): Promise<z.infer<typeof schemas.getPostedMessagesResult>> {
+  authorize(context, "get_posted_messages", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+
+  const offset = readOffset(input.cursor);
+  const db = drizzle(context.env.DB);
+  const rows = await db.select()
+    .from(schema.postedMessages)
+    .where(eq(schema.postedMessages.workspaceId, workspace.id))
+    .orderBy(desc(schema.postedMessages.createdAt), desc(schema.postedMessages.id))
+    .limit(input.limit + 1)
+    .offset(offset);
+
+  const postedMessages = rows.slice(0, input.limit);
+  const revisions = await countRevisions(context.env, postedMessages.map(message => message.id));
+
+  return {
+    messages: postedMessages.map(message => toPostedMessageView(workspace, message, revisions.get(message.id))),
+    next_cursor: nextOffsetCursor(rows, input.limit, offset)
+  };
+}
+
+/**
+ * Full-text search over the workspace's posted messages, best match first.
+ */
+export async function searchPostedMessages(
+  context: ServiceContext,
+  input: Input<typeof schemas.searchPostedMessagesInput>
+): Promise<z.infer<typeof schemas.searchPostedMessagesResult>> {
+  authorize(context, "search_posted_messages", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  const offset = readOffset(input.cursor);
+  const matches = await search.searchPostedMessages(env, input.query, {
+    workspaceId: workspace.id,
+    channelId: input.channel_id ? await directory.resolveChannelId(env, workspace, input.channel_id) : undefined,
+    userId: input.user_id ? await directory.resolveUserId(env, workspace, input.user_id) : undefined,
+    since: input.since ? new Date(input.since) : undefined,
+    until: input.until ? new Date(input.until) : undefined,
+    limit: input.limit,
+    offset
+  });
+
+  const page = matches.slice(0, input.limit);
+  const revisions = await countRevisions(env, page.map(match => match.postedMessage.id));
+
+  return {
+    messages: page.map(({ postedMessage, snippet }) => ({
+      ...toPostedMessageView(workspace, postedMessage, revisions.get(postedMessage.id)),
+      snippet
+    })),
+    next_cursor: nextOffsetCursor(matches, input.limit, offset)
+  };
+}
+
+/**
+ * Streams the workspace's posted messages as a file, oldest first.
+ */
+export async function exportPostedMessages(
+  context: ServiceContext,
+  input: Input<typeof schemas.exportPostedMessagesInput>
+) {
+  authorize(context, "export_posted_messages", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = input.channel_id ? await directory.resolveChannelId(env, workspace, input.channel_id) : undefined;
+
+  return {
+    body: historyExport.exportPostedMessages(env, workspace, input.format, {
+      channelId,
+      since: input.since ? new Date(input.since) : undefined,
+      until: input.until ? new Date(input.until) : undefined,
+      includeDeleted: input.include_deleted
+    }),
+    contentType: historyExport.EXPORT_CONTENT_TYPES[input.format],
+    filename: `posted-messages-${workspace.id}${channelId ? `-${channelId}` : ''}.${input.format}`
+  };
+}
+
+/**
+ * Restores an export into the workspace's history, skipping messages it already holds.
+ */
+export async function importPostedMessages(
+  context: ServiceContext,
+  input: Input<typeof schemas.importPostedMessagesInput>,
+  body: string
+): Promise<z.infer<typeof schemas.importPostedMessagesResult>> {
+  authorize(context, "import_posted_messages", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  const records = historyExport.parseImportBody(body, input.format);
+
+  return await historyExport.importPostedMessages(context.env, workspace, records);
+}
+
+// Adds user and channel names from the directory cache to messages read from Slack
+async function toChannelHistoryResult(
+  env: Bindings,
+  workspace: Workspace,
+  channelId: string,
+  page: { messages: history.HistoryMessage[]; nextCursor: string | null }
+): Promise<z.infer<typeof schemas.channelHistoryResult>> {
+  const referenced = page.messages.map(message => directory.extractReferencedIds(message.text));
+  const names = await directory.getDirectoryNames(env, workspace.id, {
+    userIds: [...page.messages.flatMap(message => message.user ? [message.user] : []), ...referenced.flatMap(ids => ids.userIds)],
+    channelIds: [channelId, ...referenced.flatMap(ids => ids.channelIds)]
+  });
+
+  return {
+    channel_id: channelId,
+    channel_name: names.channels.get(channelId) ?? null,
+    messages: page.messages.map(message => ({
+      ts: message.ts,
+      thread_ts: message.threadTs,
+      user_id: message.user,
+      user_name: message.user ? names.users.get(message.user) ?? null : null,
+      text: directory.resolveReferences(message.text, names),
+      reply_count: message.replyCount,
+      is_bot: message.isBot,
+      reactions: message.reactions,
+      posted_at: slackTsToDate(message.ts).toISOString(),
+      permalink: messages.buildPermalink(workspace.workspaceUrl, channelId, message.ts, message.threadTs)
+    })),
+    next_cursor: page.nextCursor
+  };
+}
+
+export async function getChannelHistory(
+  context: ServiceContext,
+  input: Input<typeof schemas.getChannelHistoryInput>
+): Promise<z.infer<typeof schemas.channelHistoryResult>> {
+  authorize(context, "get_channel_history", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+
+  const slack = await getSlackClient(env, workspace);
+  const page = await history.getChannelHistory(slack, channelId, { limit: input.limit, cursor: input.cursor });
+
+  return await toChannelHistoryResult(env, workspace, channelId, page);
+}
+
+export async function getThreadReplies(
+  context: ServiceContext,
+  input: Input<typeof schemas.getThreadRepliesInput>
+): Promise<z.infer<typeof schemas.channelHistoryResult>> {
+  authorize(context, "get_thread_replies", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+
+  const slack = await getSlackClient(env, workspace);
+  const page = await history.getThreadReplies(slack, channelId, input.thread_ts, { limit: input.limit, cursor: input.cursor });
+
+  return await toChannelHistoryResult(env, workspace, channelId, page);
+}
+
+/**
+ * One page of a channel's top-level messages, newest first, within an optional time range.
+ */
+export async function readChannelHistory(
+  context: ServiceContext,
+  input: Input<typeof schemas.readChannelHistoryInput>
+): Promise<z.infer<typeof schemas.channelHistoryResult>> {
+  authorize(context, "read_channel_history", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+
+  const slack = await getSlackClient(env, workspace);
+  const page = await history.getChannelHistory(slack, channelId, {
+    limit: input.limit,
+    cursor: input.cursor,
+    oldest: input.since ? new Date(input.since) : undefined,
+    latest: input.until ? new Date(input.until) : undefined,
+    includeBots: input.include_bots
+  });
+
+  return await toChannelHistoryResult(env, workspace, channelId, page);
+}
+
+/**
+ * Activity in a channel over a window of days. Results are cached per window; see ./stats.
+ */
+export async function channelStats(
+  context: ServiceContext,
+  input: Input<typeof schemas.channelStatsInput>
+): Promise<z.infer<typeof schemas.channelStatsResult>> {
+  authorize(context, "channel_stats", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+
+  const window = stats.statsWindow(input.days, input.until ? new Date(input.until) : undefined);
+  const { stats: channel, computedAt, cached } = await stats.getChannelStats(env, workspace, channelId, window, {
+    refresh: input.refresh
+  });
+
+  const names = await directory.getDirectoryNames(env, workspace.id, {
+    userIds: channel.topPosters.map(poster => poster.userId),
+    channelIds: [channelId]
+  });
+
+  return {
+    channel_id: channelId,
+    channel_name: names.channels.get(channelId) ?? null,
+    since: window.start.toISOString(),
+    until: window.end.toISOString(),
+    message_count: channel.messageCount,
+    top_level_count: channel.topLevelCount,
+    messages_per_day: channel.messagesPerDay,
+    top_posters: channel.topPosters.map(poster => ({
+      user_id: poster.userId,
+      user_name: names.users.get(poster.userId) ?? null,
+      messages: poster.messages
+    })),
+    threads: {
+      count: channel.threads.count,
+      replies: channel.threads.replies,
+      median_replies: channel.threads.medianReplies,
+      max_replies: channel.threads.maxReplies
+    },
+    mentions: {
+      count: channel.mentions.count,
+      answered: channel.mentions.answered,
+      median_response_seconds: channel.mentions.medianResponseSeconds
+    },
+    posted_via_server: channel.postedViaServer,
+    complete: channel.complete,
+    computed_at: computedAt.toISOString(),
+    cached
+  };
+}
+
+/**
+ * A whole thread, parent first, found from the parent or any reply.
+ */
+export async function getThread(
+  context: ServiceContext,
+  input: Input<typeof schemas.getThreadInput>
+): Promise<z.infer<typeof schemas.threadResult>> {
+  authorize(context, "get_thread", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+
+  const slack = await getSlackClient(env, workspace);
+  const thread = await history.getThread(slack, channelId, input.ts);
+  const { next_cursor: _, ...result } = await toChannelHistoryResult(env, workspace, channelId, {
+    messages: thread.messages,
+    nextCursor: null
+  });
+
+  return {
+    ...result,
+    thread_ts: thread.threadTs,
+    complete: thread.complete
+  };
+}
+
+async function setReaction(
+  context: ServiceContext,
+  operation: "add_reaction" | "remove_reaction",
+  input: Input<typeof schemas.addReactionInput>
+): Promise<z.infer<typeof schemas.reactionResult>> {
+  authorize(context, operation, input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+  const channelId = await directory.resolveChannelId(env, workspace, input.channel_id);
+  const emoji = reactions.normalizeEmojiName(input.emoji);
+
+  const { changed } = await reactions.setReaction(env, workspace, {
+    channelId,
+    ts: input.ts,
+    name: emoji,
+    present: operation === "add_reaction"
+  });
+
+  return {
+    channel_id: channelId,
+    ts: input.ts,
+    emoji,
+    changed,
+    permalink: messages.buildPermalink(workspace.workspaceUrl, channelId, input.ts)
+  };
+}
+
+export async function addReaction(
+  context: ServiceContext,
+  input: Input<typeof schemas.addReactionInput>
+): Promise<z.infer<typeof schemas.reactionResult>> {
+  return await setReaction(context, "add_reaction", input);
+}
+
+export async function removeReaction(
+  context: ServiceContext,
+  input: Input<typeof schemas.removeReactionInput>
+): Promise<z.infer<typeof schemas.reactionResult>> {
+  return await setReaction(context, "remove_reaction", input);
+}
+
+export async function scheduleMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.scheduleMessageInput>
+): Promise<z.infer<typeof schemas.scheduledMessageView>> {
+  authorize(context, "schedule_message", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+
+  const postAt = new Date(input.post_at);
+  if (postAt.getTime() <= Date.now()) {
+    throw new ServiceError("post_at must be in the future. Use post_message to post right away.");
+  }
+
+  const channelId = await directory.resolveChannelId(context.env, workspace, input.channel_id);
+
+  // Scheduled messages are posted unattended, so there is no one to approve them at post time
+  if (await policy.checkPost(context.env, workspace.id, { channelId, text: input.message_text }) === "approve") {
+    throw new ServiceError(`Channel ${channelId} requires approval. Use post_message when the message should go out.`, 403);
+  }
+
+  const db = drizzle(context.env.DB);
+  const [scheduledMessage] = await db.insert(schema.scheduledMessages)
+    .values({
+      workspaceId: workspace.id,
+      channelId,
+      messageText: input.message_text,
+      postAt
+    })
+    .returning();
+
+  return toScheduledMessageView(scheduledMessage);
+}
+
+export async function listScheduledMessages(
+  context: ServiceContext,
+  input: Input<typeof schemas.listScheduledMessagesInput>
+): Promise<z.infer<typeof schemas.scheduledMessageView>[]> {
+  authorize(context, "list_scheduled_messages", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+
+  const db = drizzle(context.env.DB);
+  const scheduledMessages = await db.select()
+    .from(schema.scheduledMessages)
+    .where(and(
+      eq(schema.scheduledMessages.workspaceId, workspace.id),
+      input.status ? eq(schema.scheduledMessages.status, input.status) : undefined
+    ))
+    .orderBy(desc(schema.scheduledMessages.postAt))
+    .limit(input.limit);
+
+  return scheduledMessages.map(toScheduledMessageView);
+}
+
+export async function cancelScheduledMessage(
+  context: ServiceContext,
+  input: Input<typeof schemas.cancelScheduledMessageInput>
+): Promise<z.infer<typeof schemas.scheduledMessageView>> {
+  authorize(context, "cancel_scheduled_message", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+
+  // Only pending messages can be cancelled
+  const db = drizzle(context.env.DB);
+  const [cancelled] = await db.update(schema.scheduledMessages)
+    .set({
+      status: "cancelled",
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(schema.scheduledMessages.id, input.scheduled_message_id),
+      eq(schema.scheduledMessages.workspaceId, workspace.id),
+      eq(schema.scheduledMessages.status, "pending")
+    ))
+    .returning();
+
+  if (!cancelled) {
+    throw new ServiceError("Scheduled message not found or no longer pending", 404);
+  }
+
+  return toScheduledMessageView(cancelled);
+}
+
+async function toTemplateViews(env: Bindings, rows: templates.MessageTemplate[]): Promise<z.infer<typeof schemas.templateView>[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const db = drizzle(env.DB);
+  const usage = await db.select({
+    templateId: schema.postedMessages.templateId,
+    timesUsed: count(),
+    lastUsedAt: max(schema.postedMessages.createdAt)
+  })
+    .from(schema.postedMessages)
+    .where(inArray(schema.postedMessages.templateId, rows.map(row => row.id)))
+    .groupBy(schema.postedMessages.templateId);
+  const usageById = new Map(usage.map(row => [row.templateId, row]));
+
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    text: row.text,
+    blocks: row.blocks,
+    markdown: row.markdown,
+    variables: row.variables,
+    times_used: usageById.get(row.id)?.timesUsed ?? 0,
+    last_used_at: usageById.get(row.id)?.lastUsedAt?.toISOString() ?? null,
+    created_at: row.createdAt.toISOString()
+  }));
+}
+
+export async function createTemplate(
+  context: ServiceContext,
+  input: Input<typeof schemas.createTemplateInput>
+): Promise<z.infer<typeof schemas.templateView>> {
+  authorize(context, "create_template", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  templates.validateTemplate({ text: input.text, blocks: input.blocks }, input.variables);
+
+  const db = drizzle(context.env.DB);
+  const [template] = await db.insert(schema.messageTemplates)
+    .values({
+      workspaceId: workspace.id,
+      name: input.name,
+      description: input.description ?? null,
+      text: input.text,
+      blocks: input.blocks ?? null,
+      markdown: input.markdown,
+      variables: input.variables
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!template) {
+    throw new ServiceError(`A template named ${input.name} already exists`, 409);
+  }
+
+  const [view] = await toTemplateViews(context.env, [template]);
+  return view;
+}
+
+export async function listTemplates(
+  context: ServiceContext,
+  input: Input<typeof schemas.listTemplatesInput>
+): Promise<z.infer<typeof schemas.templateView>[]> {
+  authorize(context, "list_templates", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+
+  const db = drizzle(context.env.DB);
+  const rows = await db.select()
+    .from(schema.messageTemplates)
+    .where(and(
+      eq(schema.messageTemplates.workspaceId, workspace.id),
+      isNull(schema.messageTemplates.deletedAt)
+    ))
+    .orderBy(schema.messageTemplates.name);
+
+  return await toTemplateViews(context.env, rows);
+}
+
+export async function deleteTemplate(
+  context: ServiceContext,
+  input: Input<typeof schemas.deleteTemplateInput>
+): Promise<z.infer<typeof schemas.templateView>> {
+  authorize(context, "delete_template", input.workspace_id);
+
+  const workspace = await getActiveWorkspace(context.env, input.workspace_id);
+  const template = await templates.findTemplate(context.env, workspace.id, input.template);
+
+  // Marked instead of removed so posts keep pointing at the template they came from
+  const db = drizzle(context.env.DB);
+  const [deleted] = await db.update(schema.messageTemplates)
+    .set({
+      deletedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(schema.messageTemplates.id, template.id))
+    .returning();
+
+  const [view] = await toTemplateViews(context.env, [deleted]);
+  return view;
+}
+
+export async function postTemplate(
+  context: ServiceContext,
+  input: Input<typeof schemas.postTemplateInput>
+): Promise<z.infer<typeof schemas.postMessageResult>> {
+  authorize(context, "post_template", input.workspace_id);
+
+  const { env } = context;
+  const workspace = await getActiveWorkspace(env, input.workspace_id);
+
+  if (input.reply_broadcast && !input.thread_ts) {
+    throw new ServiceError("reply_broadcast requires thread_ts");
+  }
+
+  const template = await templates.findTemplate(env, workspace.id, input.template);
+  const rendered = await templates.renderTemplate(env, workspace, template, input.variables);
+
+  return await sendPost(context, workspace, {
+    channelId: await directory.resolveChannelId(env, workspace, input.channel_id),
+    text: rendered.text,
+    markdown: template.markdown,
+    blocks: rendered.blocks,
+    threadTs: input.thread_ts,
+    replyBroadcast: input.reply_broadcast,
+    unfurlLinks: input.unfurl_links,
+    unfurlMedia: input.unfurl_media,
+    templateId: template.id,
+    dryRun: input.dry_run
+  }, { waitForDelivery: input.wait_for_delivery, idempotencyKey: input.idempotency_key });
+}
+
+function toAuditEntryView(entry: audit.AuditEntry): z.infer<typeof schemas.auditEntryView> {
+  return {
+    id: entry.id,
+    created_at: entry.createdAt.toISOString(),
+    source: entry.source,
+    tool: entry.tool,
+    workspace_id: entry.workspaceId,
+    api_key_id: entry.apiKeyId,
+    arguments: entry.arguments,
+    outcome: entry.outcome,
+    status: entry.status,
+    error: entry.error,
+    slack_error: entry.slackError,
+    latency_ms: entry.latencyMs
+  };
+}
+
+/**
+ * Reads the audit log. Keys restricted to some workspaces only see entries for those
+ * workspaces, and never entries without one.
+ */
+export async function queryAuditLog(
+  context: ServiceContext,
+  input: Input<typeof schemas.queryAuditLogInput>
+): Promise<z.infer<typeof schemas.queryAuditLogResult>> {
+  authorize(context, "query_audit_log", input.workspace_id);
+
+  const workspaceIds = input.workspace_id ? [input.workspace_id] : context.apiKey.workspaceIds ?? undefined;
+  if (workspaceIds?.length === 0) {
+    return { entries: [], next_cursor: null };
+  }
+
+  const offset = readOffset(input.cursor);
+  const rows = await audit.queryAuditLog(context.env, {
+    tool: input.tool,
+    workspaceIds,
+    since: input.since ? new Date(input.since) : undefined,
+    until: input.until ? new Date(input.until) : undefined,
+    outcome: input.outcome,
+    limit: input.limit,
+    offset
+  });
+
+  return {
+    entries: rows.slice(0, input.limit).map(toAuditEntryView),
+    next_cursor: nextOffsetCursor(rows, input.limit, offset)
+  };
+}
+
+function toSimulatedCallView(call: sandbox.SimulatedCall): z.infer<typeof schemas.simulatedCallView> {
+  return {
+    id: call.id,
+    method: call.method,
+    arguments: call.arguments,
+    response: call.response,
+    created_at: call.createdAt.toISOString()
+  };
+}
+
+// Slack calls simulated by a sandbox workspace or by dry runs, newest first
+export async function listSimulatedCalls(
+  context: ServiceContext,
+  input: Input<typeof schemas.listSimulatedCallsInput>
+): Promise<z.infer<typeof schemas.listSimulatedCallsResult>> {
+  authorize(context, "list_simulated_calls", input.workspace_id);
+
+  const workspace = await getWorkspace(context.env, input.workspace_id);
+  const offset = readOffset(input.cursor);
+  const rows = await sandbox.listSimulatedCalls(context.env, workspace.id, {
+    method: input.method,
+    limit: input.limit,
+    offset
+  });
+
+  return {
+    calls: rows.slice(0, input.limit).map(toSimulatedCallView),
+    next_cursor: nextOffsetCursor(rows, input.limit, offset)
+  };
+}
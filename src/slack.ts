@@ -0,0 +1,171 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { WebClient, type WebClientOptions } from "@slack/web-api";
+import { timingSafeEqual } from "hono/utils/buffer";
+import * as schema from "./db/schema";
+import { SandboxSlackClient } from "./sandbox";
+import {
+  decryptBotToken,
+  decryptRefreshToken,
+  decryptSigningSecret,
+  encryptBotToken,
+  encryptRefreshToken
+} from "./crypto";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// Bot token scopes requested by the OAuth install flow
+export const SLACK_BOT_SCOPES = [
+  "app_mentions:read",
+  "channels:read",
+  "channels:history",
+  "groups:read",
+  "groups:history",
+  "im:read",
+  "im:write",
+  "mpim:read",
+  "mpim:write",
+  "chat:write",
+  "reactions:write",
+  "users:read",
+  "users:read.email",
+  "usergroups:read"
+];
+
+// SLACK_API_URL points the deployment at a Slack-compatible stand-in instead of slack.com
+function withSlackApiUrl(env: Bindings, options?: WebClientOptions): WebClientOptions {
+  if (!env.SLACK_API_URL) {
+    return { ...options };
+  }
+
+  // WebClient appends method names to the URL, so it has to end with a slash
+  const slackApiUrl = env.SLACK_API_URL.endsWith("/") ? env.SLACK_API_URL : `${env.SLACK_API_URL}/`;
+  return { slackApiUrl, ...options };
+}
+
+/**
+ * Creates a Slack client for calls not made on behalf of a stored workspace, such as OAuth
+ * and token checks. Workspace calls go through getSlackClient instead.
+ */
+export function createWebClient(env: Bindings, token?: string, options?: WebClientOptions) {
+  return new WebClient(token, withSlackApiUrl(env, options));
+}
+
+// Refresh rotating tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Exchanges the stored refresh token for a new access token and persists both.
+ * Returns the new bot token.
+ */
+async function refreshWorkspaceToken(env: Bindings, workspace: Workspace) {
+  const refreshToken = await decryptRefreshToken(env, workspace);
+  if (!refreshToken) {
+    throw new Error("Workspace token has expired and no refresh token is stored");
+  }
+
+  const result = await createWebClient(env).oauth.v2.access({
+    client_id: env.SLACK_CLIENT_ID,
+    client_secret: env.SLACK_CLIENT_SECRET,
+    grant_type: "refresh_token",
+    refresh_token: refreshToken
+  });
+
+  if (!result.ok || !result.access_token) {
+    throw new Error(`Failed to refresh workspace token: ${result.error || 'missing access token'}`);
+  }
+
+  const db = drizzle(env.DB);
+  await db.update(schema.workspaces)
+    .set({
+      ...await encryptBotToken(env, result.access_token),
+      ...await encryptRefreshToken(env, result.refresh_token ?? refreshToken),
+      tokenExpiresAt: result.expires_in ? new Date(Date.now() + result.expires_in * 1000) : null,
+      updatedAt: new Date()
+    })
+    .where(eq(schema.workspaces.id, workspace.id));
+
+  return result.access_token;
+}
+
+export type SlackClientOptions = WebClientOptions & {
+  // Simulate posts and other changes even in a live workspace, for dry runs
+  simulate?: boolean;
+};
+
+/**
+ * Returns a Slack client for the workspace, refreshing its bot token first when
+ * token rotation is enabled and the current token is about to expire. Sandbox workspaces
+ * and `simulate` get a SandboxSlackClient, which only pretends to change anything in Slack.
+ */
+export async function getSlackClient(env: Bindings, workspace: Workspace, options: SlackClientOptions = {}) {
+  const expiresSoon = workspace.tokenExpiresAt !== null &&
+    workspace.tokenExpiresAt.getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+
+  const botToken = expiresSoon
+    ? await refreshWorkspaceToken(env, workspace)
+    : await decryptBotToken(env, workspace);
+
+  const { simulate, ...clientOptions } = options;
+  if (simulate || workspace.mode === "sandbox") {
+    return new SandboxSlackClient(env, workspace, botToken, withSlackApiUrl(env, clientOptions));
+  }
+
+  return createWebClient(env, botToken, clientOptions);
+}
+
+// Requests older than this are rejected to prevent replay attacks
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Verifies an `X-Slack-Signature` header (v0 HMAC-SHA256 of the raw request body).
+ */
+export async function verifySlackSignature(signingSecret: string, timestamp: string, body: string, signature: string) {
+  const requestTime = Number.parseInt(timestamp, 10);
+  if (!Number.isInteger(requestTime) || Math.abs(Date.now() / 1000 - requestTime) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(signingSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`v0:${timestamp}:${body}`));
+  const expected = `v0=${[...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("")}`;
+
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * Verifies an Events API request against the signing secrets of the given workspaces,
+ * falling back to SLACK_SIGNING_SECRET for workspaces without their own.
+ */
+export async function verifyWorkspaceSignature(
+  env: Bindings,
+  workspaces: Workspace[],
+  request: { timestamp: string; body: string; signature: string }
+) {
+  const secrets = new Set<string>();
+  for (const workspace of workspaces) {
+    const secret = await decryptSigningSecret(env, workspace) ?? env.SLACK_SIGNING_SECRET;
+    if (secret) {
+      secrets.add(secret);
+    }
+  }
+
+  if (workspaces.length === 0 && env.SLACK_SIGNING_SECRET) {
+    secrets.add(env.SLACK_SIGNING_SECRET);
+  }
+
+  for (const secret of secrets) {
+    if (await verifySlackSignature(secret, request.timestamp, request.body, request.signature)) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,232 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, gte } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { getChannelHistory, getThread, type HistoryMessage } from "./history";
+import { slackTsToDate } from "./mentions";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+/**
+ * Channel activity for channel_stats: message volume per day, top posters, thread depth and how
+ * quickly the workspace user answers mentions. Computed from conversations.history and
+ * conversations.replies, with posts made through this server counted as the user's replies.
+ * Results are cached per channel and window, so asking again within 15 minutes reads only D1.
+ */
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type ChannelStats = {
+  // Top-level messages plus the thread replies that were read, within the window
+  messageCount: number;
+  topLevelCount: number;
+  // Every UTC day of the window, oldest first
+  messagesPerDay: { date: string; messages: number }[];
+  topPosters: { userId: string; messages: number }[];
+  // Top-level messages with replies, and their reply counts
+  threads: { count: number; replies: number; medianReplies: number | null; maxReplies: number };
+  // Mentions of the workspace user by someone else, and how long the user took to reply in the thread
+  mentions: { count: number; answered: number; medianResponseSeconds: number | null };
+  // Messages posted through this server, simulated posts excluded
+  postedViaServer: number;
+  // False when the channel or some threads had more messages than were read
+  complete: boolean;
+};
+
+export type StatsWindow = { start: Date; end: Date };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Bounds on the Slack calls for one computation: history pages of 200 and whole threads read
+const MAX_HISTORY_PAGES = 10;
+const HISTORY_PAGE_SIZE = 200;
+const MAX_THREADS_READ = 40;
+
+const TOP_POSTERS = 10;
+
+// Cached stats are recomputed after this long, since replies to recent messages keep arriving
+const CACHE_TTL_MS = 15 * 60 * 1000;
+// Stats computed this long after their window ended are served from the cache until a refresh
+const SETTLED_AFTER_MS = DAY_MS;
+
+/**
+ * The `days` before `until`. Without `until`, the window ends at the top of the next hour, so
+ * calls made within the same hour share a cache entry.
+ */
+export function statsWindow(days: number, until?: Date): StatsWindow {
+  const end = until ?? new Date(Math.ceil(Date.now() / HOUR_MS) * HOUR_MS);
+  return { start: new Date(end.getTime() - days * DAY_MS), end };
+}
+
+function median(values: number[]) {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function utcDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+async function computeChannelStats(env: Bindings, workspace: Workspace, channelId: string, window: StatsWindow): Promise<ChannelStats> {
+  const db = drizzle(env.DB);
+  const slack = await getSlackClient(env, workspace);
+
+  const topLevel: HistoryMessage[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+  while (pages < MAX_HISTORY_PAGES) {
+    const page = await getChannelHistory(slack, channelId, {
+      limit: HISTORY_PAGE_SIZE,
+      cursor,
+      oldest: window.start,
+      latest: window.end
+    });
+    pages++;
+
+    topLevel.push(...page.messages);
+    cursor = page.nextCursor ?? undefined;
+    if (!cursor) {
+      break;
+    }
+  }
+  let complete = !cursor;
+
+  // Posts made through this server appear in Slack as the bot's, but were sent for the user.
+  // Replies posted after the window still answer mentions inside it, so there is no upper bound.
+  const ownPosts = await db.select({
+    messageTs: schema.postedMessages.messageTs,
+    createdAt: schema.postedMessages.createdAt
+  })
+    .from(schema.postedMessages)
+    .where(and(
+      eq(schema.postedMessages.workspaceId, workspace.id),
+      eq(schema.postedMessages.channelId, channelId),
+      eq(schema.postedMessages.isSimulated, false),
+      gte(schema.postedMessages.createdAt, window.start)
+    ));
+  const ownTs = new Set(ownPosts.map(post => post.messageTs));
+  const byUser = (message: HistoryMessage) => message.user === workspace.userId || ownTs.has(message.ts);
+
+  const mentionPattern = new RegExp(`<@${workspace.userId}(?:\\|[^>]*)?>`);
+  const mentionsUser = (message: HistoryMessage) => !byUser(message) && mentionPattern.test(message.text);
+
+  // Threads whose parent mentions the user are read first, then the newest
+  const parents = topLevel.filter(message => message.replyCount > 0);
+  const toRead = [...parents.filter(mentionsUser), ...parents.filter(message => !mentionsUser(message))].slice(0, MAX_THREADS_READ);
+  if (toRead.length < parents.length) {
+    complete = false;
+  }
+
+  const threads = new Map<string, HistoryMessage[]>();
+  for (const parent of toRead) {
+    const thread = await getThread(slack, channelId, parent.ts);
+    threads.set(parent.ts, thread.messages.filter(message => message.ts !== parent.ts));
+    complete &&= thread.complete;
+  }
+
+  const inWindow = (message: HistoryMessage) => {
+    const postedAt = slackTsToDate(message.ts);
+    return postedAt >= window.start && postedAt < window.end;
+  };
+  const messages = [...topLevel, ...[...threads.values()].flat().filter(inWindow)];
+
+  const perDay = new Map<string, number>();
+  for (let day = new Date(window.start); day < window.end; day = new Date(day.getTime() + DAY_MS)) {
+    perDay.set(utcDate(day), 0);
+  }
+  const perUser = new Map<string, number>();
+  for (const message of messages) {
+    const date = utcDate(slackTsToDate(message.ts));
+    perDay.set(date, (perDay.get(date) ?? 0) + 1);
+    if (message.user) {
+      perUser.set(message.user, (perUser.get(message.user) ?? 0) + 1);
+    }
+  }
+
+  // A mention is answered by the user's first later message in the same thread
+  const responseSeconds: number[] = [];
+  const mentions = messages.filter(mentionsUser);
+  for (const mention of mentions) {
+    const threadTs = mention.threadTs ?? mention.ts;
+    const reply = (threads.get(threadTs) ?? []).find(message => Number(message.ts) > Number(mention.ts) && byUser(message));
+    if (reply) {
+      responseSeconds.push(Math.round(Number(reply.ts) - Number(mention.ts)));
+    }
+  }
+
+  const replyCounts = parents.map(parent => parent.replyCount);
+
+  return {
+    messageCount: messages.length,
+    topLevelCount: topLevel.length,
+    messagesPerDay: [...perDay].sort(([a], [b]) => a.localeCompare(b)).map(([date, count]) => ({ date, messages: count })),
+    topPosters: [...perUser]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, TOP_POSTERS)
+      .map(([userId, count]) => ({ userId, messages: count })),
+    threads: {
+      count: parents.length,
+      replies: replyCounts.reduce((total, replies) => total + replies, 0),
+      medianReplies: median(replyCounts),
+      maxReplies: Math.max(0, ...replyCounts)
+    },
+    mentions: {
+      count: mentions.length,
+      answered: responseSeconds.length,
+      medianResponseSeconds: median(responseSeconds)
+    },
+    postedViaServer: ownPosts.filter(post => post.createdAt < window.end).length,
+    complete
+  };
+}
+
+/**
+ * Returns the channel's stats for the window, from the cache when they are fresh enough
+ * unless `refresh` is set.
+ */
+export async function getChannelStats(env: Bindings, workspace: Workspace, channelId: string, window: StatsWindow, options: {
+  refresh: boolean;
+}) {
+  const db = drizzle(env.DB);
+  const key = and(
+    eq(schema.channelStats.workspaceId, workspace.id),
+    eq(schema.channelStats.channelId, channelId),
+    eq(schema.channelStats.windowStart, window.start),
+    eq(schema.channelStats.windowEnd, window.end)
+  );
+
+  if (!options.refresh) {
+    const [cached] = await db.select()
+      .from(schema.channelStats)
+      .where(key)
+      .limit(1);
+
+    const settled = cached && cached.computedAt.getTime() - window.end.getTime() >= SETTLED_AFTER_MS;
+    if (cached && (settled || Date.now() - cached.computedAt.getTime() < CACHE_TTL_MS)) {
+      return { stats: cached.stats, computedAt: cached.computedAt, cached: true };
+    }
+  }
+
+  const stats = await computeChannelStats(env, workspace, channelId, window);
+  const computedAt = new Date();
+
+  await db.insert(schema.channelStats)
+    .values({
+      workspaceId: workspace.id,
+      channelId,
+      windowStart: window.start,
+      windowEnd: window.end,
+      stats,
+      computedAt
+    })
+    .onConflictDoUpdate({
+      target: [schema.channelStats.workspaceId, schema.channelStats.channelId, schema.channelStats.windowStart, schema.channelStats.windowEnd],
+      set: { stats, computedAt }
+    });
+
+  return { stats, computedAt, cached: false };
+}
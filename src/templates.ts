@@ -0,0 +1,207 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, isNull, or } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { blocksSchema, collectStrings, type Block } from "./blocks";
+import { DirectoryLookupError, resolveChannelId, resolveUserId } from "./directory";
+import { ServiceError } from "./errors";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+export type MessageTemplate = typeof schema.messageTemplates.$inferSelect;
+
+export type TemplateVariable = {
+  name: string;
+  type: (typeof schema.TEMPLATE_VARIABLE_TYPES)[number];
+  description?: string;
+};
+
+export type TemplateValues = Record<string, string | number | boolean>;
+
+type TemplateBody = {
+  text: string;
+  blocks?: unknown[] | null;
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Checks that the variables have unique names, that every {{placeholder}} in the body is
+ * declared and that every declared variable is used somewhere.
+ */
+export function validateTemplate(body: TemplateBody, variables: TemplateVariable[]) {
+  const problems: string[] = [];
+
+  const declared = new Set<string>();
+  for (const variable of variables) {
+    if (declared.has(variable.name)) {
+      problems.push(`Variable "${variable.name}" is declared twice`);
+    }
+    declared.add(variable.name);
+  }
+
+  const used = new Set(collectStrings([body.text, body.blocks ?? []])
+    .flatMap(text => [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1])));
+
+  for (const name of used) {
+    if (!declared.has(name)) {
+      problems.push(`Placeholder {{${name}}} has no matching variable`);
+    }
+  }
+  for (const name of declared) {
+    if (!used.has(name)) {
+      problems.push(`Variable "${name}" is not used in the template`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ServiceError(`Invalid template: ${problems.join("; ")}`, 400, problems);
+  }
+}
+
+// A variable's value as written into the message. Mention tokens are never escaped.
+type FormattedValue = {
+  text: string;
+  token: boolean;
+};
+
+async function formatValue(env: Bindings, workspace: Workspace, variable: TemplateVariable, value: string | number | boolean): Promise<FormattedValue | string> {
+  const text = String(value);
+
+  switch (variable.type) {
+    case "string":
+      return typeof value === "string" ? { text, token: false } : `"${variable.name}" must be a string`;
+    case "number": {
+      const number = typeof value === "number" ? value : text.trim() === '' ? Number.NaN : Number(text);
+      return Number.isFinite(number) ? { text: String(number), token: false } : `"${variable.name}" must be a number`;
+    }
+    case "boolean":
+      if (typeof value === "boolean" || text === "true" || text === "false") {
+        return { text, token: false };
+      }
+      return `"${variable.name}" must be true or false`;
+    case "url": {
+      let url: URL | null = null;
+      try {
+        url = new URL(text);
+      } catch {
+        // Reported below
+      }
+      return url && (url.protocol === "https:" || url.protocol === "http:")
+        ? { text, token: false }
+        : `"${variable.name}" must be an http or https URL`;
+    }
+    case "user":
+    case "channel":
+      if (typeof value !== "string") {
+        return `"${variable.name}" must be a ${variable.type} ID or name`;
+      }
+      try {
+        return variable.type === "user"
+          ? { text: `<@${await resolveUserId(env, workspace, value)}>`, token: true }
+          : { text: `<#${await resolveChannelId(env, workspace, value)}>`, token: true };
+      } catch (error) {
+        if (error instanceof DirectoryLookupError) {
+          return `"${variable.name}": ${error.message}`;
+        }
+        throw error;
+      }
+  }
+}
+
+function fillPlaceholders(text: string, values: Map<string, FormattedValue>, escapeValues: boolean) {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = values.get(name)!;
+    return escapeValues && !value.token ? escape(value.text) : value.text;
+  });
+}
+
+// Fills every string in the blocks; values in mrkdwn text objects are escaped like message text
+function fillBlocks(value: unknown, values: Map<string, FormattedValue>, inMrkdwn = false): unknown {
+  if (typeof value === "string") {
+    return fillPlaceholders(value, values, inMrkdwn);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillBlocks(item, values));
+  }
+  if (value && typeof value === "object") {
+    const isMrkdwn = (value as { type?: unknown }).type === "mrkdwn";
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, fillBlocks(item, values, isMrkdwn && key === "text")]));
+  }
+  return value;
+}
+
+/**
+ * Fills in a template's variables. Every declared variable must be given a value of its
+ * type and no others may be passed; user and channel values may be IDs or names and are
+ * written as mentions. The rendered blocks are validated like post_message blocks.
+ */
+export async function renderTemplate(env: Bindings, workspace: Workspace, template: MessageTemplate, values: TemplateValues): Promise<{ text: string; blocks?: Block[] }> {
+  const problems: string[] = [];
+  const formatted = new Map<string, FormattedValue>();
+
+  for (const variable of template.variables) {
+    if (!Object.hasOwn(values, variable.name)) {
+      problems.push(`Missing variable "${variable.name}" (${variable.type})`);
+      continue;
+    }
+
+    const value = await formatValue(env, workspace, variable, values[variable.name]);
+    if (typeof value === "string") {
+      problems.push(value);
+    } else {
+      formatted.set(variable.name, value);
+    }
+  }
+
+  const declared = new Set(template.variables.map(variable => variable.name));
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      problems.push(`Unknown variable "${name}"`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ServiceError(`Cannot fill in template "${template.name}": ${problems.join("; ")}`, 400, problems);
+  }
+
+  // Markdown text is escaped when it is converted to mrkdwn at post time
+  const text = fillPlaceholders(template.text, formatted, !template.markdown);
+  if (!template.blocks) {
+    return { text };
+  }
+
+  const blocks = blocksSchema.safeParse(fillBlocks(template.blocks, formatted));
+  if (!blocks.success) {
+    throw new ServiceError(`Template "${template.name}" does not render to valid blocks`, 400, blocks.error.issues);
+  }
+
+  return { text, blocks: blocks.data };
+}
+
+/**
+ * Finds a workspace's template by ID or name, leaving out deleted templates.
+ */
+export async function findTemplate(env: Bindings, workspaceId: string, template: string) {
+  const db = drizzle(env.DB);
+  const [found] = await db.select()
+    .from(schema.messageTemplates)
+    .where(and(
+      eq(schema.messageTemplates.workspaceId, workspaceId),
+      or(
+        eq(schema.messageTemplates.id, template),
+        eq(schema.messageTemplates.name, template)
+      ),
+      isNull(schema.messageTemplates.deletedAt)
+    ))
+    .limit(1);
+
+  if (!found) {
+    throw new ServiceError(`Template ${template} not found`, 404);
+  }
+
+  return found;
+}
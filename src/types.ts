@@ -0,0 +1,20 @@
+export type Bindings = {
+  DB: D1Database;
+  // JSON object mapping key versions to base64-encoded 256-bit AES keys, e.g. {"1":"...","2":"..."}
+  TOKEN_ENCRYPTION_KEYS: string;
+  // Version (key of TOKEN_ENCRYPTION_KEYS) used to encrypt new and rotated tokens
+  TOKEN_ENCRYPTION_KEY_VERSION: string;
+  // Bearer token required by the /admin/* maintenance routes
+  ADMIN_API_TOKEN: string;
+  // Slack app credentials for the OAuth install flow and token refresh
+  SLACK_CLIENT_ID: string;
+  SLACK_CLIENT_SECRET: string;
+  // Secret used to sign the OAuth `state` parameter
+  SLACK_STATE_SECRET: string;
+  // App-level Events API signing secret, used for workspaces without their own
+  SLACK_SIGNING_SECRET?: string;
+  // Slack Web API base URL (default https://slack.com/api/), to point a deployment at a Slack-compatible stand-in
+  SLACK_API_URL?: string;
+  // How long an idempotency key is remembered, in seconds (default 86400)
+  IDEMPOTENCY_WINDOW_SECONDS?: string;
+};
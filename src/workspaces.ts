@@ -0,0 +1,158 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { ErrorCode, type WebAPIPlatformError } from "@slack/web-api";
+import * as schema from "./db/schema";
+import { encryptBotToken, encryptRefreshToken, encryptSigningSecret } from "./crypto";
+import { ServiceError } from "./errors";
+import { getSlackClient } from "./slack";
+import type { Bindings } from "./types";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// auth.test and auth.revoke errors meaning the token is gone for good, as opposed to a Slack outage
+const REVOKED_TOKEN_ERRORS = new Set([
+  "invalid_auth",
+  "not_authed",
+  "account_inactive",
+  "token_revoked",
+  "token_expired",
+  "team_disabled",
+  // Returned while refreshing a rotating token that was revoked
+  "invalid_refresh_token"
+]);
+
+export type WorkspaceInstall = {
+  teamId: string;
+  teamName: string;
+  workspaceUrl: string;
+  botToken: string;
+  botId: string;
+  userId: string;
+  // Left unchanged on update when undefined
+  description?: string | null;
+  // Only set for apps with token rotation enabled
+  refreshToken?: string | null;
+  tokenExpiresAt?: Date | null;
+  // Events API signing secret, left unchanged on update when undefined
+  signingSecret?: string | null;
+};
+
+/**
+ * Creates or updates (by Slack team ID) the workspace row for an install,
+ * encrypting its tokens. Used by both configure_workspace and the OAuth callback.
+ */
+export async function upsertWorkspace(env: Bindings, install: WorkspaceInstall) {
+  const db = drizzle(env.DB);
+
+  const values = {
+    teamName: install.teamName,
+    workspaceUrl: install.workspaceUrl,
+    ...await encryptBotToken(env, install.botToken),
+    ...await encryptRefreshToken(env, install.refreshToken ?? null),
+    tokenExpiresAt: install.tokenExpiresAt ?? null,
+    userId: install.userId,
+    botId: install.botId,
+    ...(install.description !== undefined ? { description: install.description || null } : {}),
+    ...(install.signingSecret !== undefined ? await encryptSigningSecret(env, install.signingSecret) : {})
+  };
+
+  const [workspace] = await db.insert(schema.workspaces)
+    .values({
+      teamId: install.teamId,
+      ...values
+    })
+    .onConflictDoUpdate({
+      target: schema.workspaces.teamId,
+      set: {
+        ...values,
+        updatedAt: new Date(),
+        isActive: true
+      }
+    })
+    .returning();
+
+  return workspace;
+}
+
+// Slack error code for platform errors, or the message for network and other failures
+function describeSlackError(error: unknown) {
+  if ((error as { code?: unknown } | null)?.code === ErrorCode.PlatformError) {
+    return { error: (error as WebAPIPlatformError).data.error, platform: true };
+  }
+  return { error: error instanceof Error ? error.message : 'Unknown error', platform: false };
+}
+
+/**
+ * Calls auth.test with the workspace's bot token and records the result. A revoked or
+ * uninstalled token also marks the workspace inactive; other failures are only recorded.
+ */
+export async function checkWorkspaceToken(env: Bindings, workspace: Workspace) {
+  let tokenCheckError: string | null = null;
+  let revoked = false;
+
+  try {
+    const slack = await getSlackClient(env, workspace);
+    await slack.auth.test();
+  } catch (error) {
+    const failure = describeSlackError(error);
+    tokenCheckError = failure.error;
+    revoked = failure.platform && REVOKED_TOKEN_ERRORS.has(failure.error);
+  }
+
+  const db = drizzle(env.DB);
+  const [checked] = await db.update(schema.workspaces)
+    .set({
+      tokenCheckedAt: new Date(),
+      tokenCheckError,
+      ...(revoked ? { isActive: false, updatedAt: new Date() } : {})
+    })
+    .where(eq(schema.workspaces.id, workspace.id))
+    .returning();
+
+  return checked;
+}
+
+// Run by the hourly cron trigger
+export async function checkAllWorkspaceTokens(env: Bindings) {
+  const db = drizzle(env.DB);
+  const workspaces = await db.select()
+    .from(schema.workspaces)
+    .where(eq(schema.workspaces.isActive, true));
+
+  for (const workspace of workspaces) {
+    try {
+      const checked = await checkWorkspaceToken(env, workspace);
+      if (!checked.isActive) {
+        console.warn(`Workspace ${workspace.id} deactivated: ${checked.tokenCheckError}`);
+      }
+    } catch (error) {
+      console.error(`Token check failed for workspace ${workspace.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Revokes the bot token with auth.revoke and deletes the workspace, which cascades to its
+ * posted messages, scheduled messages, outbox, mentions and directory cache. A token Slack
+ * has already revoked is not an error; any other revoke failure leaves the workspace in place.
+ */
+export async function removeWorkspace(env: Bindings, workspace: Workspace) {
+  let tokenRevoked = true;
+
+  try {
+    const slack = await getSlackClient(env, workspace);
+    await slack.auth.revoke();
+  } catch (error) {
+    const failure = describeSlackError(error);
+    if (!failure.platform || !REVOKED_TOKEN_ERRORS.has(failure.error)) {
+      throw new ServiceError(`Failed to revoke the bot token, workspace was not removed: ${failure.error}`, 502);
+    }
+    tokenRevoked = false;
+  }
+
+  const db = drizzle(env.DB);
+  await db.delete(schema.workspaces)
+    .where(eq(schema.workspaces.id, workspace.id));
+
+  return { tokenRevoked };
+}
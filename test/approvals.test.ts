@@ -0,0 +1,93 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { decideDraft, requestApproval } from "../src/approvals";
+import * as schema from "../src/db/schema";
+import { IdempotencyConflictError } from "../src/outbox";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, type TestEnv } from "./env";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// The channel name is given so delivery does not look it up in Slack
+const POST = { channelId: "C0123456789", channelName: "releases", text: "Release notes for 2.0" };
+
+let testEnv: TestEnv;
+let env: Bindings;
+// A sandbox workspace, so the approval request DM and the approved post are simulated
+let workspace: Workspace;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+  workspace = await insertWorkspace(env, { mode: "sandbox" });
+});
+
+afterAll(() => testEnv.dispose());
+
+describe("requestApproval", () => {
+  it("holds the post as a pending draft with an approval request", async () => {
+    const { draft, replayed } = await requestApproval(env, workspace, POST);
+
+    expect(replayed).toBe(false);
+    expect(draft).toMatchObject({ status: "pending", channelId: POST.channelId, payload: POST });
+    expect(draft.requestChannelId).not.toBeNull();
+    expect(draft.requestTs).not.toBeNull();
+  });
+
+  it("returns the original draft when the same key is retried", async () => {
+    const first = await requestApproval(env, workspace, POST, { idempotencyKey: "retry" });
+    const retry = await requestApproval(env, workspace, POST, { idempotencyKey: "retry" });
+
+    expect(retry.replayed).toBe(true);
+    expect(retry.draft.id).toBe(first.draft.id);
+  });
+
+  it("rejects the same key for a different post", async () => {
+    await requestApproval(env, workspace, POST, { idempotencyKey: "conflict" });
+
+    await expect(requestApproval(env, workspace, { ...POST, text: "Release notes for 3.0" }, { idempotencyKey: "conflict" }))
+      .rejects.toBeInstanceOf(IdempotencyConflictError);
+  });
+
+  it("holds a new draft once the key has expired", async () => {
+    const first = await requestApproval(env, workspace, POST, { idempotencyKey: "expired" });
+
+    const db = drizzle(env.DB);
+    await db.update(schema.messageDrafts)
+      .set({ createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) })
+      .where(eq(schema.messageDrafts.id, first.draft.id));
+
+    const later = await requestApproval(env, workspace, { ...POST, text: "Release notes for 2.1" }, { idempotencyKey: "expired" });
+
+    expect(later.replayed).toBe(false);
+    expect(later.draft.id).not.toBe(first.draft.id);
+  });
+});
+
+describe("decideDraft", () => {
+  it("posts an approved draft once", async () => {
+    const { draft } = await requestApproval(env, workspace, POST);
+
+    const approved = await decideDraft(env, workspace, draft.id, { approved: true, userId: "U0123456789" });
+    const again = await decideDraft(env, workspace, draft.id, { approved: true, userId: "U0123456789" });
+
+    expect(approved).toMatchObject({ status: "approved", decidedBy: "U0123456789" });
+    expect(approved?.outboxMessageId).not.toBeNull();
+    expect(again).toBeUndefined();
+
+    const db = drizzle(env.DB);
+    const [outboxMessage] = await db.select()
+      .from(schema.outboxMessages)
+      .where(eq(schema.outboxMessages.id, approved!.outboxMessageId!));
+    expect(outboxMessage.status).toBe("sent");
+  });
+
+  it("does not post a rejected draft", async () => {
+    const { draft } = await requestApproval(env, workspace, POST);
+
+    const rejected = await decideDraft(env, workspace, draft.id, { approved: false, userId: "U0123456789" });
+
+    expect(rejected).toMatchObject({ status: "rejected", outboxMessageId: null });
+  });
+});
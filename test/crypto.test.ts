@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptBotToken,
+  decryptRefreshToken,
+  decryptSigningSecret,
+  encryptBotToken,
+  encryptRefreshToken,
+  encryptSigningSecret,
+  reencryptWorkspaceSecrets
+} from "../src/crypto";
+
+const KEYS = JSON.stringify({
+  1: btoa("1".repeat(32)),
+  2: btoa("2".repeat(32))
+});
+const OLD_KEY = { TOKEN_ENCRYPTION_KEYS: KEYS, TOKEN_ENCRYPTION_KEY_VERSION: "1" };
+const NEW_KEY = { TOKEN_ENCRYPTION_KEYS: KEYS, TOKEN_ENCRYPTION_KEY_VERSION: "2" };
+
+async function secretsOnOldKey() {
+  return {
+    ...await encryptBotToken(OLD_KEY, "xoxb-bot"),
+    ...await encryptRefreshToken(OLD_KEY, "xoxe-refresh"),
+    ...await encryptSigningSecret(OLD_KEY, "signing-secret")
+  };
+}
+
+describe("reencryptWorkspaceSecrets", () => {
+  it("returns null when every secret is on the current key", async () => {
+    expect(await reencryptWorkspaceSecrets(OLD_KEY, await secretsOnOldKey())).toBeNull();
+  });
+
+  it("moves every secret to the current key", async () => {
+    const workspace = await secretsOnOldKey();
+    const update = await reencryptWorkspaceSecrets(NEW_KEY, workspace);
+    const rotated = { ...workspace, ...update };
+
+    expect(update).toMatchObject({ botTokenKeyVersion: 2, refreshTokenKeyVersion: 2, signingSecretKeyVersion: 2 });
+    expect(await decryptBotToken(NEW_KEY, rotated)).toBe("xoxb-bot");
+    expect(await decryptRefreshToken(NEW_KEY, rotated)).toBe("xoxe-refresh");
+    expect(await decryptSigningSecret(NEW_KEY, rotated)).toBe("signing-secret");
+  });
+
+  it("re-encrypts a refresh token left behind by an earlier bot token rotation", async () => {
+    const workspace = {
+      ...await secretsOnOldKey(),
+      ...await encryptBotToken(NEW_KEY, "xoxb-bot"),
+      ...await encryptSigningSecret(NEW_KEY, "signing-secret")
+    };
+
+    const update = await reencryptWorkspaceSecrets(NEW_KEY, workspace);
+
+    expect(Object.keys(update ?? {}).sort()).toEqual(["refreshToken", "refreshTokenKey", "refreshTokenKeyVersion"]);
+    expect(await decryptRefreshToken(NEW_KEY, { ...workspace, ...update })).toBe("xoxe-refresh");
+  });
+
+  it("skips optional secrets that are not set", async () => {
+    const workspace = {
+      ...await encryptBotToken(NEW_KEY, "xoxb-bot"),
+      ...await encryptRefreshToken(OLD_KEY, null),
+      ...await encryptSigningSecret(OLD_KEY, null)
+    };
+
+    expect(await reencryptWorkspaceSecrets(NEW_KEY, workspace)).toBeNull();
+  });
+
+  it("encrypts bot tokens stored before encryption was introduced", async () => {
+    const workspace = {
+      botToken: "xoxb-plain",
+      botTokenKey: null,
+      botTokenKeyVersion: null,
+      ...await encryptRefreshToken(NEW_KEY, null),
+      ...await encryptSigningSecret(NEW_KEY, null)
+    };
+
+    const update = await reencryptWorkspaceSecrets(NEW_KEY, workspace);
+
+    expect(update).toMatchObject({ botTokenKeyVersion: 2 });
+    expect(await decryptBotToken(NEW_KEY, { ...workspace, ...update })).toBe("xoxb-plain");
+  });
+});
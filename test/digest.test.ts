@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { formatDigest, previewDigest } from "../src/digest";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, type TestEnv } from "./env";
+import { startFakeSlack, type FakeSlack } from "./fake-slack";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// A Slack timestamp the given number of minutes ago
+function minutesAgo(minutes: number) {
+  return `${Math.floor(Date.now() / 1000) - minutes * 60}.000100`;
+}
+
+describe("formatDigest", () => {
+  const workspace = { workspaceUrl: "https://example.slack.com/" } as Workspace;
+  const mention = (channelId: string, ts: string, text: string, threadTs: string | null = null) =>
+    ({ channelId, ts, threadTs, user: "U0000000001", text });
+
+  it("groups mentions by channel, busiest first, and by thread", () => {
+    const content = formatDigest(workspace, [
+      mention("C0000000001", "1700000000.000100", "<@U0123456789> quick one"),
+      mention("C0000000002", "1700000100.000100", "<@U0123456789> first", "1700000050.000100"),
+      mention("C0000000002", "1700000200.000100", "<@U0123456789> second", "1700000050.000100")
+    ], new Date(1699990000 * 1000), false);
+
+    expect(content).toMatchObject({ mentionCount: 3, channelCount: 2, truncated: false });
+    expect(content.text.indexOf("<#C0000000002>")).toBeLessThan(content.text.indexOf("<#C0000000001>"));
+    expect(content.text).toContain("|Thread> with 2 mentions:");
+  });
+
+  it("writes out broadcasts so the digest notifies no one", () => {
+    const content = formatDigest(workspace, [mention("C0000000001", "1700000000.000100", "<!here> and <!subteam^S0123|@oncall>")], new Date(0), true);
+
+    expect(content.text).toContain("@here and @oncall");
+    expect(content.text).not.toContain("<!here>");
+    expect(content.text).toContain("Only the first 1 mentions are listed");
+  });
+});
+
+describe("previewDigest", () => {
+  let testEnv: TestEnv;
+  let slack: FakeSlack;
+  let env: Bindings;
+  let workspace: Workspace;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    // The bot is in 100 channels, each with one mention from half an hour ago
+    slack = await startFakeSlack({
+      "users.conversations": () => ({ channels: Array.from({ length: 100 }, (_, i) => ({ id: `C${String(i).padStart(10, "0")}` })) }),
+      "conversations.history": () => ({ messages: [{ ts: minutesAgo(30), user: "U0000000001", text: "<@U0123456789> ping" }] })
+    });
+    env = { ...testEnv.env, SLACK_API_URL: slack.url };
+    workspace = await insertWorkspace(env);
+  });
+
+  afterAll(async () => {
+    await slack.close();
+    await testEnv.dispose();
+  });
+
+  it("stops at its call budget and says so", async () => {
+    const preview = await previewDigest(env, workspace, null);
+
+    expect(slack.calls.length).toBeLessThanOrEqual(40);
+    expect(preview.outOfCalls).toBe(true);
+    expect(preview.content.truncated).toBe(true);
+    expect(preview.content.mentionCount).toBeGreaterThan(0);
+  });
+});
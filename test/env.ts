@@ -0,0 +1,80 @@
+import { createRequire } from "node:module";
+import { drizzle } from "drizzle-orm/d1";
+import { Miniflare } from "miniflare";
+import type { ApiKey } from "../src/auth";
+import * as schema from "../src/db/schema";
+import type { ServiceContext } from "../src/services";
+import type { Bindings } from "../src/types";
+
+// The ES module build of drizzle-kit's API fails to load, so the CommonJS one is used
+const { generateSQLiteDrizzleJson, generateSQLiteMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+export type TestEnv = {
+  env: Bindings;
+  dispose: () => Promise<void>;
+};
+
+/**
+ * Bindings backed by a local D1 database from Miniflare, the runtime `wrangler dev` uses.
+ * Migrations are generated per deployment rather than committed, so the tables are created
+ * straight from the Drizzle schema.
+ */
+export async function createTestEnv(): Promise<TestEnv> {
+  const miniflare = new Miniflare({ modules: true, script: "export default {};", d1Databases: ["DB"] });
+  const db = await miniflare.getD1Database("DB") as unknown as D1Database;
+
+  const statements = await generateSQLiteMigration(await generateSQLiteDrizzleJson({}), await generateSQLiteDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.prepare(statement).run();
+  }
+
+  return {
+    env: {
+      DB: db,
+      TOKEN_ENCRYPTION_KEYS: JSON.stringify({ 1: btoa("k".repeat(32)) }),
+      TOKEN_ENCRYPTION_KEY_VERSION: "1",
+      ADMIN_API_TOKEN: "admin-token",
+      SLACK_CLIENT_ID: "client-id",
+      SLACK_CLIENT_SECRET: "client-secret",
+      SLACK_STATE_SECRET: "state-secret",
+      IDEMPOTENCY_WINDOW_SECONDS: "86400"
+    },
+    dispose: () => miniflare.dispose()
+  };
+}
+
+// A workspace with a unique team ID; the bot token is stored unencrypted, as before encryption
+export async function insertWorkspace(env: Bindings, values: Partial<typeof schema.workspaces.$inferInsert> = {}) {
+  const db = drizzle(env.DB);
+  const [workspace] = await db.insert(schema.workspaces)
+    .values({
+      teamName: "Example",
+      teamId: `T${crypto.randomUUID()}`,
+      workspaceUrl: "https://example.slack.com/",
+      botToken: "xoxb-test",
+      userId: "U0123456789",
+      botId: "B0123456789",
+      ...values
+    })
+    .returning();
+
+  return workspace;
+}
+
+// An API key for every workspace with every scope
+const API_KEY: ApiKey = {
+  id: "key",
+  name: "test",
+  keyHash: "hash",
+  keyPrefix: "prefix",
+  workspaceIds: null,
+  scopes: ["read", "post", "manage"],
+  createdAt: new Date(),
+  lastUsedAt: null,
+  revokedAt: null
+};
+
+export function serviceContext(env: Bindings): ServiceContext {
+  return { env, apiKey: API_KEY, executionCtx: { waitUntil() {}, passThroughOnException() {}, props: {} } };
+}
@@ -0,0 +1,139 @@
+import { drizzle } from "drizzle-orm/d1";
+import { asc, eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { ServiceError } from "../src/errors";
+import { exportPostedMessages, importPostedMessages, parseImportBody, type ExportFormat } from "../src/export";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, type TestEnv } from "./env";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+describe("parseImportBody", () => {
+  it("reads quoted CSV cells with commas, quotes and line breaks", () => {
+    const body = 'channel_id,message_text,blocks,simulated\r\nC1,"Hello, ""team""\nbye","[{""type"":""divider""}]",true\r\nC2,plain,,\r\n';
+
+    expect(parseImportBody(body, "csv")).toEqual([
+      { channel_id: "C1", message_text: 'Hello, "team"\nbye', blocks: [{ type: "divider" }], simulated: true },
+      { channel_id: "C2", message_text: "plain", blocks: null, simulated: null }
+    ]);
+  });
+
+  it("rejects malformed bodies", () => {
+    expect(() => parseImportBody('a\r\n"open', "csv")).toThrow(ServiceError);
+    expect(() => parseImportBody('{"a":1}\nnot json', "ndjson")).toThrow("Line 2 is not valid JSON");
+    expect(() => parseImportBody('{"a":1}', "json")).toThrow(ServiceError);
+  });
+});
+
+describe("exportPostedMessages and importPostedMessages", () => {
+  let testEnv: TestEnv;
+  let env: Bindings;
+  let source: Workspace;
+
+  async function exported(workspace: Workspace, format: ExportFormat, includeDeleted = false) {
+    return new Response(exportPostedMessages(env, workspace, format, { includeDeleted })).text();
+  }
+
+  async function history(workspace: Workspace) {
+    const db = drizzle(env.DB);
+    const rows = await db.select()
+      .from(schema.postedMessages)
+      .where(eq(schema.postedMessages.workspaceId, workspace.id))
+      .orderBy(asc(schema.postedMessages.createdAt));
+
+    return rows.map(({ channelId, channelName, messageText, messageTs, threadTs, blocks, userId, createdAt, editedAt, deletedAt, isSimulated }) =>
+      ({ channelId, channelName, messageText, messageTs, threadTs, blocks, userId, createdAt, editedAt, deletedAt, isSimulated }));
+  }
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    env = testEnv.env;
+    source = await insertWorkspace(env);
+
+    const db = drizzle(env.DB);
+    await db.insert(schema.postedMessages).values([
+      {
+        workspaceId: source.id,
+        channelId: "C0123456789",
+        channelName: "general",
+        messageText: 'Release "2.0", shipped\nwith notes',
+        messageTs: "1700000000.000100",
+        blocks: [{ type: "section", text: { type: "mrkdwn", text: "*Release*" } }],
+        userId: "U0123456789",
+        createdAt: new Date("2024-01-01T10:00:00Z"),
+        editedAt: new Date("2024-01-01T11:00:00Z")
+      },
+      {
+        workspaceId: source.id,
+        channelId: "C0123456789",
+        channelName: "general",
+        messageText: "Thread reply",
+        messageTs: "1700000000.000200",
+        threadTs: "1700000000.000100",
+        userId: "U0123456789",
+        isSimulated: true,
+        createdAt: new Date("2024-01-02T10:00:00Z")
+      },
+      {
+        workspaceId: source.id,
+        channelId: "C0123456789",
+        channelName: "general",
+        messageText: "Removed",
+        messageTs: "1700000000.000300",
+        userId: "U0123456789",
+        createdAt: new Date("2024-01-03T10:00:00Z"),
+        deletedAt: new Date("2024-01-03T12:00:00Z")
+      }
+    ]);
+  });
+
+  afterAll(() => testEnv.dispose());
+
+  it("leaves out deleted messages unless asked for them", async () => {
+    const records = JSON.parse(await exported(source, "json"));
+    expect(records.map((record: { message_text: string }) => record.message_text)).toEqual([
+      'Release "2.0", shipped\nwith notes',
+      "Thread reply"
+    ]);
+
+    expect(JSON.parse(await exported(source, "json", true))).toHaveLength(3);
+  });
+
+  it.each(["csv", "ndjson", "json"] as const)("imports a %s export as it was exported", async format => {
+    const target = await insertWorkspace(env);
+
+    const result = await importPostedMessages(env, target, parseImportBody(await exported(source, format, true), format));
+
+    expect(result).toEqual({ imported: 3, skipped: 0, failed: [] });
+    expect(await history(target)).toEqual(await history(source));
+  });
+
+  it("skips messages already in the history", async () => {
+    const target = await insertWorkspace(env);
+    const records = parseImportBody(await exported(source, "ndjson", true), "ndjson");
+
+    await importPostedMessages(env, target, records);
+    const again = await importPostedMessages(env, target, records);
+
+    expect(again).toEqual({ imported: 0, skipped: 3, failed: [] });
+    expect(await history(target)).toHaveLength(3);
+  });
+
+  it("reports invalid records by position and imports the rest", async () => {
+    const target = await insertWorkspace(env);
+    const valid = {
+      channel_id: "C0123456789",
+      message_text: "Kept",
+      slack_timestamp: "1700000001.000100",
+      user_id: "U0123456789",
+      posted_at: "2024-02-01T10:00:00Z"
+    };
+
+    const result = await importPostedMessages(env, target, [valid, { ...valid, slack_timestamp: "yesterday" }]);
+
+    expect(result.imported).toBe(1);
+    expect(result.failed).toEqual([{ record: 2, error: expect.stringMatching(/^slack_timestamp: /) }]);
+    expect(await history(target)).toMatchObject([{ channelName: "C0123456789", messageText: "Kept", isSimulated: false }]);
+  });
+});
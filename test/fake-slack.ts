@@ -0,0 +1,52 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type SlackCall = {
+  method: string;
+  args: Record<string, string>;
+};
+
+type Handler = (args: Record<string, string>) => Record<string, unknown>;
+
+export type FakeSlack = {
+  // For SLACK_API_URL
+  url: string;
+  calls: SlackCall[];
+  // Replaces the answer to a method, such as a user renamed between two calls
+  handle: (method: string, handler: Handler) => void;
+  close: () => Promise<void>;
+};
+
+/**
+ * A local stand-in for the Slack Web API. Each method answers with its handler's response, or
+ * `unknown_method` when it has none, and every call is recorded.
+ */
+export async function startFakeSlack(handlers: Record<string, Handler> = {}): Promise<FakeSlack> {
+  const calls: SlackCall[] = [];
+
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", chunk => body += chunk);
+    request.on("end", () => {
+      const method = (request.url ?? "").replace(/^\/+/, "").split("?")[0];
+      const args = request.headers["content-type"]?.includes("json")
+        ? JSON.parse(body || "{}")
+        : Object.fromEntries(new URLSearchParams(body));
+      calls.push({ method, args });
+
+      const handler = handlers[method];
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify(handler ? { ok: true, ...handler(args) } : { ok: false, error: "unknown_method" }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    calls,
+    handle: (method, handler) => handlers[method] = handler,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
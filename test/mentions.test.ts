@@ -0,0 +1,85 @@
+import { WebClient } from "@slack/web-api";
+import { afterEach, describe, expect, it } from "vitest";
+import type * as schema from "../src/db/schema";
+import { ServiceError } from "../src/errors";
+import { decodeCursor, encodeCursor, searchSlackMentions } from "../src/mentions";
+import { startFakeSlack, type FakeSlack } from "./fake-slack";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+const WORKSPACE = { userId: "U0123456789" } as Workspace;
+
+// btoa output is base64, not base64url, but equal for these short ASCII inputs
+function rawCursor(json: string) {
+  return btoa(json).replace(/=+$/, "");
+}
+
+describe("decodeCursor", () => {
+  it("round-trips an encoded cursor", () => {
+    const cursor = { oldest: "1700000000", channel: "C0123456789", offset: 3 };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it.each([
+    ["not base64", "%%%"],
+    ["not JSON", rawCursor("offset")],
+    ["not an object", rawCursor("42")],
+    ["null", rawCursor("null")],
+    ["an array", rawCursor("[1]")]
+  ])("rejects a cursor that is %s with a 400", (_, cursor) => {
+    let error: unknown;
+    try {
+      decodeCursor(cursor);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error).toMatchObject({ status: 400, message: "Invalid cursor" });
+  });
+});
+
+describe("searchSlackMentions", () => {
+  let slack: FakeSlack | undefined;
+
+  afterEach(() => slack?.close());
+
+  // users.conversations lists one channel per page: C1 on the first page, C2 on page "2", and so on
+  async function channelsOnePerPage(pages: number) {
+    slack = await startFakeSlack({
+      "users.conversations": args => {
+        const page = Number(args.cursor || 1);
+        return { channels: [{ id: `C${page}` }], response_metadata: { next_cursor: page < pages ? String(page + 1) : "" } };
+      },
+      "conversations.history": args => ({ messages: [{ ts: "1700000000.000100", user: "U0000000001", text: `<@U0123456789> in ${args.channel}` }] })
+    });
+    return new WebClient("xoxb-test", { slackApiUrl: slack.url });
+  }
+
+  it("lists channels as it reaches them and resumes from the channel list page in the cursor", async () => {
+    const client = await channelsOnePerPage(3);
+    const found: string[] = [];
+    let cursor: string | undefined;
+    let searches = 0;
+
+    do {
+      const result = await searchSlackMentions(client, WORKSPACE, { oldest: 0, limit: 10, cursor, maxCalls: 4 });
+      expect(result.calls).toBeLessThanOrEqual(4);
+      found.push(...result.mentions.map(mention => mention.channelId));
+      cursor = result.nextCursor ?? undefined;
+      searches++;
+    } while (cursor && searches < 10);
+
+    expect(found).toEqual(["C1", "C2", "C3"]);
+    expect(cursor).toBeUndefined();
+  });
+
+  it("stops listing channels at the call budget", async () => {
+    const client = await channelsOnePerPage(1000);
+
+    const result = await searchSlackMentions(client, WORKSPACE, { oldest: 0, limit: 1000 });
+
+    expect(result.calls).toBe(40);
+    expect(slack?.calls.filter(call => call.method === "users.conversations").length).toBeLessThan(40);
+    expect(result.nextCursor).not.toBeNull();
+  });
+});
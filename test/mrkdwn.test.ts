@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { markdownToMrkdwn } from "../src/mrkdwn";
+
+describe("markdownToMrkdwn", () => {
+  it("converts emphasis, headings and lists", () => {
+    expect(markdownToMrkdwn("**bold** and *italic* and ~~gone~~")).toBe("*bold* and _italic_ and ~gone~");
+    expect(markdownToMrkdwn("# Title\n- one\n* two")).toBe("*Title*\n• one\n• two");
+  });
+
+  it("converts links, including links inside bold text", () => {
+    expect(markdownToMrkdwn("[docs](https://example.com) and <https://example.org>"))
+      .toBe("<https://example.com|docs> and <https://example.org>");
+    expect(markdownToMrkdwn("**[docs](https://example.com)**")).toBe("*<https://example.com|docs>*");
+  });
+
+  it("escapes code and text but keeps Slack mention tokens", () => {
+    expect(markdownToMrkdwn("`a < b` and ```js\nif (a && b) {}\n```"))
+      .toBe("`a &lt; b` and ```\nif (a &amp;&amp; b) {}\n```");
+    expect(markdownToMrkdwn("Hi <@U0123456789> & <!here>\n> quoted")).toBe("Hi <@U0123456789> &amp; <!here>\n> quoted");
+  });
+
+  it("drops NUL characters instead of reading them as placeholders", () => {
+    expect(markdownToMrkdwn("```\n\u00000\u0000\n```")).toBe("```\n0\n```");
+    expect(markdownToMrkdwn("a \u00001\u0000 b **c**")).toBe("a 1 b *c*");
+  });
+});
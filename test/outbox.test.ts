@@ -0,0 +1,94 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { enqueuePost, IdempotencyConflictError, recordDeliveryError } from "../src/outbox";
+import type { Bindings } from "../src/types";
+import { createTestEnv, type TestEnv } from "./env";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+const POST = { channelId: "C0123456789", text: "Deploy finished" };
+
+describe("enqueuePost", () => {
+  let testEnv: TestEnv;
+  let env: Bindings;
+  let workspace: Workspace;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    env = testEnv.env;
+
+    const db = drizzle(env.DB);
+    [workspace] = await db.insert(schema.workspaces)
+      .values({
+        teamName: "Example",
+        teamId: "T0123456789",
+        workspaceUrl: "https://example.slack.com/",
+        botToken: "xoxb-test",
+        userId: "U0123456789",
+        botId: "B0123456789"
+      })
+      .returning();
+  });
+
+  afterAll(() => testEnv.dispose());
+
+  it("queues a new post for every call without an idempotency key", async () => {
+    const first = await enqueuePost(env, workspace, POST);
+    const second = await enqueuePost(env, workspace, POST);
+
+    expect(first.replayed).toBe(false);
+    expect(second.replayed).toBe(false);
+    expect(second.outboxMessage.id).not.toBe(first.outboxMessage.id);
+    expect(first.outboxMessage.status).toBe("queued");
+  });
+
+  it("records when the post was queued", async () => {
+    const { outboxMessage } = await enqueuePost(env, workspace, POST);
+
+    expect(Math.abs(outboxMessage.createdAt.getTime() - Date.now())).toBeLessThan(60 * 1000);
+  });
+
+  it("returns the original post when the same key is retried", async () => {
+    const first = await enqueuePost(env, workspace, POST, { idempotencyKey: "retry" });
+    const retry = await enqueuePost(env, workspace, POST, { idempotencyKey: "retry" });
+
+    expect(first.replayed).toBe(false);
+    expect(retry.replayed).toBe(true);
+    expect(retry.outboxMessage.id).toBe(first.outboxMessage.id);
+  });
+
+  it("rejects the same key for a different post", async () => {
+    await enqueuePost(env, workspace, POST, { idempotencyKey: "conflict" });
+
+    await expect(enqueuePost(env, workspace, { ...POST, text: "Deploy failed" }, { idempotencyKey: "conflict" }))
+      .rejects.toBeInstanceOf(IdempotencyConflictError);
+  });
+
+  it("queues a new post once the key has expired", async () => {
+    const first = await enqueuePost(env, workspace, POST, { idempotencyKey: "expired" });
+
+    const db = drizzle(env.DB);
+    await db.update(schema.outboxMessages)
+      .set({ createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) })
+      .where(eq(schema.outboxMessages.id, first.outboxMessage.id));
+
+    const later = await enqueuePost(env, workspace, { ...POST, text: "Deploy finished again" }, { idempotencyKey: "expired" });
+
+    expect(later.replayed).toBe(false);
+    expect(later.outboxMessage.id).not.toBe(first.outboxMessage.id);
+  });
+
+  it("keeps an error thrown outside the Slack call without changing the status", async () => {
+    const { outboxMessage } = await enqueuePost(env, workspace, POST);
+
+    await recordDeliveryError(env, outboxMessage.id, new Error("D1_ERROR: database is locked"));
+
+    const db = drizzle(env.DB);
+    const [row] = await db.select()
+      .from(schema.outboxMessages)
+      .where(eq(schema.outboxMessages.id, outboxMessage.id));
+    expect(row).toMatchObject({ status: "queued", lastError: "D1_ERROR: database is locked" });
+  });
+});
@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { encodeCursor } from "../src/mentions";
+import { queryAuditLog } from "../src/services";
+import { createTestEnv, serviceContext, type TestEnv } from "./env";
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(() => testEnv.dispose());
+
+describe("offset cursors", () => {
+  it("pages through with the cursor it returns", async () => {
+    const page = await queryAuditLog(serviceContext(testEnv.env), { limit: 10, cursor: encodeCursor({ offset: 20 }) });
+    expect(page).toEqual({ entries: [], next_cursor: null });
+  });
+
+  it.each([
+    ["a negative offset", { offset: -1 }],
+    ["a fractional offset", { offset: 1.5 }],
+    ["a string offset", { offset: "10" }],
+    ["no offset", {}]
+  ])("rejects %s with a 400", async (_, cursor) => {
+    await expect(queryAuditLog(serviceContext(testEnv.env), { limit: 10, cursor: encodeCursor(cursor) }))
+      .rejects.toMatchObject({ status: 400, message: "Invalid cursor" });
+  });
+});
@@ -0,0 +1,100 @@
+import { drizzle } from "drizzle-orm/d1";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { checkPost, PolicyViolationError, savePostingPolicy } from "../src/policy";
+import type { Bindings } from "../src/types";
+import { createTestEnv, type TestEnv } from "./env";
+
+let testEnv: TestEnv;
+let env: Bindings;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  env = testEnv.env;
+});
+
+afterAll(() => testEnv.dispose());
+
+async function createWorkspace() {
+  const db = drizzle(env.DB);
+  const [workspace] = await db.insert(schema.workspaces)
+    .values({
+      teamName: "Example",
+      teamId: `T${crypto.randomUUID()}`,
+      workspaceUrl: "https://example.slack.com/",
+      botToken: "xoxb-test",
+      userId: "U0123456789",
+      botId: "B0123456789"
+    })
+    .returning();
+
+  return workspace.id;
+}
+
+describe("checkPost", () => {
+  it("allows anything when the workspace has no policy", async () => {
+    expect(await checkPost(env, await createWorkspace(), { text: "@channel anything", channelId: "C0123456789" })).toBe("send");
+  });
+
+  it("lists every broken rule", async () => {
+    const workspaceId = await createWorkspace();
+    await savePostingPolicy(env, workspaceId, { deniedChannels: ["C0123456789"], maxMessageLength: 5, allowBroadcasts: false });
+
+    const error = await checkPost(env, workspaceId, { text: "<!here> deploy", channelId: "C0123456789" }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error.status).toBe(403);
+    expect(error.problems).toEqual([
+      "channel C0123456789 is denied",
+      "message is 14 characters, over the limit of 5",
+      "@channel, @here and @everyone are not allowed"
+    ]);
+  });
+
+  it("holds posts to approval channels even when other channels are allowed", async () => {
+    const workspaceId = await createWorkspace();
+    await savePostingPolicy(env, workspaceId, { allowedChannels: ["C0000000001"], approvalChannels: ["C0000000002"] });
+
+    expect(await checkPost(env, workspaceId, { text: "hi", channelId: "C0000000001" })).toBe("send");
+    expect(await checkPost(env, workspaceId, { text: "hi", channelId: "C0000000002" })).toBe("approve");
+    await expect(checkPost(env, workspaceId, { text: "hi", channelId: "C0000000003" })).rejects.toBeInstanceOf(PolicyViolationError);
+  });
+
+  it("matches banned patterns as phrases in the text and blocks, ignoring case", async () => {
+    const workspaceId = await createWorkspace();
+    await savePostingPolicy(env, workspaceId, { bannedPatterns: ["Project X", "a.*b"] });
+
+    await expect(checkPost(env, workspaceId, { text: "about project x" }))
+      .rejects.toMatchObject({ problems: ["message contains banned pattern Project X"] });
+    await expect(checkPost(env, workspaceId, {
+      text: "fine",
+      blocks: [{ type: "section", text: { type: "mrkdwn", text: "see A.*B" } }]
+    })).rejects.toMatchObject({ problems: ["message contains banned pattern a.*b"] });
+    expect(await checkPost(env, workspaceId, { text: "a then b" })).toBe("send");
+  });
+
+  it("checks patterns that would backtrack badly as regular expressions quickly", async () => {
+    const workspaceId = await createWorkspace();
+    await savePostingPolicy(env, workspaceId, { bannedPatterns: ["(a|a)*b", "\\w*\\w*\\w*\\w*x"] });
+
+    const started = Date.now();
+    expect(await checkPost(env, workspaceId, { text: "a".repeat(40000) })).toBe("send");
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("savePostingPolicy", () => {
+  it("keeps fields that are left out", async () => {
+    const workspaceId = await createWorkspace();
+    await savePostingPolicy(env, workspaceId, { deniedChannels: ["C0123456789"], maxMessageLength: 100 });
+
+    const policy = await savePostingPolicy(env, workspaceId, { maxMessageLength: null });
+
+    expect(policy).toMatchObject({ deniedChannels: ["C0123456789"], maxMessageLength: null, allowBroadcasts: true });
+  });
+
+  it("rejects patterns over 200 characters", async () => {
+    await expect(savePostingPolicy(env, await createWorkspace(), { bannedPatterns: ["x".repeat(201)] }))
+      .rejects.toMatchObject({ status: 400 });
+  });
+});
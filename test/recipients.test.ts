@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import * as schemas from "../src/schemas";
+import { sendDirectMessage } from "../src/services";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, serviceContext, type TestEnv } from "./env";
+import { startFakeSlack, type FakeSlack } from "./fake-slack";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+function user(id: string, displayName: string, status: { deleted?: boolean; is_bot?: boolean } = {}) {
+  return { id, name: id.toLowerCase(), profile: { display_name: displayName }, ...status };
+}
+
+const USERS: Record<string, ReturnType<typeof user>> = {
+  U0000000001: user("U0000000001", "alice"),
+  U0000000002: user("U0000000002", "bob"),
+  U0000000003: user("U0000000003", "carol", { deleted: true })
+};
+
+describe("sendDirectMessage", () => {
+  let testEnv: TestEnv;
+  let slack: FakeSlack;
+  let env: Bindings;
+  // A sandbox workspace: recipients are looked up in the fake Slack, and the post is simulated
+  let workspace: Workspace;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    slack = await startFakeSlack({
+      "users.info": args => ({ user: USERS[args.user] })
+    });
+    env = { ...testEnv.env, SLACK_API_URL: slack.url };
+    workspace = await insertWorkspace(env, { mode: "sandbox" });
+  });
+
+  afterAll(async () => {
+    await slack.close();
+    await testEnv.dispose();
+  });
+
+  function send(input: { users: string[]; message_text: string; idempotency_key?: string; allow_inactive?: boolean }) {
+    return sendDirectMessage(serviceContext(env), schemas.sendDirectMessageInput.parse({ workspace_id: workspace.id, ...input }));
+  }
+
+  it("sends one group DM to several users, named after the users as given", async () => {
+    const result = await send({ users: ["U0000000001", "U0000000002"], message_text: "Lunch?" });
+
+    expect(result.outbox?.message).toMatchObject({
+      channel_name: "@U0000000001, @U0000000002",
+      message_text: "Lunch?",
+      simulated: true
+    });
+    expect(result.outbox?.message?.channel_id).toMatch(/^G/);
+  });
+
+  it("replays a retry after a recipient is renamed, without looking them up again", async () => {
+    const first = await send({ users: ["U0000000001"], message_text: "Standup moved", idempotency_key: "rename" });
+
+    slack.handle("users.info", args => ({ user: args.user === "U0000000001" ? user(args.user, "alice.new") : USERS[args.user] }));
+    const lookups = slack.calls.length;
+    const retry = await send({ users: ["U0000000001"], message_text: "Standup moved", idempotency_key: "rename" });
+
+    expect(retry.replayed).toBe(true);
+    expect(retry.outbox?.message?.id).toBe(first.outbox?.message?.id);
+    expect(slack.calls.length).toBe(lookups);
+  });
+
+  it("refuses deactivated users unless allow_inactive is set", async () => {
+    await expect(send({ users: ["U0000000003"], message_text: "Hi" }))
+      .rejects.toMatchObject({ status: 422, details: ["@carol is deactivated"] });
+
+    const result = await send({ users: ["U0000000003"], message_text: "Hi", allow_inactive: true });
+    expect(result.outbox?.message?.channel_name).toBe("@U0000000003");
+  });
+});
@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import * as schemas from "../src/schemas";
+import { listSimulatedCalls } from "../src/services";
+import { getSlackClient } from "../src/slack";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, serviceContext, type TestEnv } from "./env";
+import { startFakeSlack, type FakeSlack } from "./fake-slack";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+describe("sandbox Slack client", () => {
+  let testEnv: TestEnv;
+  let slack: FakeSlack;
+  let env: Bindings;
+  let sandbox: Workspace;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    slack = await startFakeSlack({
+      "conversations.info": args => ({ channel: { id: args.channel, name: "general" } }),
+      "chat.postMessage": args => ({ channel: args.channel, ts: "1700000000.000100" })
+    });
+    env = { ...testEnv.env, SLACK_API_URL: slack.url };
+    sandbox = await insertWorkspace(env, { mode: "sandbox" });
+  });
+
+  beforeEach(() => {
+    slack.calls.length = 0;
+  });
+
+  afterAll(async () => {
+    await slack.close();
+    await testEnv.dispose();
+  });
+
+  function simulatedCalls(workspace: Workspace, input: { method?: string; limit?: number; cursor?: string } = {}) {
+    return listSimulatedCalls(serviceContext(env), schemas.listSimulatedCallsInput.parse({ workspace_id: workspace.id, ...input }));
+  }
+
+  it("records posts with a realistic response instead of sending them", async () => {
+    const client = await getSlackClient(env, sandbox);
+
+    const response = await client.chat.postMessage({ channel: "C0123456789", text: "Hello", thread_ts: "1700000000.000001" });
+
+    expect(slack.calls).toEqual([]);
+    expect(response).toMatchObject({
+      ok: true,
+      channel: "C0123456789",
+      message: { text: "Hello", user: sandbox.botId, thread_ts: "1700000000.000001" }
+    });
+    expect(response.ts).toMatch(/^\d+\.\d{6}$/);
+
+    const { calls } = await simulatedCalls(sandbox, { method: "chat.postMessage" });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      method: "chat.postMessage",
+      arguments: { channel: "C0123456789", text: "Hello" },
+      response: { ts: response.ts }
+    });
+  });
+
+  it("still sends reads to Slack", async () => {
+    const client = await getSlackClient(env, sandbox);
+
+    const response = await client.conversations.info({ channel: "C0123456789" });
+
+    expect(response.channel).toMatchObject({ name: "general" });
+    expect(slack.calls.map(call => call.method)).toEqual(["conversations.info"]);
+  });
+
+  it("opens the same fake DM for the same users in any order", async () => {
+    const client = await getSlackClient(env, sandbox);
+
+    const one = await client.conversations.open({ users: "U0000000001" });
+    const group = await client.conversations.open({ users: "U0000000002,U0000000001" });
+    const sameGroup = await client.conversations.open({ users: "U0000000001, U0000000002" });
+
+    expect(one.channel?.id).toMatch(/^D[0-9A-F]{10}$/);
+    expect(group.channel?.id).toMatch(/^G[0-9A-F]{10}$/);
+    expect(sameGroup.channel?.id).toBe(group.channel?.id);
+    expect(slack.calls).toEqual([]);
+  });
+
+  it("simulates a live workspace only when asked to", async () => {
+    const live = await insertWorkspace(env);
+
+    await (await getSlackClient(env, live, { simulate: true })).chat.postMessage({ channel: "C0123456789", text: "Dry run" });
+    expect(slack.calls).toEqual([]);
+    expect((await simulatedCalls(live)).calls).toHaveLength(1);
+
+    await (await getSlackClient(env, live)).chat.postMessage({ channel: "C0123456789", text: "For real" });
+    expect(slack.calls.map(call => call.method)).toEqual(["chat.postMessage"]);
+    expect((await simulatedCalls(live)).calls).toHaveLength(1);
+  });
+
+  it("lists simulated calls a page at a time", async () => {
+    const workspace = await insertWorkspace(env, { mode: "sandbox" });
+    const client = await getSlackClient(env, workspace);
+    for (const name of ["one", "two", "three"]) {
+      await client.reactions.add({ channel: "C0123456789", timestamp: "1700000000.000100", name });
+    }
+
+    const first = await simulatedCalls(workspace, { limit: 2 });
+    expect(first.calls).toHaveLength(2);
+    expect(first.next_cursor).toBeTruthy();
+
+    const second = await simulatedCalls(workspace, { limit: 2, cursor: first.next_cursor ?? undefined });
+    expect(second.calls).toHaveLength(1);
+    expect(second.next_cursor).toBeNull();
+    expect(new Set([...first.calls, ...second.calls].map(call => call.id)).size).toBe(3);
+  });
+});
@@ -0,0 +1,70 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { dispatchScheduledMessages } from "../src/scheduled";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, type TestEnv } from "./env";
+
+const MINUTE = 60 * 1000;
+
+describe("dispatchScheduledMessages", () => {
+  let testEnv: TestEnv;
+  let env: Bindings;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    env = testEnv.env;
+  });
+
+  afterAll(() => testEnv.dispose());
+
+  async function scheduleSending(workspaceId: string, claimedMinutesAgo: number) {
+    const db = drizzle(env.DB);
+    const claimedAt = new Date(Date.now() - claimedMinutesAgo * MINUTE);
+    const [scheduledMessage] = await db.insert(schema.scheduledMessages)
+      .values({
+        workspaceId,
+        channelId: "C0123456789",
+        messageText: "Standup in 5",
+        postAt: claimedAt,
+        status: "sending",
+        updatedAt: claimedAt
+      })
+      .returning();
+
+    return scheduledMessage;
+  }
+
+  async function statusOf(scheduledMessageId: string) {
+    const db = drizzle(env.DB);
+    const [row] = await db.select()
+      .from(schema.scheduledMessages)
+      .where(eq(schema.scheduledMessages.id, scheduledMessageId));
+
+    return { status: row.status, error: row.error };
+  }
+
+  it("recovers messages stuck in sending, without sending one that reached the outbox again", async () => {
+    // An inactive workspace fails whatever is dispatched, so nothing reaches Slack
+    const workspace = await insertWorkspace(env, { isActive: false });
+    const recent = await scheduleSending(workspace.id, 1);
+    const lost = await scheduleSending(workspace.id, 10);
+    const queued = await scheduleSending(workspace.id, 10);
+
+    const db = drizzle(env.DB);
+    await db.insert(schema.outboxMessages).values({
+      workspaceId: workspace.id,
+      channelId: queued.channelId,
+      payload: { channelId: queued.channelId, text: queued.messageText },
+      nextAttemptAt: new Date(),
+      scheduledMessageId: queued.id
+    });
+
+    expect(await dispatchScheduledMessages(env)).toEqual({ sent: 0, failed: 1 });
+
+    expect(await statusOf(recent.id)).toEqual({ status: "sending", error: null });
+    expect(await statusOf(lost.id)).toEqual({ status: "failed", error: "Workspace is inactive" });
+    expect(await statusOf(queued.id)).toEqual({ status: "sent", error: null });
+  });
+});
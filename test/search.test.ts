@@ -0,0 +1,121 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import { ServiceError } from "../src/errors";
+import { searchPostedMessages, toMatchExpression } from "../src/search";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, type TestEnv } from "./env";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+describe("toMatchExpression", () => {
+  it("quotes every term so FTS5 operators are searched for", () => {
+    expect(toMatchExpression("deploy OR NEAR(x)")).toBe('"deploy" "OR" "NEAR(x)"');
+    expect(toMatchExpression('say "hi"')).toBe('"say" "hi"');
+  });
+
+  it("keeps quoted phrases together and trailing * as a prefix", () => {
+    expect(toMatchExpression('"release notes" depl*')).toBe('"release notes" "depl"*');
+    expect(toMatchExpression("*")).toBe('"*"');
+  });
+
+  it("rejects a query without words", () => {
+    expect(() => toMatchExpression('  "" ')).toThrow(ServiceError);
+  });
+});
+
+describe("searchPostedMessages", () => {
+  let testEnv: TestEnv;
+  let env: Bindings;
+  let workspace: Workspace;
+
+  let counter = 0;
+  async function post(values: Partial<typeof schema.postedMessages.$inferInsert> & { messageText: string }) {
+    const db = drizzle(env.DB);
+    const [postedMessage] = await db.insert(schema.postedMessages)
+      .values({
+        workspaceId: workspace.id,
+        channelId: "C0123456789",
+        channelName: "general",
+        messageTs: `1700000000.${String(++counter).padStart(6, "0")}`,
+        userId: "U0123456789",
+        ...values
+      })
+      .returning();
+
+    return postedMessage;
+  }
+
+  function search(query: string, filters: Partial<Parameters<typeof searchPostedMessages>[2]> = {}) {
+    return searchPostedMessages(env, query, { workspaceId: workspace.id, limit: 20, offset: 0, ...filters });
+  }
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    env = testEnv.env;
+    workspace = await insertWorkspace(env);
+  });
+
+  afterAll(() => testEnv.dispose());
+
+  it("indexes posts made before the index existed and after", async () => {
+    const before = await post({ messageText: "Backfilled rollout complete" });
+    expect((await search("rollout")).map(match => match.postedMessage.id)).toEqual([before.id]);
+
+    const after = await post({ messageText: "Second rollout complete" });
+    expect((await search("rollout")).map(match => match.postedMessage.id).sort()).toEqual([before.id, after.id].sort());
+  });
+
+  it("highlights the matched words in the snippet", async () => {
+    await post({ messageText: "The canary deployment went well" });
+
+    const [match] = await search("canary");
+
+    expect(match.snippet).toContain("**canary**");
+  });
+
+  it("matches stems, prefixes and phrases", async () => {
+    const postedMessage = await post({ messageText: "Migrating the billing database tonight" });
+
+    expect((await search("migrate")).map(match => match.postedMessage.id)).toContain(postedMessage.id);
+    expect((await search("bill*")).map(match => match.postedMessage.id)).toContain(postedMessage.id);
+    expect((await search('"billing database"')).map(match => match.postedMessage.id)).toContain(postedMessage.id);
+    expect(await search('"database billing"')).toEqual([]);
+  });
+
+  it("re-indexes edited posts and drops soft-deleted ones", async () => {
+    const postedMessage = await post({ messageText: "Lunch is at noon" });
+    const db = drizzle(env.DB);
+
+    await db.update(schema.postedMessages)
+      .set({ messageText: "Dinner is at six", editedAt: new Date() })
+      .where(eq(schema.postedMessages.id, postedMessage.id));
+    expect(await search("lunch")).toEqual([]);
+    expect((await search("dinner")).map(match => match.postedMessage.id)).toEqual([postedMessage.id]);
+
+    await db.update(schema.postedMessages)
+      .set({ deletedAt: new Date() })
+      .where(eq(schema.postedMessages.id, postedMessage.id));
+    expect(await search("dinner")).toEqual([]);
+  });
+
+  it("only returns posts from the workspace and channel asked for", async () => {
+    const other = await insertWorkspace(env);
+    await post({ workspaceId: other.id, messageText: "Quarterly planning kickoff" });
+    const random = await post({ channelId: "C0000000002", channelName: "random", messageText: "Quarterly planning notes" });
+    const general = await post({ messageText: "Quarterly planning agenda" });
+
+    expect((await search("quarterly")).map(match => match.postedMessage.id).sort()).toEqual([random.id, general.id].sort());
+    expect((await search("quarterly", { channelId: "C0000000002" })).map(match => match.postedMessage.id)).toEqual([random.id]);
+  });
+
+  it("fetches one match past the limit so callers can tell there are more", async () => {
+    for (let i = 0; i < 3; i++) {
+      await post({ messageText: `Standup reminder ${i}` });
+    }
+
+    expect(await search("standup", { limit: 2 })).toHaveLength(3);
+    expect(await search("standup", { limit: 2, offset: 2 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { verifySlackSignature } from "../src/slack";
+
+const SECRET = "8f742231b10e8888abcd99yyyzzz85a5";
+const BODY = "token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&command=%2Fweather";
+
+async function sign(secret: string, timestamp: string, body: string) {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`v0:${timestamp}:${body}`));
+  return `v0=${[...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function now() {
+  return String(Math.floor(Date.now() / 1000));
+}
+
+describe("verifySlackSignature", () => {
+  it("accepts a request signed with the secret", async () => {
+    const timestamp = now();
+    expect(await verifySlackSignature(SECRET, timestamp, BODY, await sign(SECRET, timestamp, BODY))).toBe(true);
+  });
+
+  it("rejects a different secret or a changed body", async () => {
+    const timestamp = now();
+    expect(await verifySlackSignature(SECRET, timestamp, BODY, await sign("another-secret", timestamp, BODY))).toBe(false);
+    expect(await verifySlackSignature(SECRET, timestamp, `${BODY}&extra=1`, await sign(SECRET, timestamp, BODY))).toBe(false);
+  });
+
+  it("rejects a signature of a different length", async () => {
+    expect(await verifySlackSignature(SECRET, now(), BODY, "v0=abc")).toBe(false);
+  });
+
+  it("rejects requests older than five minutes, and malformed timestamps", async () => {
+    const stale = String(Math.floor(Date.now() / 1000) - 6 * 60);
+    expect(await verifySlackSignature(SECRET, stale, BODY, await sign(SECRET, stale, BODY))).toBe(false);
+    expect(await verifySlackSignature(SECRET, "soon", BODY, await sign(SECRET, "soon", BODY))).toBe(false);
+  });
+});
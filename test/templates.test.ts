@@ -0,0 +1,152 @@
+import { drizzle } from "drizzle-orm/d1";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../src/db/schema";
+import * as schemas from "../src/schemas";
+import { createTemplate, postTemplate } from "../src/services";
+import { renderTemplate, validateTemplate, type MessageTemplate, type TemplateVariable } from "../src/templates";
+import type { Bindings } from "../src/types";
+import { createTestEnv, insertWorkspace, serviceContext, type TestEnv } from "./env";
+import { startFakeSlack, type FakeSlack } from "./fake-slack";
+
+type Workspace = typeof schema.workspaces.$inferSelect;
+
+// User and channel variables are not used, so nothing is looked up
+const env = {} as Bindings;
+const workspace = {} as Workspace;
+
+function template(text: string, variables: TemplateVariable[], options: Partial<MessageTemplate> = {}): MessageTemplate {
+  return {
+    id: "template",
+    workspaceId: "workspace",
+    name: "release",
+    description: null,
+    text,
+    blocks: null,
+    markdown: false,
+    variables,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...options
+  };
+}
+
+describe("validateTemplate", () => {
+  it("lists undeclared placeholders, unused variables and duplicates", () => {
+    expect(() => validateTemplate({ text: "{{version}} {{ env }}" }, [
+      { name: "version", type: "string" },
+      { name: "version", type: "string" },
+      { name: "owner", type: "user" }
+    ])).toThrow(expect.objectContaining({
+      status: 400,
+      details: [
+        'Variable "version" is declared twice',
+        "Placeholder {{env}} has no matching variable",
+        'Variable "owner" is not used in the template'
+      ]
+    }));
+  });
+});
+
+describe("renderTemplate", () => {
+  it("escapes values in mrkdwn text, but not in Markdown or plain_text blocks", async () => {
+    const variables: TemplateVariable[] = [{ name: "title", type: "string" }, { name: "count", type: "number" }];
+
+    expect(await renderTemplate(env, workspace, template("{{title}}: {{count}}", variables), { title: "<b> & co", count: "007" }))
+      .toEqual({ text: "&lt;b&gt; &amp; co: 7" });
+    expect(await renderTemplate(env, workspace, template("{{title}}: {{count}}", variables, { markdown: true }), { title: "<b>", count: 1 }))
+      .toEqual({ text: "<b>: 1" });
+
+    const blocks = [
+      { type: "header", text: { type: "plain_text", text: "{{title}}" } },
+      { type: "section", text: { type: "mrkdwn", text: "{{count}} × {{title}}" } }
+    ];
+    const rendered = await renderTemplate(env, workspace, template("{{title}}", variables, { blocks }), { title: "a<b", count: 2 });
+    expect(rendered.blocks).toEqual([
+      { type: "header", text: { type: "plain_text", text: "a<b" } },
+      { type: "section", text: { type: "mrkdwn", text: "2 × a&lt;b" } }
+    ]);
+  });
+
+  it("lists every missing, unknown or mistyped value", async () => {
+    const variables: TemplateVariable[] = [
+      { name: "count", type: "number" },
+      { name: "link", type: "url" },
+      { name: "done", type: "boolean" },
+      { name: "title", type: "string" }
+    ];
+
+    await expect(renderTemplate(env, workspace, template("{{count}} {{link}} {{done}} {{title}}", variables), {
+      count: "many",
+      link: "ftp://example.com",
+      done: "yes",
+      extra: "x"
+    })).rejects.toMatchObject({
+      status: 400,
+      details: [
+        '"count" must be a number',
+        '"link" must be an http or https URL',
+        '"done" must be true or false',
+        'Missing variable "title" (string)',
+        'Unknown variable "extra"'
+      ]
+    });
+  });
+
+  it("does not take inherited object properties for values", async () => {
+    await expect(renderTemplate(env, workspace, template("{{constructor}}", [{ name: "constructor", type: "string" }]), {}))
+      .rejects.toMatchObject({ details: ['Missing variable "constructor" (string)'] });
+  });
+});
+
+describe("postTemplate", () => {
+  let testEnv: TestEnv;
+  let slack: FakeSlack;
+  let context: ReturnType<typeof serviceContext>;
+  // A sandbox workspace, so the post is simulated and recorded in simulated_calls
+  let sandbox: Workspace;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnv();
+    slack = await startFakeSlack({
+      "conversations.info": args => ({ channel: { id: args.channel, name: "releases" } })
+    });
+    context = serviceContext({ ...testEnv.env, SLACK_API_URL: slack.url });
+    sandbox = await insertWorkspace(context.env, { mode: "sandbox" });
+  });
+
+  afterAll(async () => {
+    await slack.close();
+    await testEnv.dispose();
+  });
+
+  it("posts the filled-in template with the post_message options", async () => {
+    await createTemplate(context, schemas.createTemplateInput.parse({
+      workspace_id: sandbox.id,
+      name: "release",
+      text: "Released {{version}}: {{notes}}",
+      variables: [{ name: "version", type: "string" }, { name: "notes", type: "url" }]
+    }));
+
+    const result = await postTemplate(context, schemas.postTemplateInput.parse({
+      workspace_id: sandbox.id,
+      template: "release",
+      channel_id: "C0123456789",
+      variables: { version: "2.0", notes: "https://example.com/notes" },
+      unfurl_links: false,
+      unfurl_media: false
+    }));
+
+    expect(result.outbox?.message).toMatchObject({ channel_name: "releases", message_text: "Released 2.0: https://example.com/notes" });
+
+    const db = drizzle(context.env.DB);
+    const [posted] = await db.select()
+      .from(schema.simulatedCalls)
+      .where(eq(schema.simulatedCalls.workspaceId, sandbox.id));
+    expect(posted).toMatchObject({
+      method: "chat.postMessage",
+      arguments: { channel: "C0123456789", unfurl_links: false, unfurl_media: false }
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { cancelScheduledMessage, deleteTemplate, listScheduledMessages } from "../src/services";
+import { createTestEnv, insertWorkspace, serviceContext, type TestEnv } from "./env";
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(() => testEnv.dispose());
+
+describe("inactive workspaces", () => {
+  it.each([
+    ["list_scheduled_messages", (workspace_id: string) => listScheduledMessages(serviceContext(testEnv.env), { workspace_id, limit: 20 })],
+    ["cancel_scheduled_message", (workspace_id: string) => cancelScheduledMessage(serviceContext(testEnv.env), { workspace_id, scheduled_message_id: "scheduled" })],
+    ["delete_template", (workspace_id: string) => deleteTemplate(serviceContext(testEnv.env), { workspace_id, template: "standup" })]
+  ])("are refused by %s", async (_, call) => {
+    const workspace = await insertWorkspace(testEnv.env, { isActive: false });
+
+    await expect(call(workspace.id)).rejects.toMatchObject({ status: 404, message: "Workspace not found or inactive" });
+  });
+});